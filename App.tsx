@@ -2,53 +2,138 @@ import React, { useState, useEffect } from 'react';
 import { InputsForm } from './components/InputsForm';
 import { ResultsDashboard } from './components/ResultsDashboard';
 import { AIAssistant } from './components/AIAssistant';
-import { FracInputs, ModelResult, ModelType, UnitSystem } from './types';
-import { INITIAL_INPUTS } from './constants';
-import { calculatePKN, calculateKGD, calculateRadial, runSensitivity } from './services/fractureService';
-import { convertInputs } from './utils/unitConversion';
+import { DfitAnalysis } from './components/DfitAnalysis';
+import { ModelComparison } from './components/ModelComparison';
+import { ScenarioManager } from './components/ScenarioManager';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { SensitivityPanel } from './components/SensitivityPanel';
+import { DesignOptimizer } from './components/DesignOptimizer';
+import { HistoryMatchPanel } from './components/HistoryMatchPanel';
+import { ClusterPanel } from './components/ClusterPanel';
+import { ProductionPanel } from './components/ProductionPanel';
+import { FieldTrace, FormationLayer, FracInputs, ModelResult, ModelType, PumpSchedule, ReservoirInputs, RheologyType, SimulationOptions, ThermalOptions, UnitSystem, CatalogSelection } from './types';
+import { INITIAL_INPUTS, INITIAL_LAYERS, INITIAL_RESERVOIR } from './constants';
+import { runModel } from './services/fractureService';
+import type { SensitivityMessage, SensitivityRequest } from './services/sensitivity.worker';
+import { MODEL_UNITS, convertCatalog, convertInputs, convertLayers, convertPermeabilityCurve, convertReservoir, convertSchedule, convertThermal } from './utils/unitConversion';
+import { ScenarioData } from './services/scenarioService';
+import { ImportStatus, checkJobRecord, parseJobRecord } from './services/recordService';
 
 export default function App() {
-  const [inputs, setInputs] = useState<FracInputs>(INITIAL_INPUTS);
+  const [inputs, setInputs] = useState<FracInputs>(() => convertInputs(INITIAL_INPUTS, MODEL_UNITS, UnitSystem.SI));
   const [selectedModel, setSelectedModel] = useState<ModelType>(ModelType.PKN);
   const [unitSystem, setUnitSystem] = useState<UnitSystem>(UnitSystem.SI);
+  const [schedule, setSchedule] = useState<PumpSchedule>([]); // Empty = constant rate from inputs
+  const [rheology, setRheology] = useState<RheologyType>(RheologyType.NEWTONIAN);
+  const [layers, setLayers] = useState<FormationLayer[]>(() => convertLayers(INITIAL_LAYERS, MODEL_UNITS, UnitSystem.SI)); // Used by P3D only
+  const [thermal, setThermal] = useState<ThermalOptions | null>(null); // Null = constant viscosity
+  const [catalog, setCatalog] = useState<CatalogSelection>({ fluid: null, proppant: null });
+  const [reservoir, setReservoir] = useState<ReservoirInputs>(() => convertReservoir(INITIAL_RESERVOIR, MODEL_UNITS, UnitSystem.SI)); // Production forecast
   const [result, setResult] = useState<ModelResult | null>(null);
   const [sensitivity, setSensitivity] = useState<any[]>([]);
-  const [activeTab, setActiveTab] = useState<'simulation' | 'ai'>('simulation');
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [fieldTrace, setFieldTrace] = useState<FieldTrace | null>(null); // Always SI
+  const [comparison, setComparison] = useState<ModelResult[]>([]);
+  const [activeTab, setActiveTab] = useState<'simulation' | 'compare' | 'sensitivity' | 'uncertainty' | 'optimizer' | 'match' | 'clusters' | 'production' | 'scenarios' | 'dfit' | 'ai'>('simulation');
 
   // Handle Unit Change
   const handleUnitChange = (newSystem: UnitSystem) => {
     // Convert current inputs from old system to new system so numbers change
     const converted = convertInputs(inputs, unitSystem, newSystem);
     setInputs(converted);
+    setSchedule(convertSchedule(schedule, unitSystem, newSystem));
+    setLayers(convertLayers(layers, unitSystem, newSystem));
+    setThermal(thermal ? convertThermal(thermal, unitSystem, newSystem) : null);
+    setCatalog(convertCatalog(catalog, unitSystem, newSystem));
+    setReservoir(convertReservoir(reservoir, unitSystem, newSystem));
     setUnitSystem(newSystem);
   };
 
+  // Restore a saved scenario exactly as it was entered, including its unit system
+  const handleLoadScenario = (scenario: ScenarioData) => {
+    setSelectedModel(scenario.model);
+    setReservoir(convertReservoir(reservoir, unitSystem, scenario.unitSystem)); // Not part of the scenario
+    setUnitSystem(scenario.unitSystem);
+    setInputs({ ...scenario.inputs });
+    setSchedule(scenario.schedule.map(s => ({ ...s })));
+    setRheology(scenario.rheology);
+    setLayers(scenario.layers.map(l => ({ ...l })));
+    setThermal(scenario.thermal ?? null);
+    setCatalog(scenario.catalog ?? { fluid: null, proppant: null });
+    setActiveTab('simulation');
+  };
+
+  // Restore an exported job record and check it still reproduces its stored result
+  const handleImportRecord = (fileName: string, text: string) => {
+    try {
+      const { record, notes } = parseJobRecord(text);
+      const { mismatches } = checkJobRecord(record);
+      handleLoadScenario(record);
+      setImportStatus({ fileName, timestamp: record.timestamp, error: null, notes, mismatches });
+    } catch (e) {
+      setImportStatus({ fileName, timestamp: '', error: e instanceof Error ? e.message : String(e), notes: [], mismatches: [] });
+    }
+  };
+
   // Recalculate whenever inputs, model, or unitSystem changes
   useEffect(() => {
     // Ensure we calculate using SI units
-    const siInputs = convertInputs(inputs, unitSystem, UnitSystem.SI);
-
-    let res: ModelResult;
-    switch (selectedModel) {
-      case ModelType.KGD:
-        res = calculateKGD(siInputs);
-        break;
-      case ModelType.RADIAL:
-        res = calculateRadial(siInputs);
-        break;
-      case ModelType.PKN:
-      default:
-        res = calculatePKN(siInputs);
-        break;
-    }
-    
+    const siInputs = convertInputs(inputs, unitSystem, MODEL_UNITS);
+    const siOptions: SimulationOptions = {
+      schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+      rheology,
+      layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+      thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+      packPermeability: catalog.proppant ? convertPermeabilityCurve(catalog.proppant.permeability, unitSystem, MODEL_UNITS) : undefined
+    };
+
+    const res = runModel(selectedModel, siInputs, siOptions);
     setResult(res);
-    
-    // Sensitivity runs on the SI result
-    const sens = runSensitivity(siInputs, res);
-    setSensitivity(sens);
 
-  }, [inputs, selectedModel, unitSystem]);
+  }, [inputs, schedule, rheology, layers, thermal, catalog, selectedModel, unitSystem]);
+
+  // Quick sensitivity for the dashboard runs in a worker, debounced so typing
+  // does not start a run per keystroke; a newer run replaces an older one
+  useEffect(() => {
+    let worker: Worker | null = null;
+    const timer = setTimeout(() => {
+      const request: SensitivityRequest = {
+        type: selectedModel,
+        inputs: convertInputs(inputs, unitSystem, MODEL_UNITS),
+        options: {
+          schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+          rheology,
+          layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+          thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+          packPermeability: catalog.proppant ? convertPermeabilityCurve(catalog.proppant.permeability, unitSystem, MODEL_UNITS) : undefined
+        }
+      };
+      worker = new Worker(new URL('./services/sensitivity.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SensitivityMessage>) => {
+        setSensitivity(e.data.kind === 'done' ? e.data.rows : []);
+        worker?.terminate();
+      };
+      worker.postMessage(request);
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [inputs, schedule, rheology, layers, thermal, catalog, selectedModel, unitSystem]);
+
+  // Every geometry on the same inputs, only while the comparison is on screen
+  useEffect(() => {
+    if (activeTab !== 'compare') return;
+    const siInputs = convertInputs(inputs, unitSystem, MODEL_UNITS);
+    const siOptions: SimulationOptions = {
+      schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+      rheology,
+      layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+      thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+      packPermeability: catalog.proppant ? convertPermeabilityCurve(catalog.proppant.permeability, unitSystem, MODEL_UNITS) : undefined
+    };
+    setComparison(Object.values(ModelType).map(type => runModel(type, siInputs, siOptions)));
+  }, [activeTab, inputs, schedule, rheology, layers, thermal, catalog, unitSystem]);
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-100 overflow-hidden">
@@ -65,6 +150,60 @@ export default function App() {
            >
              Engineering Model
            </button>
+           <button 
+             onClick={() => setActiveTab('compare')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'compare' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Compare Models
+           </button>
+           <button 
+             onClick={() => setActiveTab('sensitivity')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'sensitivity' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Sensitivity
+           </button>
+           <button 
+             onClick={() => setActiveTab('uncertainty')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'uncertainty' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Uncertainty
+           </button>
+           <button 
+             onClick={() => setActiveTab('optimizer')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'optimizer' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Optimizer
+           </button>
+           <button 
+             onClick={() => setActiveTab('match')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'match' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             History Match
+           </button>
+           <button 
+             onClick={() => setActiveTab('clusters')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'clusters' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Multi-Cluster
+           </button>
+           <button 
+             onClick={() => setActiveTab('production')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'production' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Production
+           </button>
+           <button 
+             onClick={() => setActiveTab('scenarios')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'scenarios' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             Scenarios
+           </button>
+           <button 
+             onClick={() => setActiveTab('dfit')}
+             className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'dfit' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+           >
+             DFIT Analysis
+           </button>
            <button 
              onClick={() => setActiveTab('ai')}
              className={`px-4 py-2 rounded text-sm font-medium transition ${activeTab === 'ai' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
@@ -84,7 +223,17 @@ export default function App() {
                 inputs={inputs} 
                 selectedModel={selectedModel}
                 unitSystem={unitSystem}
+                schedule={schedule}
+                rheology={rheology}
+                layers={layers}
+                thermal={thermal}
+                catalog={catalog}
                 onChange={setInputs} 
+                onScheduleChange={setSchedule}
+                onRheologyChange={setRheology}
+                onLayersChange={setLayers}
+                onThermalChange={setThermal}
+                onCatalogChange={setCatalog}
                 onModelChange={setSelectedModel}
                 onUnitChange={handleUnitChange}
             />
@@ -96,11 +245,171 @@ export default function App() {
                     result={result} 
                     sensitivity={sensitivity} 
                     unitSystem={unitSystem}
+                    schedule={schedule}
+                    rheology={rheology}
+                    layers={layers}
+                    thermal={thermal}
+                    catalog={catalog}
+                    importStatus={importStatus}
+                    onImport={handleImportRecord}
+                    onDismissImport={() => setImportStatus(null)}
+                    fieldTrace={fieldTrace}
+                    onFieldTrace={setFieldTrace}
+                    onApplySchedule={setSchedule}
                 />
             )}
           </div>
         </div>
 
+        {/* Comparison View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'compare' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full h-full p-2">
+             {comparison.length > 0 && (
+               <ModelComparison results={comparison} reference={selectedModel} unitSystem={unitSystem} />
+             )}
+           </div>
+        </div>
+
+        {/* Sensitivity View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'sensitivity' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <SensitivityPanel
+               key={unitSystem} // Ranges are in display units
+               active={activeTab === 'sensitivity'}
+               model={selectedModel}
+               inputs={inputs}
+               unitSystem={unitSystem}
+               schedule={schedule}
+               rheology={rheology}
+               layers={layers}
+               thermal={thermal}
+               packPermeability={catalog.proppant?.permeability ?? null}
+             />
+           </div>
+        </div>
+
+        {/* Uncertainty View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'uncertainty' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <MonteCarloPanel
+               key={unitSystem} // Distribution parameters are in display units
+               model={selectedModel}
+               inputs={inputs}
+               unitSystem={unitSystem}
+               schedule={schedule}
+               rheology={rheology}
+               layers={layers}
+               thermal={thermal}
+               packPermeability={catalog.proppant?.permeability ?? null}
+             />
+           </div>
+        </div>
+
+        {/* Design Optimizer View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'optimizer' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             {result && (
+               <DesignOptimizer
+                 key={unitSystem} // Targets and limits are in display units
+                 model={selectedModel}
+                 inputs={inputs}
+                 result={result}
+                 unitSystem={unitSystem}
+                 schedule={schedule}
+                 rheology={rheology}
+                 layers={layers}
+                 thermal={thermal}
+                 packPermeability={catalog.proppant?.permeability ?? null}
+                 onApply={(designInputs, designSchedule) => {
+                   setInputs(designInputs);
+                   setSchedule(designSchedule);
+                   setActiveTab('simulation');
+                 }}
+               />
+             )}
+           </div>
+        </div>
+
+        {/* History Match View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'match' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <HistoryMatchPanel
+               key={unitSystem} // Pasted record and bounds are in display units
+               model={selectedModel}
+               inputs={inputs}
+               unitSystem={unitSystem}
+               schedule={schedule}
+               rheology={rheology}
+               layers={layers}
+               thermal={thermal}
+               packPermeability={catalog.proppant?.permeability ?? null}
+               onApply={(patch, matchedSchedule) => {
+                 setInputs({ ...inputs, ...patch });
+                 setSchedule(matchedSchedule);
+                 setActiveTab('simulation');
+               }}
+             />
+           </div>
+        </div>
+
+        {/* Multi-Cluster View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'clusters' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <ClusterPanel
+               key={unitSystem} // Spacing is in display units
+               model={selectedModel}
+               inputs={inputs}
+               unitSystem={unitSystem}
+               schedule={schedule}
+               rheology={rheology}
+               layers={layers}
+               thermal={thermal}
+               packPermeability={catalog.proppant?.permeability ?? null}
+             />
+           </div>
+        </div>
+
+        {/* Production Forecast View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'production' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <ProductionPanel
+               key={unitSystem} // Assumed conductivity and proppant mass are in display units
+               result={result}
+               inputs={inputs}
+               packPermeability={catalog.proppant?.permeability ?? null}
+               reservoir={reservoir}
+               unitSystem={unitSystem}
+               onReservoirChange={setReservoir}
+             />
+           </div>
+        </div>
+
+        {/* Scenario Library View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'scenarios' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             <ScenarioManager
+               current={{ model: selectedModel, unitSystem, inputs, schedule, rheology, layers, thermal, catalog }}
+               unitSystem={unitSystem}
+               onLoad={handleLoadScenario}
+             />
+           </div>
+        </div>
+
+        {/* DFIT View */}
+        <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'dfit' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
+           <div className="w-full max-w-6xl h-full p-2">
+             {result && (
+               <DfitAnalysis
+                 key={unitSystem} // Pasted data is in display units
+                 inputs={inputs}
+                 result={result}
+                 unitSystem={unitSystem}
+                 onApply={(patch) => setInputs({ ...inputs, ...patch })}
+               />
+             )}
+           </div>
+        </div>
+
         {/* AI Assistant View */}
         <div className={`absolute inset-0 flex justify-center transition-opacity duration-300 ${activeTab === 'ai' ? 'opacity-100 z-10' : 'opacity-0 z-0 pointer-events-none'}`}>
            <div className="w-full max-w-4xl h-full shadow-2xl">
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { FluidCatalogEntry, ProppantCatalogEntry, RheologyType, UnitSystem } from '../types';
+import { FLUID_CATALOG, PROPPANT_CATALOG } from '../constants';
+import { deleteFluid, deleteProppant, isBuiltIn, saveFluid, saveProppant } from '../services/catalogService';
+import { permeabilityAtStress } from '../services/proppantService';
+import { MODEL_UNITS, convertFluidEntry, convertProppantEntry, getLabel, getUnitLabel } from '../utils/unitConversion';
+
+type Entry = { id: string, name: string };
+
+interface PickerProps<T extends Entry> {
+  label: string;
+  entries: T[]; // Display units
+  selected: T | null; // Display units
+  modified: boolean; // Inputs edited away from the selected entry
+  blank: T; // Starting point for a new entry when nothing is selected
+  summary?: React.ReactNode;
+  onSelect: (entry: T | null) => void;
+  onSave: (entry: T) => Promise<T>;
+  onDelete: (entry: T) => Promise<T | null>; // Resolves to the entry to select afterwards
+  renderForm: (draft: T, setDraft: (entry: T) => void) => React.ReactNode;
+}
+
+const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-xs font-mono';
+const buttonClass = 'bg-slate-700 hover:bg-slate-600 text-slate-300 px-2 py-1 rounded text-xs transition';
+
+// Selection, editing and storage shared by the fluid and proppant catalogs
+const CatalogPicker = <T extends Entry,>({
+  label, entries, selected, modified, blank, summary, onSelect, onSave, onDelete, renderForm
+}: PickerProps<T>) => {
+  const [draft, setDraft] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wrap store calls so failures show up under the picker instead of being swallowed
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const save = run(async () => {
+    if (!draft) return;
+    onSelect(await onSave({ ...draft, name: draft.name.trim() }));
+    setDraft(null);
+  });
+
+  const remove = run(async () => {
+    if (selected) onSelect(await onDelete(selected));
+  });
+
+  return (
+    <div className="bg-slate-800 p-2 rounded mb-2 border border-slate-700">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-slate-200">{label}</span>
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => {
+            setDraft(null);
+            onSelect(entries.find(entry => entry.id === e.target.value) ?? null);
+          }}
+          className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm max-w-[11rem]"
+        >
+          <option value="">Custom values</option>
+          {entries.map(entry => <option key={entry.id} value={entry.id}>{entry.name}</option>)}
+        </select>
+      </div>
+      {selected && modified && (
+        <div className="text-xs text-amber-400 mt-1">Values below were edited after applying {selected.name}.</div>
+      )}
+      {selected && summary && <div className="text-xs text-slate-500 mt-1">{summary}</div>}
+
+      {draft ? (
+        <div className="mt-2 flex flex-col gap-1">
+          <input
+            className={`${inputClass} text-white font-sans`}
+            value={draft.name}
+            placeholder="Name"
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          {renderForm(draft, setDraft)}
+          <div className="flex gap-2 justify-end mt-1">
+            <button onClick={() => setDraft(null)} className={buttonClass}>Cancel</button>
+            <button onClick={save} className="bg-blue-600 hover:bg-blue-500 text-white px-2 py-1 rounded text-xs transition">Save</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 justify-end mt-2">
+          {selected && <button onClick={() => setDraft({ ...selected })} className={buttonClass}>Edit</button>}
+          <button
+            onClick={() => setDraft({ ...(selected ?? blank), id: '', name: selected ? `${selected.name} (copy)` : blank.name })}
+            className={buttonClass}
+          >
+            New
+          </button>
+          {selected && (
+            <button onClick={remove} className={buttonClass} title={isBuiltIn(selected.id) ? 'Discard edits to this built-in entry' : 'Remove from the catalog'}>
+              {isBuiltIn(selected.id) ? 'Reset' : 'Delete'}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <div className="mt-2 p-2 bg-red-900/20 border border-red-700/50 rounded text-xs text-red-200">{error}</div>}
+    </div>
+  );
+};
+
+const FieldRow = ({ label, unit, children }: { label: string, unit: string, children?: React.ReactNode }) => (
+  <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+    {label}
+    <span className="flex items-center gap-1">
+      {children}
+      <span className="w-16 text-right text-slate-500">{unit}</span>
+    </span>
+  </label>
+);
+
+const NumberField = ({ label, unit, value, onChange }: { label: string, unit: string, value: number, onChange: (v: number) => void }) => (
+  <FieldRow label={label} unit={unit}>
+    <input type="number" step="any" value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className={`${inputClass} w-24 text-right`} />
+  </FieldRow>
+);
+
+// Two-column curve typed one point per line ("x, y"). Applied only while it parses.
+const CurveField = ({ label, columns, points, onChange }: {
+  label: string,
+  columns: string,
+  points: [number, number][],
+  onChange: (points: [number, number][]) => void
+}) => {
+  const [text, setText] = useState(() => points.map(([x, y]) => `${parseFloat(x.toPrecision(6))}, ${parseFloat(y.toPrecision(6))}`).join('\n'));
+  const parse = (value: string): [number, number][] | null => {
+    const rows = value.split('\n').map(l => l.trim()).filter(l => l.length > 0).map(l => l.split(/[\s,;]+/).map(parseFloat));
+    return rows.length > 0 && rows.every(r => r.length === 2 && r.every(Number.isFinite)) ? rows.map(([x, y]) => [x, y]) : null;
+  };
+  const valid = parse(text) !== null;
+  return (
+    <div className="text-xs text-slate-400">
+      <div className="flex justify-between">{label}<span className="text-slate-500">{columns}</span></div>
+      <textarea
+        rows={Math.min(6, Math.max(2, points.length))}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parse(e.target.value);
+          if (parsed) onChange(parsed);
+        }}
+        className={`${inputClass} w-full ${valid ? '' : 'border-red-500'}`}
+      />
+    </div>
+  );
+};
+
+interface FluidPickerProps {
+  unitSystem: UnitSystem;
+  entries: FluidCatalogEntry[]; // Base SI (model units), as stored
+  selected: FluidCatalogEntry | null; // Display units
+  modified: boolean;
+  onSelect: (fluid: FluidCatalogEntry | null) => void; // Display units
+  onCatalogChange: () => void;
+}
+
+export const FluidCatalogPicker: React.FC<FluidPickerProps> = ({ unitSystem, entries, selected, modified, onSelect, onCatalogChange }) => {
+  const toDisplay = (f: FluidCatalogEntry) => convertFluidEntry(f, MODEL_UNITS, unitSystem);
+  const toSI = (f: FluidCatalogEntry) => convertFluidEntry(f, unitSystem, MODEL_UNITS);
+  const uTemp = getLabel('temperature', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+
+  return (
+    <CatalogPicker<FluidCatalogEntry>
+      label="Fluid System"
+      entries={entries.map(toDisplay)}
+      selected={selected}
+      modified={modified}
+      blank={{ ...toDisplay(FLUID_CATALOG[0]), id: '', name: 'New fluid' }}
+      summary={selected && `${selected.rheology}, ${selected.rheology === RheologyType.NEWTONIAN
+        ? `${parseFloat(selected.mu.toPrecision(3))} ${getUnitLabel('mu', unitSystem)}`
+        : `n' ${selected.n_prime}, K' ${parseFloat(selected.K_prime.toPrecision(3))} ${getUnitLabel('K_prime', unitSystem)}`}`}
+      onSelect={onSelect}
+      onSave={async (f) => {
+        const saved = await saveFluid(toSI(f));
+        onCatalogChange();
+        return toDisplay(saved);
+      }}
+      onDelete={async (f) => {
+        await deleteFluid(f.id);
+        onCatalogChange();
+        const original = FLUID_CATALOG.find(b => b.id === f.id);
+        return original ? toDisplay(original) : null;
+      }}
+      renderForm={(draft, setDraft) => (
+        <>
+          <FieldRow label="Rheology" unit="">
+            <select
+              value={draft.rheology}
+              onChange={(e) => setDraft({ ...draft, rheology: e.target.value as RheologyType })}
+              className={`${inputClass} text-white`}
+            >
+              {Object.values(RheologyType).map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </FieldRow>
+          <NumberField label="Density" unit={getUnitLabel('rho_f', unitSystem)} value={draft.rho_f} onChange={v => setDraft({ ...draft, rho_f: v })} />
+          <NumberField label="Viscosity (μ)" unit={getUnitLabel('mu', unitSystem)} value={draft.mu} onChange={v => setDraft({ ...draft, mu: v })} />
+          <NumberField label="Flow Index (n')" unit={getUnitLabel('n_prime', unitSystem)} value={draft.n_prime} onChange={v => setDraft({ ...draft, n_prime: v })} />
+          <NumberField label="Consistency (K')" unit={getUnitLabel('K_prime', unitSystem)} value={draft.K_prime} onChange={v => setDraft({ ...draft, K_prime: v })} />
+          <NumberField label="Yield Stress (τy)" unit={getUnitLabel('tau_y', unitSystem)} value={draft.tau_y} onChange={v => setDraft({ ...draft, tau_y: v })} />
+          <CurveField
+            label="Viscosity vs temperature"
+            columns={`${uTemp}, factor`}
+            points={draft.temperature.map(p => [p.x, p.factor])}
+            onChange={pts => setDraft({ ...draft, temperature: pts.map(([x, factor]) => ({ x, factor })) })}
+          />
+          <CurveField
+            label="Retained viscosity vs time"
+            columns={`${uTime}, factor`}
+            points={draft.degradation.map(p => [p.x, p.factor])}
+            onChange={pts => setDraft({ ...draft, degradation: pts.map(([x, factor]) => ({ x, factor })) })}
+          />
+        </>
+      )}
+    />
+  );
+};
+
+interface ProppantPickerProps {
+  unitSystem: UnitSystem;
+  entries: ProppantCatalogEntry[]; // Base SI (model units), as stored
+  selected: ProppantCatalogEntry | null; // Display units
+  modified: boolean;
+  closureStress: number; // Display units
+  onSelect: (proppant: ProppantCatalogEntry | null) => void; // Display units
+  onCatalogChange: () => void;
+}
+
+export const ProppantCatalogPicker: React.FC<ProppantPickerProps> = ({
+  unitSystem, entries, selected, modified, closureStress, onSelect, onCatalogChange
+}) => {
+  const toDisplay = (p: ProppantCatalogEntry) => convertProppantEntry(p, MODEL_UNITS, unitSystem);
+  const toSI = (p: ProppantCatalogEntry) => convertProppantEntry(p, unitSystem, MODEL_UNITS);
+  const uPress = getLabel('pressure', unitSystem);
+  const uPerm = getLabel('permeability', unitSystem);
+
+  return (
+    <CatalogPicker<ProppantCatalogEntry>
+      label="Proppant"
+      entries={entries.map(toDisplay)}
+      selected={selected}
+      modified={modified}
+      blank={{ ...toDisplay(PROPPANT_CATALOG[0]), id: '', name: 'New proppant' }}
+      summary={selected && `SG ${selected.specific_gravity}, pack permeability ${permeabilityAtStress(selected.permeability, closureStress).toFixed(0)} ${uPerm} at ${closureStress.toFixed(0)} ${uPress} closure`}
+      onSelect={onSelect}
+      onSave={async (p) => {
+        const saved = await saveProppant(toSI(p));
+        onCatalogChange();
+        return toDisplay(saved);
+      }}
+      onDelete={async (p) => {
+        await deleteProppant(p.id);
+        onCatalogChange();
+        const original = PROPPANT_CATALOG.find(b => b.id === p.id);
+        return original ? toDisplay(original) : null;
+      }}
+      renderForm={(draft, setDraft) => (
+        <>
+          <NumberField label="Specific Gravity" unit="-" value={draft.specific_gravity} onChange={v => setDraft({ ...draft, specific_gravity: v })} />
+          <NumberField label="Grain Diameter" unit={getUnitLabel('d_p', unitSystem)} value={draft.d_p} onChange={v => setDraft({ ...draft, d_p: v })} />
+          <NumberField label="Pack Porosity" unit={getUnitLabel('phi_pack', unitSystem)} value={draft.phi_pack} onChange={v => setDraft({ ...draft, phi_pack: v })} />
+          <CurveField
+            label="Pack permeability vs closure stress"
+            columns={`${uPress}, ${uPerm}`}
+            points={draft.permeability.map(p => [p.stress, p.permeability])}
+            onChange={pts => setDraft({ ...draft, permeability: pts.map(([stress, permeability]) => ({ stress, permeability })) })}
+          />
+        </>
+      )}
+    />
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FormationLayer, FracInputs, ModelType, MultiClusterResult, PermeabilityPoint, PumpSchedule, RheologyType, ThermalOptions, UnitSystem } from '../types';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { MODEL_UNITS, convertInputs, convertLayers, convertPermeabilityCurve, convertSchedule, convertThermal, getLabel, unitConverters } from '../utils/unitConversion';
+import type { ClusterMessage, ClusterRequest } from '../services/cluster.worker';
+
+interface Props {
+  model: ModelType;
+  inputs: FracInputs; // Display units
+  unitSystem: UnitSystem;
+  schedule: PumpSchedule; // Display units
+  rheology: RheologyType;
+  layers: FormationLayer[]; // Display units
+  thermal: ThermalOptions | null; // Display units
+  packPermeability: PermeabilityPoint[] | null; // Display units
+}
+
+const MAX_CLUSTERS = 12;
+
+export const ClusterPanel: React.FC<Props> = ({ model, inputs, unitSystem, schedule, rheology, layers, thermal, packPermeability }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+
+  const perfsFor = (count: number) => Math.max(1, Math.round(inputs.n_perfs / count));
+  const [spacing, setSpacing] = useState(() => parseFloat(toDisplay(15, 'length').toPrecision(3)));
+  const [perfs, setPerfs] = useState<number[]>(() => new Array(5).fill(perfsFor(5)));
+  const [progress, setProgress] = useState<{ iteration: number, change: number } | null>(null);
+  const [stage, setStage] = useState<MultiClusterResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const setCount = (count: number) => {
+    const n = Math.min(MAX_CLUSTERS, Math.max(1, Math.round(count) || 1));
+    setPerfs(new Array(n).fill(perfsFor(n)));
+  };
+
+  const run = () => {
+    stop();
+    setError(null);
+    setStage(null);
+    const request: ClusterRequest = {
+      type: model,
+      inputs: convertInputs(inputs, unitSystem, MODEL_UNITS),
+      options: {
+        schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+        rheology,
+        layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+        thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+        packPermeability: packPermeability ? convertPermeabilityCurve(packPermeability, unitSystem, MODEL_UNITS) : undefined
+      },
+      design: { spacing: toSI(spacing, 'length'), perfs }
+    };
+    const worker = new Worker(new URL('../services/cluster.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ClusterMessage>) => {
+      const msg = e.data;
+      if (msg.kind === 'progress') {
+        setProgress({ iteration: msg.iteration, change: msg.change });
+        return;
+      }
+      if (msg.kind === 'done') setStage(msg.result);
+      else setError(msg.message);
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || 'Multi-cluster worker failed.');
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress({ iteration: 0, change: NaN });
+    worker.postMessage(request);
+  };
+
+  const uLen = getLabel('length', unitSystem);
+  const uPress = getLabel('pressure', unitSystem);
+  const uRate = getLabel('rate', unitSystem);
+  const uWidth = getLabel('width', unitSystem);
+  const qStage = schedule.length > 0 ? schedule[schedule.length - 1].q : inputs.q;
+
+  const chartData = (stage?.clusters ?? []).map(c => ({
+    cluster: `#${c.index + 1}`,
+    'Rate Share': parseFloat((c.fraction * 100).toFixed(1)),
+    'Half-Length': parseFloat(toDisplay(c.result.length, 'length').toFixed(1)),
+    'Stress Shadow': parseFloat(toDisplay(c.stress_shadow, 'pressure').toFixed(1))
+  }));
+
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm font-mono w-20 text-right';
+  const summary = (label: string, value: string) => (
+    <div>
+      <div className="text-xs text-slate-400 uppercase">{label}</div>
+      <div className="text-lg font-mono text-white">{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Multi-Cluster Stage ({model})</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Splits the stage rate between evenly spaced clusters that share one wellbore pressure. Each cluster sees the
+          closure stress plus the stress shadow of its neighbours and its own perforation friction; every cluster is
+          run as a single fracture at its share of the rate.
+        </p>
+        <div className="flex flex-wrap gap-4 items-center mb-4 text-sm text-slate-200">
+          <label className="flex items-center gap-2">
+            Clusters
+            <input type="number" min={1} max={MAX_CLUSTERS} step={1} value={perfs.length} className={inputClass}
+              onChange={(e) => setCount(parseFloat(e.target.value))} />
+          </label>
+          <label className="flex items-center gap-2">
+            Spacing
+            <input type="number" step="any" value={spacing} className={inputClass} onChange={(e) => setSpacing(parseFloat(e.target.value))} />
+            <span className="text-xs text-slate-500">{uLen}</span>
+          </label>
+          <span className="text-xs text-slate-500">
+            Stage rate {qStage.toFixed(3)} {uRate}{schedule.length > 0 ? ' (last pump stage)' : ''}, {inputs.n_perfs} perforations in the single-fracture inputs
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {perfs.map((p, i) => (
+            <label key={i} className="flex flex-col items-center bg-slate-900/50 p-2 rounded border border-slate-700 text-xs text-slate-400">
+              Cluster {i + 1} perfs
+              <input type="number" min={0} step={1} value={p} className={inputClass}
+                onChange={(e) => setPerfs(perfs.map((v, j) => (j === i ? Math.max(0, Math.round(parseFloat(e.target.value)) || 0) : v)))} />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-4 items-center">
+          {progress === null ? (
+            <button onClick={run} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-1 rounded text-sm transition">Run Stage</button>
+          ) : (
+            <>
+              <button onClick={stop} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-4 py-1 rounded text-sm transition">Cancel</button>
+              <span className="text-xs text-slate-400 font-mono">
+                Iteration {progress.iteration}{Number.isFinite(progress.change) && `, split change ${(progress.change * 100).toFixed(2)}%`}
+              </span>
+            </>
+          )}
+        </div>
+        {error && <div className="mt-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+      </div>
+
+      {stage && (
+        <>
+          <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-4">
+              {summary(`Bottomhole (${uPress})`, toDisplay(stage.p_wellbore, 'pressure').toFixed(0))}
+              {summary(`Surface (${uPress})`, toDisplay(stage.p_surface, 'pressure').toFixed(0))}
+              {summary('Rate CV', `${(stage.rate_cv * 100).toFixed(1)}%`)}
+              {summary('Iterations', `${stage.iterations}${stage.converged ? '' : ' (not settled)'}`)}
+            </div>
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                <tr>
+                  <th className="px-3 py-2">Cluster</th>
+                  <th className="px-3 py-2 text-right">Position ({uLen})</th>
+                  <th className="px-3 py-2 text-right">Perfs</th>
+                  <th className="px-3 py-2 text-right">Rate ({uRate})</th>
+                  <th className="px-3 py-2 text-right">Share</th>
+                  <th className="px-3 py-2 text-right">Shadow ({uPress})</th>
+                  <th className="px-3 py-2 text-right">Perf Friction ({uPress})</th>
+                  <th className="px-3 py-2 text-right">Half-Length ({uLen})</th>
+                  <th className="px-3 py-2 text-right">Avg Width ({uWidth})</th>
+                  <th className="px-3 py-2 text-right">Net Pressure ({uPress})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stage.clusters.map(c => (
+                  <tr key={c.index} className="border-b border-slate-700 font-mono">
+                    <td className="px-3 py-2">#{c.index + 1}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.position, 'length').toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">{c.n_perfs}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.q, 'rate').toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right">{(c.fraction * 100).toFixed(1)}%</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.stress_shadow, 'pressure').toFixed(0)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.perf_friction, 'pressure').toFixed(0)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.result.length, 'length').toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.result.width_avg, 'width').toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(c.result.p_net, 'pressure').toFixed(0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {stage.warnings.length > 0 && (
+              <div className="mt-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200">
+                {stage.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Flow Distribution (% of Stage Rate) and Stress Shadow ({uPress})</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="cluster" stroke="#94a3b8" fontSize={12} />
+                  <YAxis yAxisId="share" stroke="#94a3b8" fontSize={12} width={40} />
+                  <YAxis yAxisId="shadow" orientation="right" stroke="#94a3b8" fontSize={12} width={60} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  <Legend />
+                  <ReferenceLine yAxisId="share" y={100 / stage.clusters.length} stroke="#64748b" strokeDasharray="4 4" label={{ value: 'Even split', fill: '#94a3b8', fontSize: 10, position: 'insideTopLeft' }} />
+                  <Bar yAxisId="share" dataKey="Rate Share" fill="#3b82f6" />
+                  <Line yAxisId="shadow" type="monotone" dataKey="Stress Shadow" stroke="#f59e0b" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Half-Length per Cluster ({uLen})</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="cluster" stroke="#94a3b8" fontSize={12} />
+                  <YAxis stroke="#94a3b8" fontSize={12} width={50} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  <Bar dataKey="Half-Length" fill="#10b981" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DesignConstraints, DesignMetric, DesignPoint, DesignResult, FormationLayer, FracInputs, ModelResult, ModelType,
+  PermeabilityPoint, PumpSchedule, RheologyType, ThermalOptions, UnitSystem
+} from '../types';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { MODEL_UNITS, convertInputs, convertLayers, convertPermeabilityCurve, convertSchedule, convertThermal, getLabel, unitConverters } from '../utils/unitConversion';
+import { getSchedule } from '../services/fractureService';
+import { scaleDesign } from '../services/optimizerService';
+import type { OptimizerMessage, OptimizerRequest } from '../services/optimizer.worker';
+
+interface Props {
+  model: ModelType;
+  inputs: FracInputs; // Display units
+  result: ModelResult; // SI, current design
+  unitSystem: UnitSystem;
+  schedule: PumpSchedule; // Display units
+  rheology: RheologyType;
+  layers: FormationLayer[]; // Display units
+  thermal: ThermalOptions | null; // Display units
+  packPermeability: PermeabilityPoint[] | null; // Display units
+  onApply: (inputs: FracInputs, schedule: PumpSchedule) => void; // Display units
+}
+
+const METRICS: { key: DesignMetric, label: string, cat: 'length' | 'width' | 'conductivity' }[] = [
+  { key: 'length', label: 'Half-Length (or Radius)', cat: 'length' },
+  { key: 'width', label: 'Average Width', cat: 'width' },
+  { key: 'conductivity', label: 'Propped Conductivity', cat: 'conductivity' }
+];
+
+export const DesignOptimizer: React.FC<Props> = ({ model, inputs, result, unitSystem, schedule, rheology, layers, thermal, packPermeability, onApply }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+
+  const currentMetric = (metric: DesignMetric) => {
+    const cat = METRICS.find(m => m.key === metric)!.cat;
+    const value = metric === 'length' ? result.length : metric === 'width' ? result.width_avg : result.proppant?.conductivity ?? 0;
+    return parseFloat((toDisplay(value, cat) * 1.5).toPrecision(3));
+  };
+
+  const base = getSchedule(inputs, { schedule });
+  const [metric, setMetric] = useState<DesignMetric>('length');
+  const [target, setTarget] = useState(() => currentMetric('length'));
+  const [pLimit, setPLimit] = useState(inputs.p_limit);
+  const [qMax, setQMax] = useState(() => parseFloat((Math.max(...base.map(s => s.q)) * 2).toPrecision(3)));
+  const [volumeMax, setVolumeMax] = useState(() =>
+    parseFloat((toDisplay(result.volume_injected, 'volume') * 3).toPrecision(3)));
+  const [effMin, setEffMin] = useState(20); // %
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [design, setDesign] = useState<DesignResult | null>(null);
+  const [muLevel, setMuLevel] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const metricCat = METRICS.find(m => m.key === metric)!.cat;
+  const newtonian = rheology === RheologyType.NEWTONIAN;
+  const muCat = newtonian ? 'viscosity' : 'consistency';
+
+  const run = () => {
+    stop();
+    setError(null);
+    setDesign(null);
+    const constraints: DesignConstraints = {
+      metric,
+      target: toSI(target, metricCat),
+      p_limit: toSI(pLimit, 'pressure'),
+      q_max: toSI(qMax, 'rate'),
+      volume_max: toSI(volumeMax, 'volume'),
+      efficiency_min: effMin / 100
+    };
+    const request: OptimizerRequest = {
+      type: model,
+      inputs: convertInputs(inputs, unitSystem, MODEL_UNITS),
+      options: {
+        schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+        rheology,
+        layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+        thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+        packPermeability: packPermeability ? convertPermeabilityCurve(packPermeability, unitSystem, MODEL_UNITS) : undefined
+      },
+      constraints
+    };
+    const worker = new Worker(new URL('../services/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<OptimizerMessage>) => {
+      const msg = e.data;
+      if (msg.kind === 'progress') {
+        setProgress({ done: msg.done, total: msg.total });
+        return;
+      }
+      if (msg.kind === 'done') {
+        setDesign(msg.result);
+        setMuLevel(msg.result.best ? msg.result.best.mu_factor : null);
+      } else {
+        setError(msg.message);
+      }
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || 'Optimizer worker failed.');
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress({ done: 0, total: 1 });
+    worker.postMessage(request);
+  };
+
+  const apply = (p: DesignPoint) => {
+    const scaled = scaleDesign(inputs, schedule, rheology, { q: p.q_factor, time: p.time_factor, mu: p.mu_factor });
+    onApply(scaled.inputs, scaled.schedule);
+  };
+
+  const uRate = getLabel('rate', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+  const muLevels = design ? Array.from(new Set(design.points.map(p => p.mu_factor))) : [];
+  const toChart = (p: DesignPoint) => ({
+    rate: parseFloat(toDisplay(p.q, 'rate').toPrecision(4)),
+    time: parseFloat(toDisplay(p.time, 'time').toPrecision(4)),
+    metric: p.metric !== null ? parseFloat(toDisplay(p.metric, metricCat).toPrecision(4)) : null
+  });
+  const level = design ? design.points.filter(p => p.mu_factor === muLevel) : [];
+  const best = design?.best ?? null;
+
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm font-mono w-28 text-right';
+  const field = (label: string, value: number, unit: string, onChange: (v: number) => void) => (
+    <label className="flex items-center justify-between bg-slate-900/50 p-2 rounded border border-slate-700 text-sm text-slate-200">
+      {label}
+      <span className="flex items-center gap-2">
+        <input type="number" step="any" value={value} className={inputClass} onChange={(e) => onChange(parseFloat(e.target.value))} />
+        <span className="text-xs text-slate-500 w-20">{unit}</span>
+      </span>
+    </label>
+  );
+
+  const row = (label: string, value: string) => (
+    <div className="flex justify-between text-sm"><span className="text-slate-400">{label}</span><span className="font-mono text-white">{value}</span></div>
+  );
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Design Optimizer ({model})</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Searches pump rate, pump time and {newtonian ? 'viscosity' : "consistency (K')"} around the current design for the
+          least fluid that reaches the target without exceeding the limits. A pump schedule is scaled as a whole.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+          <label className="flex items-center justify-between bg-slate-900/50 p-2 rounded border border-slate-700 text-sm text-slate-200">
+            Target
+            <select
+              value={metric}
+              onChange={(e) => { const m = e.target.value as DesignMetric; setMetric(m); setTarget(currentMetric(m)); }}
+              className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:outline-none text-sm"
+            >
+              {METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+            </select>
+          </label>
+          {field('Target Value', target, getLabel(metricCat, unitSystem), setTarget)}
+          {field('Max Surface Pressure', pLimit, getLabel('pressure', unitSystem), setPLimit)}
+          {field('Max Rate', qMax, uRate, setQMax)}
+          {field('Max Fluid Volume', volumeMax, getLabel('volume', unitSystem), setVolumeMax)}
+          {field('Min Efficiency', effMin, '%', setEffMin)}
+        </div>
+        <div className="flex gap-4 items-center">
+          {progress === null ? (
+            <button onClick={run} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-1 rounded text-sm transition">Optimize</button>
+          ) : (
+            <>
+              <button onClick={stop} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-4 py-1 rounded text-sm transition">Cancel</button>
+              <div className="flex-1 bg-slate-900 rounded h-2 overflow-hidden">
+                <div className="bg-blue-500 h-2" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <span className="text-xs text-slate-400 font-mono">{progress.done} / {progress.total}</span>
+            </>
+          )}
+        </div>
+        {error && <div className="mt-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+      </div>
+
+      {design && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-slate-800 p-4 rounded border border-slate-700 flex flex-col gap-2">
+            <h4 className="text-white font-bold">Best Design</h4>
+            {best ? (
+              <>
+                <div className={`text-xs px-2 py-1 rounded border ${design.onTarget ? 'bg-emerald-900/30 border-emerald-700 text-emerald-200' : 'bg-orange-900/30 border-orange-700 text-orange-200'}`}>
+                  {design.onTarget ? 'Target reached within all constraints' : 'Target out of reach: closest feasible design'}
+                </div>
+                {row(`Peak Rate (${uRate})`, toDisplay(best.q, 'rate').toFixed(3))}
+                {row(`Pump Time (${uTime})`, toDisplay(best.time, 'time').toFixed(1))}
+                {row(`${newtonian ? 'Viscosity' : "K'"} (${getLabel(muCat, unitSystem)})`, toDisplay(best.mu, muCat).toPrecision(3))}
+                {row(`${METRICS.find(m => m.key === metric)!.label} (${getLabel(metricCat, unitSystem)})`, best.metric !== null ? toDisplay(best.metric, metricCat).toPrecision(4) : '—')}
+                {row(`Surface Pressure (${getLabel('pressure', unitSystem)})`, toDisplay(best.p_surface, 'pressure').toFixed(0))}
+                {row(`Fluid Volume (${getLabel('volume', unitSystem)})`, toDisplay(best.volume, 'volume').toFixed(1))}
+                {row('Efficiency', `${(best.efficiency * 100).toFixed(1)}%`)}
+                <button onClick={() => apply(best)} className="mt-2 bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded text-sm transition">
+                  Apply to Inputs
+                </button>
+              </>
+            ) : (
+              <div className="text-sm text-red-200">No design on the search grid satisfies the constraints.</div>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 bg-slate-800 p-4 rounded border border-slate-700 h-96">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-xs text-slate-400 uppercase">Feasible Region (Rate vs Pump Time)</h4>
+              <select
+                value={muLevel ?? ''}
+                onChange={(e) => setMuLevel(parseFloat(e.target.value))}
+                className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:outline-none text-xs"
+              >
+                {muLevels.map(f => {
+                  const mu = design.points.find(p => p.mu_factor === f)!.mu;
+                  return <option key={f} value={f}>{newtonian ? 'μ' : "K'"} = {toDisplay(mu, muCat).toPrecision(3)} {getLabel(muCat, unitSystem)}</option>;
+                })}
+              </select>
+            </div>
+            <ResponsiveContainer width="100%" height="90%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis type="number" dataKey="rate" name="Rate" scale="log" domain={['auto', 'auto']} stroke="#94a3b8" fontSize={12} label={{ value: uRate, position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+                <YAxis type="number" dataKey="time" name="Pump Time" scale="log" domain={['auto', 'auto']} stroke="#94a3b8" fontSize={12} width={50} label={{ value: uTime, angle: -90, position: 'insideLeft', fill: '#64748b' }} />
+                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} cursor={{ strokeDasharray: '3 3' }} />
+                <Legend />
+                <Scatter name="Feasible" data={level.filter(p => p.violations.length === 0).map(toChart)} fill="#10b981" />
+                <Scatter name="Violates limits" data={level.filter(p => p.violations.length > 0).map(toChart)} fill="#ef4444" />
+                {best && best.mu_factor === muLevel && (
+                  <Scatter name="Best" data={[toChart(best)]} fill="#facc15" shape="star" />
+                )}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
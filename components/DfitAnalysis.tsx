@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { DfitPoint, FracInputs, ModelResult, UnitSystem } from '../types';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { analyzeDfit, parseDfitCsv } from '../services/dfitService';
+import { MODEL_UNITS, UnitCategory, convertInputs, getLabel, unitConverters } from '../utils/unitConversion';
+
+interface Props {
+  inputs: FracInputs; // Display units
+  result: ModelResult; // SI
+  unitSystem: UnitSystem;
+  onApply: (patch: Partial<FracInputs>) => void; // Display units
+}
+
+export const DfitAnalysis: React.FC<Props> = ({ inputs, result, unitSystem, onApply }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+
+  const pumpTime = result.stages[result.stages.length - 1]?.endTime ?? 0;
+  const [csv, setCsv] = useState('');
+  const [tpDisp, setTpDisp] = useState(parseFloat(toDisplay(pumpTime, 'time').toFixed(2)));
+  const [alpha, setAlpha] = useState(1);
+  const [rp, setRp] = useState(1);
+
+  const uPress = getLabel('pressure', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+
+  // Pasted data is in display units; the analysis runs in SI
+  const analysis = useMemo(() => {
+    const raw = parseDfitCsv(csv);
+    if (raw.length === 0) return null;
+    const data: DfitPoint[] = raw.map(d => ({ dt: toSI(d.dt, 'time'), pressure: toSI(d.pressure, 'pressure') }));
+    const si = convertInputs(inputs, unitSystem, MODEL_UNITS);
+    return analyzeDfit(data, {
+      tp: toSI(tpDisp, 'time'),
+      alpha,
+      model: result.type,
+      E_prime: si.E / (1 - si.nu * si.nu),
+      H: result.height,
+      L: result.length,
+      rp
+    });
+  }, [csv, tpDisp, alpha, rp, inputs, result, unitSystem]);
+
+  const sqrtTimeFactor = Math.sqrt(toSI(1, 'time'));
+  const chartData = (analysis?.points ?? []).map(pt => ({
+    G: parseFloat(pt.G.toFixed(3)),
+    sqrtT: parseFloat(Math.sqrt(toDisplay(pt.dt, 'time')).toFixed(3)),
+    Pressure: parseFloat(toDisplay(pt.pressure, 'pressure').toFixed(1)),
+    GdPdG: parseFloat(toDisplay(pt.GdPdG, 'pressure').toFixed(1)),
+    Tangent: parseFloat(toDisplay(analysis!.tangentSlope * pt.G, 'pressure').toFixed(1)),
+    dPdSqrtT: parseFloat((toDisplay(pt.dPdSqrtT, 'pressure') * sqrtTimeFactor).toFixed(1))
+  }));
+
+  const fmt = (val: number | null, cat: UnitCategory, digits: number) =>
+    val !== null ? toDisplay(val, cat).toFixed(digits) : '—';
+
+  const canApply = analysis !== null && analysis.closurePressure !== null && analysis.CL !== null;
+  const apply = () => {
+    if (!analysis || analysis.closurePressure === null || analysis.CL === null) return;
+    onApply({
+      sigma_min: toDisplay(analysis.closurePressure, 'pressure'),
+      CL: toDisplay(analysis.CL, 'leakoff')
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">DFIT Analysis</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Paste falloff data as two columns: time since shut-in ({uTime}) and bottomhole pressure ({uPress}).
+          Leak-off is calibrated against the {result.type} geometry of the current model.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <textarea
+            className="bg-slate-900 text-emerald-400 font-mono text-xs p-2 rounded border border-slate-700 h-40 focus:outline-none focus:border-emerald-500"
+            placeholder={`time, pressure\n0.5, 6200\n1.0, 6150\n...`}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+          />
+          <div className="flex flex-col gap-2 text-sm">
+            <label className="flex items-center justify-between bg-slate-900 p-2 rounded border border-slate-700">
+              <span className="text-slate-200">Injection Time ({uTime})</span>
+              <input type="number" step="any" className="bg-transparent text-right text-emerald-400 font-mono w-24 focus:outline-none"
+                value={tpDisp} onChange={(e) => setTpDisp(parseFloat(e.target.value))} />
+            </label>
+            <label className="flex items-center justify-between bg-slate-900 p-2 rounded border border-slate-700">
+              <span className="text-slate-200">G-function Bound</span>
+              <select value={alpha} onChange={(e) => setAlpha(parseFloat(e.target.value))}
+                className="bg-slate-800 text-white p-1 rounded border border-slate-700 text-sm">
+                <option value={1}>Low leak-off (α = 1)</option>
+                <option value={0.5}>High leak-off (α = 0.5)</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between bg-slate-900 p-2 rounded border border-slate-700">
+              <span className="text-slate-200">Permeable Area Ratio (rp)</span>
+              <input type="number" step="any" className="bg-transparent text-right text-emerald-400 font-mono w-24 focus:outline-none"
+                value={rp} onChange={(e) => setRp(parseFloat(e.target.value))} />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {analysis && (
+        <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-lg font-bold text-white">Interpretation</h3>
+            <button onClick={apply} disabled={!canApply}
+              className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-3 py-1 rounded text-sm transition">
+              Apply σmin &amp; CL to Inputs
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-slate-300">
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Closure Pressure</div>
+              <div className="text-2xl font-mono text-white mt-1">{fmt(analysis.closurePressure, 'pressure', 0)} <span className="text-base text-slate-500">{uPress}</span></div>
+              <div className="text-xs">√t pick: {fmt(analysis.sqrtTClosurePressure, 'pressure', 0)} {uPress}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Closure Time</div>
+              <div className="text-2xl font-mono text-white mt-1">{fmt(analysis.closureTime, 'time', 1)} <span className="text-base text-slate-500">{uTime}</span></div>
+              <div className="text-xs">G at closure: {analysis.closureG !== null ? analysis.closureG.toFixed(2) : '—'}</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Leak-off Coeff</div>
+              <div className="text-2xl font-mono text-white mt-1">{analysis.CL !== null ? toDisplay(analysis.CL, 'leakoff').toExponential(2) : '—'} <span className="text-base text-slate-500">{getLabel('leakoff', unitSystem)}</span></div>
+              <div className="text-xs">Efficiency: {analysis.efficiency !== null ? (analysis.efficiency * 100).toFixed(1) : '—'} %</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">ISIP</div>
+              <div className="text-2xl font-mono text-white mt-1">{fmt(analysis.isip, 'pressure', 0)} <span className="text-base text-slate-500">{uPress}</span></div>
+              <div className="text-xs">Net at shut-in: {fmt(analysis.netPressure, 'pressure', 0)} {uPress}</div>
+            </div>
+          </div>
+          {analysis.warnings.length > 0 && (
+            <div className="mt-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200">
+              {analysis.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {chartData.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+            <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">G-Function Plot</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="G" type="number" stroke="#94a3b8" fontSize={12} label={{ value: 'G', position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+                <YAxis yAxisId="p" stroke="#94a3b8" fontSize={12} width={60} domain={['auto', 'auto']} />
+                <YAxis yAxisId="d" orientation="right" stroke="#94a3b8" fontSize={12} width={60} />
+                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                <Legend />
+                <Line yAxisId="p" type="monotone" dataKey="Pressure" stroke="#f59e0b" dot={false} />
+                <Line yAxisId="d" type="monotone" dataKey="GdPdG" name="G·dP/dG" stroke="#3b82f6" dot={false} />
+                <Line yAxisId="d" type="linear" dataKey="Tangent" stroke="#64748b" strokeDasharray="4 4" dot={false} />
+                {analysis?.closureG !== null && analysis?.closureG !== undefined && (
+                  <ReferenceLine yAxisId="p" x={parseFloat(analysis.closureG.toFixed(3))} stroke="#a855f7" strokeDasharray="4 4" label={{ value: 'Closure', fill: '#a855f7', fontSize: 10, position: 'top' }} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+            <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Square-Root Time Plot</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="sqrtT" type="number" stroke="#94a3b8" fontSize={12} label={{ value: `√${uTime}`, position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+                <YAxis yAxisId="p" stroke="#94a3b8" fontSize={12} width={60} domain={['auto', 'auto']} />
+                <YAxis yAxisId="d" orientation="right" stroke="#94a3b8" fontSize={12} width={60} />
+                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                <Legend />
+                <Line yAxisId="p" type="monotone" dataKey="Pressure" stroke="#f59e0b" dot={false} />
+                <Line yAxisId="d" type="monotone" dataKey="dPdSqrtT" name="dP/d√t" stroke="#10b981" dot={false} />
+                {analysis?.sqrtTClosureTime !== null && analysis?.sqrtTClosureTime !== undefined && (
+                  <ReferenceLine yAxisId="p" x={parseFloat(Math.sqrt(toDisplay(analysis.sqrtTClosureTime, 'time')).toFixed(3))} stroke="#a855f7" strokeDasharray="4 4" label={{ value: 'Inflection', fill: '#a855f7', fontSize: 10, position: 'top' }} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
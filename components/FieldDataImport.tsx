@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { FieldChannel, FieldColumnMapping, FieldTrace, PumpSchedule, UnitSystem } from '../types';
+import { MODEL_UNITS, UNIT_CONFIG, convertSchedule, getLabel, unitConverters } from '../utils/unitConversion';
+import {
+  FIELD_CHANNELS, FieldTable, buildFieldTrace, channelCategory, guessMapping, parseFieldTable, resampleTrace, traceToSchedule
+} from '../services/fieldDataService';
+
+interface Props {
+  unitSystem: UnitSystem;
+  mu: number; // Display units, viscosity given to stages built from the measured rate
+  rho_p: number; // Display units, proppant density to take the clean rate from the slurry rate
+  trace: FieldTrace | null; // SI
+  onLoad: (trace: FieldTrace | null) => void;
+  onApplySchedule: (schedule: PumpSchedule) => void; // Display units
+}
+
+export const FieldDataImport: React.FC<Props> = ({ unitSystem, mu, rho_p, trace, onLoad, onApplySchedule }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<FieldTable | null>(null);
+  const [mapping, setMapping] = useState<FieldColumnMapping[]>([]);
+  const [step, setStep] = useState(() => parseFloat(toDisplay(10, 'time').toPrecision(3)));
+  const [error, setError] = useState<string | null>(null);
+  const uTime = getLabel('time', unitSystem);
+
+  const readFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const parsed = parseFieldTable(reader.result as string);
+        setTable(parsed);
+        setMapping(guessMapping(parsed, unitSystem));
+        setFileName(file.name);
+        setError(null);
+      } catch (err) {
+        setTable(null);
+        setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = ''; // Allow reading the same file again
+  };
+
+  // A channel can feed one column only: picking it here clears it elsewhere
+  const setChannel = (i: number, channel: FieldChannel | null) => setMapping(mapping.map((m, j) => {
+    if (j === i) return { ...m, channel };
+    return channel !== null && m.channel === channel ? { ...m, channel: null } : m;
+  }));
+
+  const build = (): FieldTrace | null => {
+    if (!table) return trace;
+    try {
+      const t = resampleTrace(buildFieldTrace(fileName, table, mapping), toSI(step, 'time'));
+      setError(null);
+      return t;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  };
+
+  const overlay = () => {
+    const t = build();
+    if (t) onLoad(t);
+  };
+
+  const drive = () => {
+    const t = build();
+    if (!t) return;
+    try {
+      onLoad(t);
+      onApplySchedule(convertSchedule(traceToSchedule(t, toSI(mu, 'viscosity'), toSI(rho_p, 'density')), MODEL_UNITS, unitSystem));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const hasRate = table ? mapping.some(m => m.channel === 'rate') : trace?.channels.includes('rate') ?? false;
+  const duration = trace && trace.samples.length > 0 ? trace.samples[trace.samples.length - 1].time : 0;
+
+  return (
+    <div className="mb-4 p-4 rounded border border-slate-700 bg-slate-900/50 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h3 className="font-bold text-white">Field Treatment Data</h3>
+          <p className="text-xs text-slate-400">
+            CSV or WITSML-style export (mnemonic row, optional unit row). Time zero is moved to the start of pumping.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+            Choose File
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,.tsv,text/csv,text/plain" className="hidden" onChange={readFile} />
+          {trace && (
+            <button onClick={() => onLoad(null)} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Clear Overlay
+            </button>
+          )}
+        </div>
+      </div>
+
+      {table && (
+        <>
+          <table className="w-full text-xs text-left text-slate-300 mb-3">
+            <thead className="text-slate-500 uppercase bg-slate-900">
+              <tr>
+                <th className="px-2 py-1">Column</th>
+                <th className="px-2 py-1">Unit in File</th>
+                <th className="px-2 py-1">Channel</th>
+                <th className="px-2 py-1">Read As</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.headers.map((h, i) => {
+                const m = mapping[i];
+                return (
+                  <tr key={i} className="border-b border-slate-800">
+                    <td className="px-2 py-1 font-mono">{h || `#${i + 1}`}</td>
+                    <td className="px-2 py-1 font-mono text-slate-500">{table.units[i] || '—'}</td>
+                    <td className="px-2 py-1">
+                      <select value={m.channel ?? ''} onChange={(e) => setChannel(i, (e.target.value || null) as FieldChannel | null)}
+                        className="bg-slate-800 text-white p-1 rounded border border-slate-700 text-xs">
+                        <option value="">Ignore</option>
+                        {FIELD_CHANNELS.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      {m.channel && (
+                        <>
+                          <select value={m.unitSystem} onChange={(e) => setMapping(mapping.map((x, j) => (j === i ? { ...x, unitSystem: e.target.value as UnitSystem, detected: false } : x)))}
+                            className="bg-slate-800 text-white p-1 rounded border border-slate-700 text-xs">
+                            {[UnitSystem.SI, UnitSystem.FIELD].map(sys => (
+                              <option key={sys} value={sys}>{UNIT_CONFIG[sys][channelCategory(m.channel!)].label}</option>
+                            ))}
+                          </select>
+                          <span className={`ml-2 ${m.detected ? 'text-emerald-400' : 'text-orange-400'}`}>{m.detected ? 'detected' : 'assumed'}</span>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Resample every
+              <input type="number" step="any" min="0" value={step} onChange={(e) => setStep(parseFloat(e.target.value))}
+                className="bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-xs font-mono w-20 text-right" />
+              {uTime}
+            </label>
+            <span className="text-xs text-slate-500">{table.rows.length} rows</span>
+            <div className="flex-1" />
+            <button onClick={overlay} className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded text-sm transition">
+              Overlay on Charts
+            </button>
+            <button onClick={drive} disabled={!hasRate} title="Replace the pump schedule with stages built from the measured rate and proppant"
+              className="bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Drive Model with Measured Rate
+            </button>
+          </div>
+        </>
+      )}
+
+      {trace && (
+        <div className="mt-2 text-xs text-slate-400">
+          Overlaying {trace.fileName}: {trace.samples.length} samples over {toDisplay(duration, 'time').toFixed(1)} {uTime} ({trace.channels.map(c => FIELD_CHANNELS.find(f => f.key === c)!.label).join(', ')}).
+        </div>
+      )}
+      {error && <div className="mt-2 p-2 bg-red-900/20 border border-red-700/50 rounded text-xs text-red-200">{error}</div>}
+    </div>
+  );
+};
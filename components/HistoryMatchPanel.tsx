@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  FormationLayer, FracInputs, HistoryMatchResult, MatchParameter, ModelType, ObservedPressure, PressureKind,
+  PermeabilityPoint, PumpSchedule, RheologyType, ThermalOptions, UnitSystem
+} from '../types';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { MODEL_UNITS, convertInputs, convertLayers, convertParam, convertPermeabilityCurve, convertSchedule, convertThermal, getLabel, getUnitLabel, unitConverters } from '../utils/unitConversion';
+import { parseDfitCsv } from '../services/dfitService';
+import type { HistoryMatchMessage, HistoryMatchRequest } from '../services/historyMatch.worker';
+
+interface Props {
+  model: ModelType;
+  inputs: FracInputs; // Display units
+  unitSystem: UnitSystem;
+  schedule: PumpSchedule; // Display units
+  rheology: RheologyType;
+  layers: FormationLayer[]; // Display units
+  thermal: ThermalOptions | null; // Display units
+  packPermeability: PermeabilityPoint[] | null; // Display units
+  onApply: (patch: Partial<FracInputs>, schedule: PumpSchedule) => void; // Display units
+}
+
+const KINDS: { key: PressureKind, label: string }[] = [
+  { key: 'bottomhole', label: 'Bottomhole treating pressure' },
+  { key: 'surface', label: 'Surface treating pressure' },
+  { key: 'net', label: 'Net pressure' }
+];
+
+// Default search window: a factor either side of the current value
+const defaultBounds = (field: keyof FracInputs, value: number): MatchParameter => {
+  const spread = field === 'CL' ? 5 : 2;
+  return { field, lower: value / spread, upper: value * spread };
+};
+
+export const HistoryMatchPanel: React.FC<Props> = ({ model, inputs, unitSystem, schedule, rheology, layers, thermal, packPermeability, onApply }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+
+  const [csv, setCsv] = useState('');
+  const [kind, setKind] = useState<PressureKind>('bottomhole');
+  const [params, setParams] = useState<MatchParameter[]>(() =>
+    (['E', 'CL', 'H'] as (keyof FracInputs)[]).map(f => defaultBounds(f, inputs[f])));
+  const [progress, setProgress] = useState<{ iteration: number, rms: number } | null>(null);
+  const [result, setResult] = useState<HistoryMatchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const uPress = getLabel('pressure', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+
+  // Pasted record is in display units: time since start of pumping, pressure
+  const observed: ObservedPressure[] = useMemo(() =>
+    parseDfitCsv(csv).map(d => ({ time: toSI(d.dt, 'time'), pressure: toSI(d.pressure, 'pressure') })),
+  [csv, unitSystem]);
+
+  const fields = Object.keys(inputs) as (keyof FracInputs)[];
+  const unused = fields.filter(f => !params.some(p => p.field === f));
+  const updateParam = (i: number, patch: Partial<MatchParameter>) =>
+    setParams(params.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+
+  const run = () => {
+    stop();
+    setError(null);
+    setResult(null);
+    const request: HistoryMatchRequest = {
+      type: model,
+      inputs: convertInputs(inputs, unitSystem, MODEL_UNITS),
+      options: {
+        schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+        rheology,
+        layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+        thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+        packPermeability: packPermeability ? convertPermeabilityCurve(packPermeability, unitSystem, MODEL_UNITS) : undefined
+      },
+      observed,
+      kind,
+      parameters: params.map(p => ({
+        field: p.field,
+        lower: convertParam(p.field, p.lower, unitSystem, MODEL_UNITS),
+        upper: convertParam(p.field, p.upper, unitSystem, MODEL_UNITS)
+      }))
+    };
+    const worker = new Worker(new URL('../services/historyMatch.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<HistoryMatchMessage>) => {
+      const msg = e.data;
+      if (msg.kind === 'progress') {
+        setProgress({ iteration: msg.iteration, rms: msg.rms });
+        return;
+      }
+      if (msg.kind === 'done') setResult(msg.result);
+      else setError(msg.message);
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || 'History match worker failed.');
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress({ iteration: 0, rms: NaN });
+    worker.postMessage(request);
+  };
+
+  const apply = () => {
+    if (!result) return;
+    const patch = Object.fromEntries(result.parameters.map(p =>
+      [p.field, convertParam(p.field, p.value, MODEL_UNITS, unitSystem)])) as Partial<FracInputs>;
+    // The match scaled every stage's rate and viscosity with q and mu
+    const scale = (field: 'q' | 'mu') => inputs[field] > 0 ? (patch[field] ?? inputs[field]) / inputs[field] : 1;
+    onApply(patch, schedule.map(s => ({ ...s, q: s.q * scale('q'), mu: s.mu * scale('mu') })));
+  };
+
+  const fmtParam = (field: keyof FracInputs, v: number | null) => {
+    if (v === null) return '—';
+    const d = convertParam(field, v, MODEL_UNITS, unitSystem);
+    return Math.abs(d) >= 1e4 || (Math.abs(d) < 1e-2 && d !== 0) ? d.toExponential(3) : d.toFixed(3);
+  };
+
+  const chartData = (result?.residuals ?? []).map(r => ({
+    time: parseFloat(toDisplay(r.time, 'time').toFixed(2)),
+    Observed: parseFloat(toDisplay(r.observed, 'pressure').toFixed(1)),
+    Initial: parseFloat(toDisplay(r.initial, 'pressure').toFixed(1)),
+    'Best Fit': parseFloat(toDisplay(r.model, 'pressure').toFixed(1)),
+    Residual: parseFloat(toDisplay(r.model - r.observed, 'pressure').toFixed(1))
+  }));
+
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm font-mono w-28 text-right';
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">History Match ({model})</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Paste a treating pressure record as two columns: time since start of pumping ({uTime}) and pressure ({uPress}).
+          The selected inputs are adjusted within their bounds by least squares against the model pressure history.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <textarea
+              className="bg-slate-900 text-emerald-400 font-mono text-xs p-2 rounded border border-slate-700 h-40 focus:outline-none focus:border-emerald-500"
+              placeholder={`time, pressure\n1, 6200\n2, 6350\n...`}
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+            />
+            <label className="flex items-center justify-between bg-slate-900 p-2 rounded border border-slate-700 text-sm">
+              <span className="text-slate-200">Record Type</span>
+              <select value={kind} onChange={(e) => setKind(e.target.value as PressureKind)}
+                className="bg-slate-800 text-white p-1 rounded border border-slate-700 text-sm">
+                {KINDS.map(k => <option key={k.key} value={k.key}>{k.label}</option>)}
+              </select>
+            </label>
+            <div className="text-xs text-slate-500">{observed.length} observations parsed</div>
+          </div>
+          <div className="flex flex-col gap-2 text-sm">
+            {params.map((p, i) => (
+              <div key={p.field} className="flex items-center gap-2 bg-slate-900 p-2 rounded border border-slate-700">
+                <select value={p.field} onChange={(e) => { const f = e.target.value as keyof FracInputs; updateParam(i, defaultBounds(f, inputs[f])); }}
+                  className="bg-slate-800 text-white p-1 rounded border border-slate-700 text-sm">
+                  {[p.field, ...unused].map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+                <input type="number" step="any" value={p.lower} className={inputClass} title="Lower bound"
+                  onChange={(e) => updateParam(i, { lower: parseFloat(e.target.value) })} />
+                <span className="text-slate-500">–</span>
+                <input type="number" step="any" value={p.upper} className={inputClass} title="Upper bound"
+                  onChange={(e) => updateParam(i, { upper: parseFloat(e.target.value) })} />
+                <span className="text-xs text-slate-500 flex-1">{getUnitLabel(p.field, unitSystem)}</span>
+                <button onClick={() => setParams(params.filter((_, j) => j !== i))} className="text-slate-500 hover:text-red-400">✕</button>
+              </div>
+            ))}
+            <button
+              onClick={() => unused.length > 0 && setParams([...params, defaultBounds(unused[0], inputs[unused[0]])])}
+              className="text-xs text-emerald-400 hover:text-emerald-300 self-start"
+            >
+              + Add matched input
+            </button>
+            <div className="flex gap-4 items-center mt-2">
+              {progress === null ? (
+                <button onClick={run} disabled={observed.length <= params.length || params.length === 0}
+                  className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 py-1 rounded text-sm transition">
+                  Run Match
+                </button>
+              ) : (
+                <>
+                  <button onClick={stop} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-4 py-1 rounded text-sm transition">Cancel</button>
+                  <span className="text-xs text-slate-400 font-mono">
+                    Iteration {progress.iteration}{Number.isFinite(progress.rms) && `, RMS ${toDisplay(progress.rms, 'pressure').toFixed(1)} ${uPress}`}
+                  </span>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+        {error && <div className="mt-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+      </div>
+
+      {result && (
+        <>
+          <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h3 className="text-lg font-bold text-white">Best Fit</h3>
+                <p className="text-xs text-slate-400">
+                  RMS misfit {toDisplay(result.rms_initial, 'pressure').toFixed(1)} → {toDisplay(result.rms, 'pressure').toFixed(1)} {uPress} in {result.iterations} iterations
+                  {result.converged ? '' : ' (not converged)'}.
+                </p>
+              </div>
+              <button onClick={apply} className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded text-sm transition">
+                Apply Best Fit to Inputs
+              </button>
+            </div>
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                <tr>
+                  <th className="px-4 py-2">Parameter</th>
+                  <th className="px-4 py-2 text-right">Initial</th>
+                  <th className="px-4 py-2 text-right">Best Fit</th>
+                  <th className="px-4 py-2 text-right">95% Interval</th>
+                  <th className="px-4 py-2">Unit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.parameters.map(p => (
+                  <tr key={p.field} className="border-b border-slate-700">
+                    <td className="px-4 py-2 font-mono">{p.field}{p.atBound && <span className="ml-2 text-xs text-orange-400">at bound</span>}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmtParam(p.field, p.initial)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-white">{fmtParam(p.field, p.value)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{p.ci_low !== null ? `${fmtParam(p.field, p.ci_low)} – ${fmtParam(p.field, p.ci_high)}` : '—'}</td>
+                    <td className="px-4 py-2 text-xs text-slate-500">{getUnitLabel(p.field, unitSystem)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.warnings.length > 0 && (
+              <div className="mt-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200">
+                {result.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Pressure Match ({uPress})</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+                  <YAxis stroke="#94a3b8" fontSize={12} width={60} domain={['auto', 'auto']} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  <Legend />
+                  <Scatter dataKey="Observed" fill="#94a3b8" />
+                  <Line type="monotone" dataKey="Initial" stroke="#64748b" strokeDasharray="5 5" dot={false} />
+                  <Line type="monotone" dataKey="Best Fit" stroke="#10b981" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Residuals, Model − Observed ({uPress})</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+                  <YAxis stroke="#94a3b8" fontSize={12} width={60} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <Scatter dataKey="Residual" fill="#f59e0b" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,28 @@
-import React from 'react';
-import { FracInputs, ModelType, UnitSystem } from '../types';
-import { getUnitLabel } from '../utils/unitConversion';
+import React, { useEffect, useState } from 'react';
+import {
+  CatalogSelection, FluidCatalogEntry, FluidSystem, FormationLayer, FracInputs, ModelType, ProppantCatalogEntry, PumpSchedule,
+  PumpStage, RheologyType, ThermalOptions, UnitSystem, ViscosityCurvePoint
+} from '../types';
+import { FLUID_CATALOG, INITIAL_THERMAL, PROPPANT_CATALOG } from '../constants';
+import { differsFrom, fluidInputs, listFluids, listProppants, proppantInputs } from '../services/catalogService';
+import { MODEL_UNITS, convertFluid, convertThermal, getLabel, getUnitLabel } from '../utils/unitConversion';
+import { FluidCatalogPicker, ProppantCatalogPicker } from './CatalogPicker';
 
 interface InputsFormProps {
   inputs: FracInputs;
   selectedModel: ModelType;
   unitSystem: UnitSystem;
+  schedule: PumpSchedule;
+  rheology: RheologyType;
+  layers: FormationLayer[];
+  thermal: ThermalOptions | null; // Display units; null = constant viscosity
+  catalog: CatalogSelection; // Display units
   onChange: (inputs: FracInputs) => void;
+  onScheduleChange: (schedule: PumpSchedule) => void;
+  onRheologyChange: (rheology: RheologyType) => void;
+  onLayersChange: (layers: FormationLayer[]) => void;
+  onThermalChange: (thermal: ThermalOptions | null) => void;
+  onCatalogChange: (catalog: CatalogSelection) => void;
   onModelChange: (model: ModelType) => void;
   onUnitChange: (system: UnitSystem) => void;
 }
@@ -45,11 +61,31 @@ const NumberInput = ({
   </div>
 );
 
+const StageInput = ({ value, onChange }: { value: number, onChange: (val: number) => void }) => (
+  <input
+    type="number"
+    className="bg-transparent text-right text-emerald-400 font-mono w-full focus:outline-none"
+    value={value}
+    step="any"
+    onChange={(e) => onChange(parseFloat(e.target.value))}
+  />
+);
+
 export const InputsForm: React.FC<InputsFormProps> = ({ 
   inputs, 
   selectedModel, 
   unitSystem, 
+  schedule,
+  rheology,
+  layers,
+  thermal,
+  catalog,
   onChange, 
+  onScheduleChange,
+  onRheologyChange,
+  onLayersChange,
+  onThermalChange,
+  onCatalogChange,
   onModelChange, 
   onUnitChange 
 }) => {
@@ -58,8 +94,79 @@ export const InputsForm: React.FC<InputsFormProps> = ({
     onChange({ ...inputs, [field]: value });
   };
 
+  const updateStage = (index: number, patch: Partial<PumpStage>) => {
+    onScheduleChange(schedule.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  // New stages copy the previous one; the first copies the scalar pump inputs
+  const addStage = () => {
+    const last = schedule[schedule.length - 1];
+    const stage: PumpStage = last
+      ? { ...last, name: `Stage ${schedule.length + 1}` }
+      : { name: 'Stage 1', q: inputs.q, mu: inputs.mu, duration: inputs.time, proppant: 0 };
+    onScheduleChange([...schedule, stage]);
+  };
+
+  const removeStage = (index: number) => {
+    onScheduleChange(schedule.filter((_, i) => i !== index));
+  };
+
+  const updateLayer = (index: number, patch: Partial<FormationLayer>) => {
+    onLayersChange(layers.map((l, i) => i === index ? { ...l, ...patch } : l));
+  };
+
+  // New layers go below the deepest one and copy its properties
+  const addLayer = () => {
+    const deepest = [...layers].sort((a, b) => b.top - a.top)[0];
+    const layer: FormationLayer = deepest
+      ? { ...deepest, name: `Layer ${layers.length + 1}`, top: deepest.top + inputs.H }
+      : { name: 'Layer 1', top: inputs.depth - inputs.H / 2, stress: inputs.sigma_min, E: inputs.E, K_IC: inputs.K_IC, CL: inputs.CL };
+    onLayersChange([...layers, layer]);
+  };
+
+  const removeLayer = (index: number) => {
+    onLayersChange(layers.filter((_, i) => i !== index));
+  };
+
   const getU = (field: keyof FracInputs) => getUnitLabel(field, unitSystem);
 
+  const updateThermal = (patch: Partial<ThermalOptions>) => {
+    if (thermal) onThermalChange({ ...thermal, ...patch });
+  };
+
+  // Catalog as stored (base SI); the built-in entries stand in until storage answers
+  const [fluids, setFluids] = useState<FluidCatalogEntry[]>(FLUID_CATALOG);
+  const [proppants, setProppants] = useState<ProppantCatalogEntry[]>(PROPPANT_CATALOG);
+  const refreshCatalog = () => {
+    listFluids().then(setFluids, () => {});
+    listProppants().then(setProppants, () => {});
+  };
+  useEffect(refreshCatalog, []);
+
+  // Only the curves go into the thermal options
+  const thermalFluid = ({ name, temperature, degradation }: FluidSystem): FluidSystem => ({ name, temperature, degradation });
+
+  const selectFluid = (fluid: FluidCatalogEntry | null) => {
+    onCatalogChange({ ...catalog, fluid });
+    if (!fluid) return;
+    onChange({ ...inputs, ...fluidInputs(fluid) });
+    onRheologyChange(fluid.rheology);
+    if (thermal) onThermalChange({ ...thermal, fluid: thermalFluid(fluid) });
+  };
+
+  const selectProppant = (proppant: ProppantCatalogEntry | null) => {
+    onCatalogChange({ ...catalog, proppant });
+    if (proppant) onChange({ ...inputs, ...proppantInputs(proppant, unitSystem) });
+  };
+
+  const enableThermal = () => {
+    const initial = convertThermal(INITIAL_THERMAL, MODEL_UNITS, unitSystem);
+    onThermalChange(catalog.fluid ? { ...initial, fluid: thermalFluid(catalog.fluid) } : initial);
+  };
+
+  const curveText = (curve: ViscosityCurvePoint[], unit: string) =>
+    curve.map(p => `${parseFloat(p.x.toPrecision(3))} ${unit}: ×${p.factor.toFixed(2)}`).join(', ');
+
   return (
     <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-700 h-full overflow-y-auto">
       <h2 className="text-xl font-bold text-white mb-4 border-b border-slate-700 pb-2">Model Inputs</h2>
@@ -93,17 +200,195 @@ export const InputsForm: React.FC<InputsFormProps> = ({
         <NumberInput label="Min Stress" value={inputs.sigma_min} unit={getU('sigma_min')} onChange={v => update('sigma_min', v)} />
         <NumberInput label="Toughness" value={inputs.K_IC} unit={getU('K_IC')} onChange={v => update('K_IC', v)} />
         <NumberInput label="Leakoff Coeff" value={inputs.CL} unit={getU('CL')} onChange={v => update('CL', v)} />
+        <NumberInput label="Spurt Loss" value={inputs.Sp} unit={getU('Sp')} onChange={v => update('Sp', v)} />
       </InputGroup>
 
+      {selectedModel === ModelType.P3D && (
+        <InputGroup label="Formation Layers">
+          {layers.length > 0 && (
+            <div className="bg-slate-800 rounded border border-slate-700 mb-2 text-xs">
+              <div className="grid grid-cols-12 gap-1 p-2 text-slate-500 border-b border-slate-700">
+                <span className="col-span-2">Layer</span>
+                <span className="col-span-2 text-right">Top ({getLabel('length', unitSystem)})</span>
+                <span className="col-span-2 text-right">σ ({getLabel('pressure', unitSystem)})</span>
+                <span className="col-span-2 text-right">E ({getLabel('pressure', unitSystem)})</span>
+                <span className="col-span-2 text-right">K_IC ({getLabel('toughness', unitSystem)})</span>
+                <span className="col-span-1 text-right">CL ({getLabel('leakoff', unitSystem)})</span>
+                <span className="col-span-1"></span>
+              </div>
+              {layers.map((layer, i) => (
+                <div key={i} className="grid grid-cols-12 gap-1 px-2 py-1 items-center border-b border-slate-700/50">
+                  <input
+                    className="col-span-2 bg-transparent text-slate-200 focus:outline-none"
+                    value={layer.name}
+                    onChange={(e) => updateLayer(i, { name: e.target.value })}
+                  />
+                  <div className="col-span-2"><StageInput value={layer.top} onChange={v => updateLayer(i, { top: v })} /></div>
+                  <div className="col-span-2"><StageInput value={layer.stress} onChange={v => updateLayer(i, { stress: v })} /></div>
+                  <div className="col-span-2"><StageInput value={layer.E} onChange={v => updateLayer(i, { E: v })} /></div>
+                  <div className="col-span-2"><StageInput value={layer.K_IC} onChange={v => updateLayer(i, { K_IC: v })} /></div>
+                  <div className="col-span-1"><StageInput value={layer.CL} onChange={v => updateLayer(i, { CL: v })} /></div>
+                  <button onClick={() => removeLayer(i)} className="col-span-1 text-slate-500 hover:text-red-400">✕</button>
+                </div>
+              ))}
+            </div>
+          )}
+          <button onClick={addLayer} className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+            Add Layer
+          </button>
+          <div className="text-xs text-amber-400 mt-2">
+            {layers.length > 0
+              ? 'Layer properties replace rock stress, E, toughness and leak-off above; H sets the start height only if the perforated layer is unbounded.'
+              : 'No layers: a single layer from the rock properties above (unconfined height growth).'}
+          </div>
+        </InputGroup>
+      )}
+
       <InputGroup label="Fluid & Pump">
-        <NumberInput label="Viscosity (μ)" value={inputs.mu} unit={getU('mu')} onChange={v => update('mu', v)} />
+        <FluidCatalogPicker
+          key={unitSystem}
+          unitSystem={unitSystem}
+          entries={fluids}
+          selected={catalog.fluid}
+          modified={catalog.fluid !== null && (differsFrom(inputs, fluidInputs(catalog.fluid)) || rheology !== catalog.fluid.rheology)}
+          onSelect={selectFluid}
+          onCatalogChange={refreshCatalog}
+        />
+        <div className="flex items-center justify-between bg-slate-800 p-2 rounded mb-2 border border-slate-700">
+          <span className="text-sm text-slate-200">Rheology</span>
+          <select
+            value={rheology}
+            onChange={(e) => onRheologyChange(e.target.value as RheologyType)}
+            className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm"
+          >
+            {Object.values(RheologyType).map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </div>
+        {rheology === RheologyType.NEWTONIAN ? (
+          <NumberInput label="Viscosity (μ)" value={inputs.mu} unit={getU('mu')} onChange={v => update('mu', v)} />
+        ) : (
+          <>
+            <NumberInput label="Flow Index (n')" value={inputs.n_prime} unit={getU('n_prime')} onChange={v => update('n_prime', v)} />
+            <NumberInput label="Consistency (K')" value={inputs.K_prime} unit={getU('K_prime')} onChange={v => update('K_prime', v)} />
+            {rheology === RheologyType.HERSCHEL_BULKLEY && (
+              <NumberInput label="Yield Stress (τy)" value={inputs.tau_y} unit={getU('tau_y')} onChange={v => update('tau_y', v)} />
+            )}
+          </>
+        )}
+        <NumberInput label="Fluid Density" value={inputs.rho_f} unit={getU('rho_f')} onChange={v => update('rho_f', v)} />
         <NumberInput label="Rate (q)" value={inputs.q} unit={getU('q')} onChange={v => update('q', v)} />
         <NumberInput label="Total Time" value={inputs.time} unit={getU('time')} onChange={v => update('time', v)} />
+        <NumberInput label="Shut-in Time" value={inputs.t_shutin} unit={getU('t_shutin')} onChange={v => update('t_shutin', v)} />
+        {schedule.length > 0 && (
+          <div className="text-xs text-amber-400">Pump schedule active: rate, viscosity and time above are ignored.</div>
+        )}
+        {schedule.length > 0 && rheology !== RheologyType.NEWTONIAN && (
+          <div className="text-xs text-amber-400">{rheology} rheology applies to every stage; stage viscosities are ignored.</div>
+        )}
+      </InputGroup>
+
+      <InputGroup label="Fluid Temperature">
+        <label className="flex items-center justify-between bg-slate-800 p-2 rounded mb-2 border border-slate-700 text-sm text-slate-200">
+          Heating & breakdown in the fracture
+          <input
+            type="checkbox"
+            checked={thermal !== null}
+            onChange={(e) => (e.target.checked ? enableThermal() : onThermalChange(null))}
+          />
+        </label>
+        {thermal && (
+          <>
+            <div className="flex items-center justify-between bg-slate-800 p-2 rounded mb-2 border border-slate-700">
+              <span className="text-sm text-slate-200">Fluid</span>
+              <select
+                value={thermal.fluid.name}
+                onChange={(e) => {
+                  const fluid = fluids.find(f => f.name === e.target.value);
+                  if (fluid) updateThermal({ fluid: thermalFluid(convertFluid(fluid, MODEL_UNITS, unitSystem)) });
+                }}
+                className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm"
+              >
+                {!fluids.some(f => f.name === thermal.fluid.name) && <option value={thermal.fluid.name}>{thermal.fluid.name}</option>}
+                {fluids.map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+              </select>
+            </div>
+            <NumberInput label="Injection Temp" value={thermal.T_inj} unit={getLabel('temperature', unitSystem)} onChange={v => updateThermal({ T_inj: v })} />
+            <NumberInput label="Bottomhole Temp" value={thermal.T_bh} unit={getLabel('temperature', unitSystem)} onChange={v => updateThermal({ T_bh: v })} />
+            <NumberInput label="Heat-up Time" value={thermal.heatup} unit={getLabel('time', unitSystem)} onChange={v => updateThermal({ heatup: v })} />
+            <div className="text-xs text-slate-500 mb-1">Viscosity vs temperature: {curveText(thermal.fluid.temperature, getLabel('temperature', unitSystem))}</div>
+            <div className="text-xs text-slate-500">Viscosity vs time: {curveText(thermal.fluid.degradation, getLabel('time', unitSystem))}</div>
+          </>
+        )}
+      </InputGroup>
+
+      <InputGroup label="Pump Schedule">
+        {schedule.length > 0 && (
+          <div className="bg-slate-800 rounded border border-slate-700 mb-2 text-xs">
+            <div className="grid grid-cols-12 gap-1 p-2 text-slate-500 border-b border-slate-700">
+              <span className="col-span-3">Stage</span>
+              <span className="col-span-2 text-right">q ({getLabel('rate', unitSystem)})</span>
+              <span className="col-span-2 text-right">μ ({getLabel('viscosity', unitSystem)})</span>
+              <span className="col-span-2 text-right">t ({getLabel('time', unitSystem)})</span>
+              <span className="col-span-2 text-right">Prop ({getLabel('concentration', unitSystem)})</span>
+              <span className="col-span-1"></span>
+            </div>
+            {schedule.map((stage, i) => (
+              <div key={i} className="grid grid-cols-12 gap-1 px-2 py-1 items-center">
+                <input
+                  className="col-span-3 bg-transparent text-slate-200 focus:outline-none"
+                  value={stage.name}
+                  onChange={(e) => updateStage(i, { name: e.target.value })}
+                />
+                <div className="col-span-2"><StageInput value={stage.q} onChange={v => updateStage(i, { q: v })} /></div>
+                <div className="col-span-2"><StageInput value={stage.mu} onChange={v => updateStage(i, { mu: v })} /></div>
+                <div className="col-span-2"><StageInput value={stage.duration} onChange={v => updateStage(i, { duration: v })} /></div>
+                <div className="col-span-2"><StageInput value={stage.proppant} onChange={v => updateStage(i, { proppant: v })} /></div>
+                <button onClick={() => removeStage(i)} className="col-span-1 text-slate-500 hover:text-red-400">✕</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button onClick={addStage} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+            Add Stage
+          </button>
+          {schedule.length > 0 && (
+            <button onClick={() => onScheduleChange([])} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Clear
+            </button>
+          )}
+        </div>
+      </InputGroup>
+
+      <InputGroup label="Proppant">
+        <ProppantCatalogPicker
+          key={unitSystem}
+          unitSystem={unitSystem}
+          entries={proppants}
+          selected={catalog.proppant}
+          modified={catalog.proppant !== null && differsFrom(inputs, proppantInputs(catalog.proppant, unitSystem))}
+          closureStress={inputs.sigma_min}
+          onSelect={selectProppant}
+          onCatalogChange={refreshCatalog}
+        />
+        <NumberInput label="Proppant Density" value={inputs.rho_p} unit={getU('rho_p')} onChange={v => update('rho_p', v)} />
+        <NumberInput label="Grain Diameter" value={inputs.d_p} unit={getU('d_p')} onChange={v => update('d_p', v)} />
+        <NumberInput label="Pack Porosity" value={inputs.phi_pack} unit={getU('phi_pack')} onChange={v => update('phi_pack', v)} />
+      </InputGroup>
+
+      <InputGroup label="Wellbore & Perforations">
+        <NumberInput label="Depth (TVD)" value={inputs.depth} unit={getU('depth')} onChange={v => update('depth', v)} />
+        <NumberInput label="Pipe ID" value={inputs.pipe_id} unit={getU('pipe_id')} onChange={v => update('pipe_id', v)} />
+        <NumberInput label="Pipe Length (MD)" value={inputs.pipe_length} unit={getU('pipe_length')} onChange={v => update('pipe_length', v)} />
+        <NumberInput label="Friction Reduction" value={inputs.friction_reduction} unit={getU('friction_reduction')} onChange={v => update('friction_reduction', v)} />
+        <NumberInput label="Perforations" value={inputs.n_perfs} unit={getU('n_perfs')} onChange={v => update('n_perfs', v)} />
+        <NumberInput label="Perf Diameter" value={inputs.perf_diameter} unit={getU('perf_diameter')} onChange={v => update('perf_diameter', v)} />
+        <NumberInput label="Discharge Coeff" value={inputs.perf_cd} unit={getU('perf_cd')} onChange={v => update('perf_cd', v)} />
       </InputGroup>
 
       <InputGroup label="Geometry & Constraints">
         <NumberInput label="Frac Height (H)" value={inputs.H} unit={getU('H')} onChange={v => update('H', v)} />
-        <NumberInput label="Pressure Limit" value={inputs.p_limit} unit={getU('p_limit')} onChange={v => update('p_limit', v)} />
+        <NumberInput label="Surface Pressure Limit" value={inputs.p_limit} unit={getU('p_limit')} onChange={v => update('p_limit', v)} />
       </InputGroup>
     </div>
   );
@@ -0,0 +1,145 @@
+import React from 'react';
+import { ModelResult, ModelType, UnitSystem } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { getLabel, unitConverters } from '../utils/unitConversion';
+
+interface Props {
+  results: ModelResult[]; // SI, one per model, same inputs
+  reference: ModelType; // Percentage differences are relative to this model
+  unitSystem: UnitSystem;
+}
+
+const MODEL_COLORS: Record<ModelType, string> = {
+  [ModelType.PKN]: '#3b82f6',
+  [ModelType.KGD]: '#10b981',
+  [ModelType.RADIAL]: '#f59e0b',
+  [ModelType.P3D]: '#06b6d4'
+};
+
+type Category = 'length' | 'width' | 'pressure' | 'time' | 'dimensionless';
+
+export const ModelComparison: React.FC<Props> = ({ results, reference, unitSystem }) => {
+  const { toDisplay } = unitConverters(unitSystem);
+
+  // Merge the histories on a shared time axis; lines bridge times a model was not sampled at
+  const historyFor = (field: 'length' | 'width' | 'pressure', cat: Category, digits: number) => {
+    const rows = new Map<number, Record<string, number>>();
+    results.forEach(r => r.timeSeries.forEach(ts => {
+      const time = parseFloat(toDisplay(ts.time, 'time').toFixed(1));
+      const row = rows.get(time) ?? { time };
+      row[r.type] = parseFloat(toDisplay(ts[field], cat).toFixed(digits));
+      rows.set(time, row);
+    }));
+    return Array.from(rows.values()).sort((a, b) => a.time - b.time);
+  };
+
+  const uLen = getLabel('length', unitSystem);
+  const uWidth = getLabel('width', unitSystem);
+  const uPress = getLabel('pressure', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+
+  const charts = [
+    { title: `Length (${uLen})`, data: historyFor('length', 'length', 1) },
+    { title: `Width at Wellbore (${uWidth})`, data: historyFor('width', 'width', 3) },
+    { title: `Net Pressure (${uPress})`, data: historyFor('pressure', 'pressure', 1) }
+  ];
+
+  const metrics: { label: string, unit: string, cat: Category, digits: number, get: (r: ModelResult) => number | null }[] = [
+    { label: 'Length (or Radius)', unit: uLen, cat: 'length', digits: 1, get: r => r.length },
+    { label: 'Height', unit: uLen, cat: 'length', digits: 1, get: r => r.height },
+    { label: 'Max Width', unit: uWidth, cat: 'width', digits: 3, get: r => r.width_max },
+    { label: 'Avg Width', unit: uWidth, cat: 'width', digits: 3, get: r => r.width_avg },
+    { label: 'Net Pressure', unit: uPress, cat: 'pressure', digits: 0, get: r => r.p_net },
+    { label: 'Max Surface Pressure', unit: uPress, cat: 'pressure', digits: 0, get: r => r.p_surface_max },
+    { label: 'Efficiency', unit: '%', cat: 'dimensionless', digits: 1, get: r => r.efficiency * 100 },
+    { label: 'Closure Time', unit: uTime, cat: 'time', digits: 1, get: r => r.closure.time },
+    { label: 'Propped Length', unit: uLen, cat: 'length', digits: 1, get: r => r.proppant ? r.proppant.propped_length : null }
+  ];
+
+  const base = results.find(r => r.type === reference) ?? results[0];
+  const diff = (value: number | null, baseValue: number | null) =>
+    value !== null && baseValue !== null && baseValue !== 0 ? ((value - baseValue) / Math.abs(baseValue)) * 100 : null;
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Model Comparison</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          All geometries run on the same inputs and schedule. Differences are relative to the selected model ({base?.type}).
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-300">
+            <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+              <tr>
+                <th className="px-4 py-2">Metric</th>
+                {results.map(r => (
+                  <th key={r.type} className="px-4 py-2 text-right" style={{ color: MODEL_COLORS[r.type] }}>{r.type}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(m => (
+                <tr key={m.label} className="border-b border-slate-700">
+                  <td className="px-4 py-2">{m.label} <span className="text-slate-500">({m.unit})</span></td>
+                  {results.map(r => {
+                    const value = m.get(r);
+                    const d = r === base ? null : diff(value, base ? m.get(base) : null);
+                    return (
+                      <td key={r.type} className="px-4 py-2 text-right font-mono">
+                        {value !== null ? (m.cat === 'dimensionless' ? value : toDisplay(value, m.cat)).toFixed(m.digits) : '—'}
+                        {d !== null && (
+                          <span className="ml-2 text-xs text-slate-400">{d > 0 ? '+' : ''}{d.toFixed(0)}%</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="border-b border-slate-700">
+                <td className="px-4 py-2">Regime</td>
+                {results.map(r => (
+                  <td key={r.type} className="px-4 py-2 text-right">{r.regime} ({r.regime_vertex})</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {charts.map(chart => (
+          <div key={chart.title} className="bg-slate-800 p-4 rounded border border-slate-700 h-72">
+            <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">{chart.title}</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={chart.data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+                <YAxis stroke="#94a3b8" fontSize={12} width={50}/>
+                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                <Legend />
+                {results.map(r => (
+                  <Line key={r.type} type="monotone" dataKey={r.type} stroke={MODEL_COLORS[r.type]} dot={false} connectNulls />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {results.map(r => (
+          <div key={r.type} className="bg-slate-800 p-4 rounded border border-slate-700">
+            <h4 className="font-bold mb-2" style={{ color: MODEL_COLORS[r.type] }}>{r.type} Assumptions</h4>
+            {r.warnings.length > 0 ? (
+              <div className="text-sm text-orange-200 flex flex-col gap-1">
+                {r.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+              </div>
+            ) : (
+              <div className="text-sm text-emerald-300">No assumption warnings.</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DistributionType, FormationLayer, FracInputs, InputCorrelation, InputDistribution, ModelType, MonteCarloResult,
+  OutputStats, PermeabilityPoint, PumpSchedule, RheologyType, ThermalOptions, UnitSystem
+} from '../types';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { MODEL_UNITS, UnitCategory, convertInputs, convertLayers, convertParam, convertPermeabilityCurve, convertSchedule, convertThermal, getLabel, getUnitLabel, unitConverters } from '../utils/unitConversion';
+import { validateDistributions } from '../services/monteCarloService';
+import type { MonteCarloMessage, MonteCarloRequest } from '../services/monteCarlo.worker';
+
+interface Props {
+  model: ModelType;
+  inputs: FracInputs; // Display units
+  unitSystem: UnitSystem;
+  schedule: PumpSchedule; // Display units
+  rheology: RheologyType;
+  layers: FormationLayer[]; // Display units
+  thermal: ThermalOptions | null; // Display units
+  packPermeability: PermeabilityPoint[] | null; // Display units
+}
+
+const HISTOGRAM_BINS = 20;
+
+// Starting distribution for a newly added input: +/-20% around its current value
+const defaultDistribution = (field: keyof FracInputs, value: number): InputDistribution =>
+  ({ field, type: DistributionType.UNIFORM, a: value * 0.8, b: value * 1.2, c: value * 1.2 });
+
+const PARAM_NAMES: Record<DistributionType, [string, string, string | null]> = {
+  [DistributionType.UNIFORM]: ['Min', 'Max', null],
+  [DistributionType.NORMAL]: ['Mean', 'Std Dev', null],
+  [DistributionType.LOGNORMAL]: ['Mean', 'Std Dev', null],
+  [DistributionType.TRIANGULAR]: ['Min', 'Mode', 'Max']
+};
+
+export const MonteCarloPanel: React.FC<Props> = ({ model, inputs, unitSystem, schedule, rheology, layers, thermal, packPermeability }) => {
+  const [dists, setDists] = useState<InputDistribution[]>([
+    defaultDistribution('CL', inputs.CL),
+    defaultDistribution('sigma_min', inputs.sigma_min)
+  ]);
+  const [correlations, setCorrelations] = useState<InputCorrelation[]>([]);
+  const [realizations, setRealizations] = useState(1000);
+  const [seed, setSeed] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const fields = Object.keys(inputs) as (keyof FracInputs)[];
+  const unused = fields.filter(f => !dists.some(d => d.field === f));
+
+  const updateDist = (i: number, patch: Partial<InputDistribution>) =>
+    setDists(dists.map((d, j) => (j === i ? { ...d, ...patch } : d)));
+  const changeField = (i: number, field: keyof FracInputs) =>
+    updateDist(i, { ...defaultDistribution(field, inputs[field]), type: dists[i].type });
+  const removeDist = (i: number) => {
+    const field = dists[i].field;
+    setDists(dists.filter((_, j) => j !== i));
+    setCorrelations(correlations.filter(c => c.a !== field && c.b !== field));
+  };
+  const updateCorr = (i: number, patch: Partial<InputCorrelation>) =>
+    setCorrelations(correlations.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  const problems = validateDistributions(dists, correlations);
+
+  const run = () => {
+    stop();
+    setError(null);
+    setResult(null);
+    // Distribution parameters scale with the input's units
+    const toSI = (d: InputDistribution): InputDistribution => ({
+      ...d,
+      a: convertParam(d.field, d.a, unitSystem, MODEL_UNITS),
+      b: convertParam(d.field, d.b, unitSystem, MODEL_UNITS),
+      c: convertParam(d.field, d.c, unitSystem, MODEL_UNITS)
+    });
+    const request: MonteCarloRequest = {
+      type: model,
+      inputs: convertInputs(inputs, unitSystem, MODEL_UNITS),
+      options: {
+        schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+        rheology,
+        layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+        thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+        packPermeability: packPermeability ? convertPermeabilityCurve(packPermeability, unitSystem, MODEL_UNITS) : undefined
+      },
+      distributions: dists.map(toSI),
+      correlations,
+      realizations,
+      seed
+    };
+    const worker = new Worker(new URL('../services/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<MonteCarloMessage>) => {
+      const msg = e.data;
+      if (msg.kind === 'progress') {
+        setProgress(msg.done);
+        return;
+      }
+      if (msg.kind === 'done') setResult(msg.result);
+      else setError(msg.message);
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || 'Monte Carlo worker failed.');
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress(0);
+    worker.postMessage(request);
+  };
+
+  const { toDisplay } = unitConverters(unitSystem);
+
+  const outputs: { label: string, cat: 'length' | 'width' | 'pressure', digits: number, stats: (r: MonteCarloResult) => OutputStats }[] = [
+    { label: 'Length (or Radius)', cat: 'length', digits: 1, stats: r => r.length },
+    { label: 'Max Width', cat: 'width', digits: 3, stats: r => r.width },
+    { label: 'Net Pressure', cat: 'pressure', digits: 0, stats: r => r.p_net },
+    { label: 'Max Surface Pressure', cat: 'pressure', digits: 0, stats: r => r.p_surface }
+  ];
+
+  // Histogram counts with the empirical CDF at each bin's upper edge
+  const histogram = (stats: OutputStats, cat: UnitCategory, digits: number) => {
+    const values = stats.samples.map(v => toDisplay(v, cat));
+    const lo = values[0];
+    const hi = values[values.length - 1];
+    const width = (hi - lo) / HISTOGRAM_BINS || 1;
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    values.forEach(v => counts[Math.min(Math.floor((v - lo) / width), HISTOGRAM_BINS - 1)]++);
+    let cumulative = 0;
+    return counts.map((count, i) => {
+      cumulative += count;
+      return {
+        x: parseFloat((lo + (i + 0.5) * width).toFixed(digits)),
+        count,
+        cdf: parseFloat(((cumulative / values.length) * 100).toFixed(1))
+      };
+    });
+  };
+
+  const inputClass = 'bg-slate-900 text-white p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm';
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Uncertainty Analysis ({model})</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Uncertain inputs are drawn from their distributions (in {unitSystem} units); all other inputs, the schedule and
+          layers are taken from the Engineering Model. Draws with negative inputs or a failed solution are rejected.
+        </p>
+
+        <table className="w-full text-sm text-left text-slate-300 mb-2">
+          <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+            <tr>
+              <th className="px-2 py-2">Input</th>
+              <th className="px-2 py-2">Distribution</th>
+              <th className="px-2 py-2">Parameters</th>
+              <th className="px-2 py-2 text-right">Current</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {dists.map((d, i) => (
+              <tr key={d.field} className="border-b border-slate-700">
+                <td className="px-2 py-2">
+                  <select value={d.field} onChange={(e) => changeField(i, e.target.value as keyof FracInputs)} className={inputClass}>
+                    {[d.field, ...unused].map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <select value={d.type} onChange={(e) => updateDist(i, { type: e.target.value as DistributionType })} className={inputClass}>
+                    {Object.values(DistributionType).map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <div className="flex gap-2 items-center">
+                    {(['a', 'b', 'c'] as const).map((key, k) => {
+                      const name = PARAM_NAMES[d.type][k];
+                      return name && (
+                        <label key={key} className="flex items-center gap-1 text-xs text-slate-400">
+                          {name}
+                          <input type="number" step="any" value={d[key]} className={`${inputClass} w-24 font-mono`}
+                            onChange={(e) => updateDist(i, { [key]: parseFloat(e.target.value) })} />
+                        </label>
+                      );
+                    })}
+                    <span className="text-xs text-slate-500">{getUnitLabel(d.field, unitSystem)}</span>
+                  </div>
+                </td>
+                <td className="px-2 py-2 text-right font-mono text-slate-400">{inputs[d.field]}</td>
+                <td className="px-2 py-2 text-right">
+                  <button onClick={() => removeDist(i)} className="text-slate-500 hover:text-red-400">✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => unused.length > 0 && setDists([...dists, defaultDistribution(unused[0], inputs[unused[0]])])}
+          className="text-xs text-emerald-400 hover:text-emerald-300 mb-4"
+        >
+          + Add uncertain input
+        </button>
+
+        <h4 className="text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">Correlations</h4>
+        {correlations.map((c, i) => (
+          <div key={i} className="flex gap-2 items-center mb-2">
+            {(['a', 'b'] as const).map(key => (
+              <select key={key} value={c[key]} onChange={(e) => updateCorr(i, { [key]: e.target.value as keyof FracInputs })} className={inputClass}>
+                {dists.map(d => <option key={d.field} value={d.field}>{d.field}</option>)}
+              </select>
+            ))}
+            <label className="flex items-center gap-1 text-xs text-slate-400">
+              ρ
+              <input type="number" step="0.1" min={-0.99} max={0.99} value={c.rho} className={`${inputClass} w-20 font-mono`}
+                onChange={(e) => updateCorr(i, { rho: parseFloat(e.target.value) })} />
+            </label>
+            <button onClick={() => setCorrelations(correlations.filter((_, j) => j !== i))} className="text-slate-500 hover:text-red-400">✕</button>
+          </div>
+        ))}
+        <button
+          onClick={() => dists.length >= 2 && setCorrelations([...correlations, { a: dists[0].field, b: dists[1].field, rho: 0.5 }])}
+          className="text-xs text-emerald-400 hover:text-emerald-300 mb-4"
+        >
+          + Add correlation
+        </button>
+
+        <div className="flex gap-4 items-center">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Realizations
+            <input type="number" min={10} step={100} value={realizations} className={`${inputClass} w-24 font-mono`}
+              onChange={(e) => setRealizations(Math.max(10, Math.round(parseFloat(e.target.value) || 0)))} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Seed
+            <input type="number" step={1} value={seed} className={`${inputClass} w-20 font-mono`}
+              onChange={(e) => setSeed(Math.round(parseFloat(e.target.value) || 0))} />
+          </label>
+          {progress === null ? (
+            <button onClick={run} disabled={problems.length > 0 || dists.length === 0}
+              className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 py-1 rounded text-sm transition">
+              Run
+            </button>
+          ) : (
+            <>
+              <button onClick={stop} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-4 py-1 rounded text-sm transition">Cancel</button>
+              <div className="flex-1 bg-slate-900 rounded h-2 overflow-hidden">
+                <div className="bg-blue-500 h-2" style={{ width: `${(progress / realizations) * 100}%` }} />
+              </div>
+              <span className="text-xs text-slate-400 font-mono">{progress} / {realizations}</span>
+            </>
+          )}
+        </div>
+        {(problems.length > 0 || error) && (
+          <div className="mt-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200 flex flex-col gap-1">
+            {problems.map((p, i) => <div key={i}>{p}</div>)}
+            {error && <div>{error}</div>}
+          </div>
+        )}
+      </div>
+
+      {result && result.realizations > 0 && (
+        <>
+          <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h3 className="text-lg font-bold text-white">Outcome Distribution</h3>
+                <p className="text-xs text-slate-400">
+                  {result.realizations} valid realizations{result.rejected > 0 && `, ${result.rejected} rejected`}.
+                  P90 is the value exceeded by 90% of realizations.
+                </p>
+              </div>
+              <div className={`px-3 py-2 rounded border text-sm ${result.p_exceed > 0.1 ? 'bg-red-900/30 border-red-700 text-red-200' : 'bg-emerald-900/30 border-emerald-700 text-emerald-200'}`}>
+                P(surface pressure &gt; limit): <span className="font-mono font-bold">{(result.p_exceed * 100).toFixed(1)}%</span>
+              </div>
+            </div>
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                <tr>
+                  <th className="px-4 py-2">Output</th>
+                  <th className="px-4 py-2 text-right">P90</th>
+                  <th className="px-4 py-2 text-right">P50</th>
+                  <th className="px-4 py-2 text-right">P10</th>
+                  <th className="px-4 py-2 text-right">Mean</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outputs.map(o => {
+                  const s = o.stats(result);
+                  return (
+                    <tr key={o.label} className="border-b border-slate-700">
+                      <td className="px-4 py-2">{o.label} <span className="text-slate-500">({getLabel(o.cat, unitSystem)})</span></td>
+                      {[s.p90, s.p50, s.p10, s.mean].map((v, i) => (
+                        <td key={i} className="px-4 py-2 text-right font-mono">{toDisplay(v, o.cat).toFixed(o.digits)}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {outputs.map(o => (
+              <div key={o.label} className="bg-slate-800 p-4 rounded border border-slate-700 h-72">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">{o.label} ({getLabel(o.cat, unitSystem)}): Histogram &amp; CDF</h4>
+                <ResponsiveContainer width="100%" height="90%">
+                  <ComposedChart data={histogram(o.stats(result), o.cat, o.digits + 1)}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis dataKey="x" stroke="#94a3b8" fontSize={12} />
+                    <YAxis yAxisId="count" stroke="#94a3b8" fontSize={12} width={40} />
+                    <YAxis yAxisId="cdf" orientation="right" domain={[0, 100]} stroke="#f59e0b" fontSize={12} width={40} unit="%" />
+                    <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                    <Bar yAxisId="count" dataKey="count" name="Realizations" fill="#3b82f6" />
+                    <Line yAxisId="cdf" type="monotone" dataKey="cdf" name="CDF (%)" stroke="#f59e0b" dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { ModelResult, NolteSmithSegment, PressureKind, UnitSystem } from '../types';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { getLabel, unitConverters } from '../utils/unitConversion';
+import { parseDfitCsv } from '../services/dfitService';
+import { modelPressureAt } from '../services/historyMatchService';
+import { modelNolteSmith, nolteSmithSegments } from '../services/nolteSmithService';
+
+interface Props {
+  result: ModelResult;
+  unitSystem: UnitSystem;
+}
+
+const MODE_COLORS: Record<NolteSmithSegment['mode'], string> = {
+  I: '#10b981',
+  II: '#f59e0b',
+  III: '#ef4444',
+  IV: '#a855f7'
+};
+
+export const NolteSmithPlot: React.FC<Props> = ({ result, unitSystem }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+  const [csv, setCsv] = useState('');
+  const [kind, setKind] = useState<PressureKind>('bottomhole');
+
+  const uPress = getLabel('pressure', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+  const pumpEnd = result.stages[result.stages.length - 1]?.endTime ?? 0;
+
+  // Measured record reduced to net pressure over the pumping period. Surface
+  // readings are corrected with the model's friction and hydrostatic terms.
+  const measured = useMemo(() => {
+    const raw = parseDfitCsv(csv)
+      .map(d => ({ time: toSI(d.dt, 'time'), pressure: toSI(d.pressure, 'pressure') }))
+      .filter(d => d.time > 0 && d.time <= pumpEnd);
+    const times = raw.map(d => d.time);
+    const offset = kind === 'surface'
+      ? modelPressureAt(result, 'surface', times).map((s, i) => s - modelPressureAt(result, 'net', times)[i])
+      : times.map(() => (kind === 'bottomhole' ? result.closure.pressure : 0));
+    return raw.map((d, i) => ({ time: d.time, pressure: d.pressure - offset[i] })).filter(d => d.pressure > 0);
+  }, [csv, kind, result, unitSystem]);
+
+  const modelSegments = useMemo(() => modelNolteSmith(result), [result]);
+  const measuredSegments = useMemo(() => nolteSmithSegments(result.type, measured), [measured, result.type]);
+
+  const chartData = [
+    ...result.timeSeries.filter(ts => ts.phase === 'pumping' && ts.pressure > 0).map(ts => ({
+      time: toDisplay(ts.time, 'time'),
+      Model: toDisplay(ts.pressure, 'pressure')
+    })),
+    ...measured.map(d => ({ time: toDisplay(d.time, 'time'), Measured: toDisplay(d.pressure, 'pressure') }))
+  ].sort((a, b) => a.time - b.time);
+
+  // Segment starts on the chart: measured data when there is some, else the model
+  const markers = (measuredSegments.length > 0 ? measuredSegments : modelSegments).map(s => (
+    <ReferenceLine key={`${s.mode}-${s.start}`} x={toDisplay(s.start, 'time')} stroke={MODE_COLORS[s.mode]} strokeDasharray="4 4" label={{ value: s.mode, fill: MODE_COLORS[s.mode], fontSize: 10, position: 'insideTopLeft' }} />
+  ));
+
+  const segmentTable = (title: string, segments: NolteSmithSegment[]) => (
+    <div>
+      <h5 className="text-xs text-slate-400 uppercase mb-1">{title}</h5>
+      <table className="w-full text-xs text-left text-slate-300">
+        <thead className="text-slate-500 uppercase bg-slate-900">
+          <tr>
+            <th className="px-2 py-1">Mode</th>
+            <th className="px-2 py-1 text-right">From ({uTime})</th>
+            <th className="px-2 py-1 text-right">To ({uTime})</th>
+            <th className="px-2 py-1 text-right">Slope</th>
+            <th className="px-2 py-1">Interpretation</th>
+          </tr>
+        </thead>
+        <tbody>
+          {segments.map(s => (
+            <tr key={s.start} className="border-b border-slate-700">
+              <td className="px-2 py-1 font-mono font-bold" style={{ color: MODE_COLORS[s.mode] }}>{s.mode}</td>
+              <td className="px-2 py-1 text-right font-mono">{toDisplay(s.start, 'time').toFixed(1)}</td>
+              <td className="px-2 py-1 text-right font-mono">{toDisplay(s.end, 'time').toFixed(1)}</td>
+              <td className="px-2 py-1 text-right font-mono">{s.slope.toFixed(2)}</td>
+              <td className={`px-2 py-1 ${s.problem ? 'text-orange-300' : ''}`}>{s.problem && '⚠ '}{s.interpretation}</td>
+            </tr>
+          ))}
+          {segments.length === 0 && (
+            <tr><td colSpan={5} className="px-2 py-1 text-slate-500">Too few points to identify a slope.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 p-4 rounded border border-slate-700 lg:col-span-2">
+      <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Nolte-Smith Log-Log Net Pressure ({uPress})</h4>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="time" type="number" scale="log" domain={['dataMin', 'dataMax']} allowDataOverflow stroke="#94a3b8" fontSize={12} tickFormatter={(v: number) => v.toPrecision(2)} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }} />
+              <YAxis type="number" scale="log" domain={['auto', 'auto']} allowDataOverflow stroke="#94a3b8" fontSize={12} width={60} tickFormatter={(v: number) => v.toPrecision(3)} />
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} formatter={(v: number) => v.toFixed(1)} />
+              <Legend />
+              {markers}
+              <Line type="monotone" dataKey="Model" stroke="#f59e0b" dot={false} connectNulls isAnimationActive={false} />
+              {measured.length > 0 && <Scatter dataKey="Measured" fill="#94a3b8" isAnimationActive={false} />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex flex-col gap-2">
+          <textarea
+            className="bg-slate-900 text-emerald-400 font-mono text-xs p-2 rounded border border-slate-700 h-32 focus:outline-none focus:border-emerald-500"
+            placeholder={`Overlay field pressure\ntime (${uTime}), pressure (${uPress})`}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+          />
+          <select value={kind} onChange={(e) => setKind(e.target.value as PressureKind)}
+            className="bg-slate-900 text-white p-1 rounded border border-slate-700 text-xs">
+            <option value="bottomhole">Bottomhole (net = BHP − closure)</option>
+            <option value="surface">Surface (model friction and head removed)</option>
+            <option value="net">Net pressure</option>
+          </select>
+          <p className="text-xs text-slate-500">
+            Slopes: I ≈ 1/8–1/4 confined extension, II ≈ 0 height growth or fissure opening,
+            III ≈ 1 tip screenout, IV &lt; 0 unstable height growth. Only the pumping period is used.
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+        {segmentTable('Model', modelSegments)}
+        {measured.length > 0 && segmentTable(`Measured (${measured.length} points)`, measuredSegments)}
+      </div>
+    </div>
+  );
+};
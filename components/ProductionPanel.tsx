@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import { FracInputs, ModelResult, PermeabilityPoint, ProductionResult, ReservoirFluid, ReservoirInputs, UfdResult, UnitSystem } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { MODEL_UNITS, convertInputs, convertPermeabilityCurve, convertReservoir, getLabel, getReservoirLabel, unitConverters } from '../utils/unitConversion';
+import { forecastProduction, proppedFracture, unifiedFractureDesign } from '../services/productionService';
+import { packPermeability, permeabilityAtStress } from '../services/proppantService';
+
+interface Props {
+  result: ModelResult | null;
+  inputs: FracInputs; // Display units, proppant properties for the UFD optimum
+  packPermeability: PermeabilityPoint[] | null; // Display units, catalog proppant curve
+  reservoir: ReservoirInputs; // Display units
+  unitSystem: UnitSystem;
+  onReservoirChange: (reservoir: ReservoirInputs) => void;
+}
+
+const YEAR = 365.25 * 86400;
+
+const FIELDS: { key: Exclude<keyof ReservoirInputs, 'fluid'>, label: string, fluid?: ReservoirFluid }[] = [
+  { key: 'k', label: 'Permeability' },
+  { key: 'h', label: 'Net Pay' },
+  { key: 'phi', label: 'Porosity' },
+  { key: 'area', label: 'Drainage Area' },
+  { key: 'p_res', label: 'Reservoir Pressure' },
+  { key: 'p_wf', label: 'Flowing BHP' },
+  { key: 'rw', label: 'Wellbore Radius' },
+  { key: 'mu', label: 'Fluid Viscosity' },
+  { key: 'ct', label: 'Total Compressibility' },
+  { key: 'B', label: 'Oil FVF', fluid: 'oil' },
+  { key: 'z', label: 'Gas Z-Factor', fluid: 'gas' },
+  { key: 'T', label: 'Temperature', fluid: 'gas' }
+];
+
+export const ProductionPanel: React.FC<Props> = ({ result, inputs, packPermeability: packCurve, reservoir, unitSystem, onReservoirChange }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+  const [years, setYears] = useState(10);
+  // Used only when the design pumps no proppant
+  const [conductivity, setConductivity] = useState(() => parseFloat(toDisplay(1e-13, 'conductivity').toPrecision(3)));
+
+  // Proppant mass for the UFD optimum; null follows the simulated design
+  const [mass, setMass] = useState<number | null>(null);
+
+  const propped = result ? proppedFracture(result) : null;
+  const { forecast, error } = useMemo((): { forecast: ProductionResult | null, error: string | null } => {
+    if (!result) return { forecast: null, error: null };
+    try {
+      const fracture = propped ?? { xf: result.length, conductivity: toSI(conductivity, 'conductivity') };
+      return { forecast: forecastProduction(convertReservoir(reservoir, unitSystem, MODEL_UNITS), fracture.xf, fracture.conductivity, years), error: null };
+    } catch (err) {
+      return { forecast: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [result, reservoir, unitSystem, years, conductivity]);
+
+  const designMass = result?.proppant ? Math.round(toDisplay(result.proppant.mass_total, 'mass')) : null;
+  const ufdMass = mass ?? designMass;
+  const { ufd, ufdError } = useMemo((): { ufd: UfdResult | null, ufdError: string | null } => {
+    if (!result || ufdMass === null) return { ufd: null, ufdError: null };
+    try {
+      const si = convertInputs(inputs, unitSystem, MODEL_UNITS);
+      const kf = result.proppant?.permeability ?? (packCurve
+        ? permeabilityAtStress(convertPermeabilityCurve(packCurve, unitSystem, MODEL_UNITS), si.sigma_min)
+        : packPermeability(si.d_p, si.phi_pack));
+      const reservoirSI = convertReservoir(reservoir, unitSystem, MODEL_UNITS);
+      return { ufd: unifiedFractureDesign(reservoirSI, result, toSI(ufdMass, 'mass'), kf, si.rho_p, si.phi_pack), ufdError: null };
+    } catch (err) {
+      return { ufd: null, ufdError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [result, inputs, packCurve, reservoir, unitSystem, ufdMass]);
+
+  const gas = reservoir.fluid === 'gas';
+  const rateCat = gas ? 'gas_rate' : 'production';
+  const volumeCat = gas ? 'gas_volume' : 'volume';
+  const uRate = getLabel(rateCat, unitSystem);
+  const uVolume = getLabel(volumeCat, unitSystem);
+  const uLen = getLabel('length', unitSystem);
+  const uWidth = getLabel('width', unitSystem);
+  const last = forecast ? forecast.points[forecast.points.length - 1] : null;
+
+  const chartData = (forecast?.points ?? []).map(p => ({
+    years: p.time / YEAR,
+    'Fractured Rate': toDisplay(p.rate, rateCat),
+    'Unfractured Rate': toDisplay(p.rate_base, rateCat),
+    'Fractured Cumulative': toDisplay(p.cumulative, volumeCat),
+    'Unfractured Cumulative': toDisplay(p.cumulative_base, volumeCat)
+  }));
+
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm font-mono w-24 text-right';
+  const summary = (label: string, value: string) => (
+    <div>
+      <div className="text-xs text-slate-400 uppercase">{label}</div>
+      <div className="text-lg font-mono text-white">{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Production Forecast</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Rate and cumulative at constant flowing pressure from a closed, circular drainage area. The propped fracture
+          enters as a Cinco-Ley effective wellbore radius; early time adds linear flow from the fracture faces.
+        </p>
+        <div className="flex items-center gap-4 mb-4 text-sm text-slate-200">
+          <label className="flex items-center gap-2">
+            Fluid
+            <select value={reservoir.fluid} onChange={(e) => onReservoirChange({ ...reservoir, fluid: e.target.value as ReservoirFluid })}
+              className="bg-slate-900 text-white p-1 rounded border border-slate-700 text-sm">
+              <option value="oil">Oil</option>
+              <option value="gas">Gas</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Horizon
+            <input type="number" step="any" min={0} value={years} className={inputClass} onChange={(e) => setYears(parseFloat(e.target.value))} />
+            <span className="text-xs text-slate-500">years</span>
+          </label>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {FIELDS.filter(f => !f.fluid || f.fluid === reservoir.fluid).map(f => (
+            <label key={f.key} className="flex justify-between items-center gap-2 text-xs text-slate-400">
+              <span>{f.label} <span className="text-slate-500">({getReservoirLabel(f.key, unitSystem)})</span></span>
+              <input type="number" step="any" value={reservoir[f.key]} className={inputClass}
+                onChange={(e) => onReservoirChange({ ...reservoir, [f.key]: parseFloat(e.target.value) })} />
+            </label>
+          ))}
+        </div>
+        {result && !propped && (
+          <div className="mb-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200 flex flex-wrap items-center gap-2">
+            ⚠ The design pumps no proppant: the forecast uses the hydraulic half-length and an assumed conductivity of
+            <input type="number" step="any" min={0} value={conductivity} className={inputClass} onChange={(e) => setConductivity(parseFloat(e.target.value))} />
+            {getLabel('conductivity', unitSystem)}
+          </div>
+        )}
+        {!result && <div className="text-sm text-slate-500">Run a simulation to forecast production from its fracture.</div>}
+        {error && <div className="p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+      </div>
+
+      {result && (
+        <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+          <h3 className="text-lg font-bold text-white mb-1">Unified Fracture Design</h3>
+          <p className="text-xs text-slate-400 mb-4">
+            The proppant number fixes the fracture that maximizes pseudo-steady productivity for the proppant placed in
+            the pay (Economides and Valko). Compared here with the simulated half-length and average width.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-slate-200">
+            <label className="flex items-center gap-2">
+              Proppant Mass
+              <input type="number" step="any" min={0} value={ufdMass ?? ''} className={inputClass}
+                onChange={(e) => setMass(parseFloat(e.target.value))} />
+              <span className="text-xs text-slate-500">{getLabel('mass', unitSystem)}</span>
+            </label>
+            {mass !== null && designMass !== null && (
+              <button onClick={() => setMass(null)} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+                Use Design Mass
+              </button>
+            )}
+            {designMass === null && mass === null && (
+              <span className="text-xs text-slate-500">The design pumps no proppant: enter a mass to size the optimum.</span>
+            )}
+          </div>
+          {ufdError && <div className="p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{ufdError}</div>}
+          {ufd && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-4">
+                {summary('Proppant Number', ufd.proppant_number.toPrecision(3))}
+                {summary('Optimum FCD', ufd.FCD_opt.toFixed(2))}
+                {summary('Proppant in Pay', `${(ufd.pay_fraction * 100).toFixed(0)}%`)}
+                {summary('Max J_D', ufd.JD_opt.toFixed(3))}
+              </div>
+              <table className="w-full text-sm text-left text-slate-300">
+                <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-right">Optimum</th>
+                    <th className="px-3 py-2 text-right">Design</th>
+                    <th className="px-3 py-2 text-right">Design / Optimum</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  <tr className="border-b border-slate-700">
+                    <td className="px-3 py-2 font-sans">Half-Length ({uLen})</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(ufd.xf_opt, 'length').toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(result.length, 'length').toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">{ufd.length_ratio.toFixed(2)}</td>
+                  </tr>
+                  <tr className="border-b border-slate-700">
+                    <td className="px-3 py-2 font-sans">Width ({uWidth}, optimum propped)</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(ufd.w_opt, 'width').toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right">{toDisplay(result.width_avg, 'width').toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right">{ufd.width_ratio.toFixed(2)}</td>
+                  </tr>
+                  <tr className="border-b border-slate-700">
+                    <td className="px-3 py-2 font-sans">FCD</td>
+                    <td className="px-3 py-2 text-right">{ufd.FCD_opt.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right">{ufd.FCD !== null ? ufd.FCD.toFixed(2) : '—'}</td>
+                    <td className="px-3 py-2 text-right">{ufd.FCD !== null ? (ufd.FCD / ufd.FCD_opt).toFixed(2) : '—'}</td>
+                  </tr>
+                  <tr className="border-b border-slate-700">
+                    <td className="px-3 py-2 font-sans">J_D</td>
+                    <td className="px-3 py-2 text-right">{ufd.JD_opt.toFixed(3)}</td>
+                    <td className="px-3 py-2 text-right">{ufd.JD !== null ? ufd.JD.toFixed(3) : '—'}</td>
+                    <td className="px-3 py-2 text-right">{ufd.JD !== null ? (ufd.JD / ufd.JD_opt).toFixed(2) : '—'}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <div className="mt-4 p-3 bg-slate-900/50 border border-slate-700 rounded text-sm text-slate-300">
+                {ufd.guidance.map((g, i) => <div key={i}>• {g}</div>)}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {forecast && last && (
+        <>
+          <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {summary(`${propped ? 'Propped' : 'Hydraulic'} x_f (${uLen})`, toDisplay(forecast.xf, 'length').toFixed(1))}
+              {summary(`Conductivity (${getLabel('conductivity', unitSystem)})`, toDisplay(forecast.conductivity, 'conductivity').toFixed(0))}
+              {summary('FCD', forecast.FCD.toFixed(2))}
+              {summary(`Effective r_w (${uLen})`, toDisplay(forecast.rw_eff, 'length').toFixed(2))}
+              {summary('Equivalent Skin', forecast.skin.toFixed(2))}
+              {summary('Folds of Increase (J/J0)', forecast.folds.toFixed(2))}
+              {summary(`Cumulative at ${years} yr (${uVolume})`, toDisplay(last.cumulative, volumeCat).toFixed(0))}
+              {summary('Gain over Unfractured', last.cumulative_base > 0 ? `${(last.cumulative / last.cumulative_base).toFixed(2)}x` : '—')}
+            </div>
+            {forecast.warnings.length > 0 && (
+              <div className="mt-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200">
+                {forecast.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Rate ({uRate}) vs Years</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="years" type="number" scale="log" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12}
+                    tickFormatter={(v) => v.toPrecision(2)} />
+                  <YAxis stroke="#94a3b8" fontSize={12} width={60} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                    labelFormatter={(v) => `${Number(v).toPrecision(3)} yr`} formatter={(v: number) => v.toPrecision(4)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="Fractured Rate" stroke="#10b981" dot={false} />
+                  <Line type="monotone" dataKey="Unfractured Rate" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-80">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Cumulative ({uVolume}) vs Years</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="years" type="number" domain={[0, 'dataMax']} stroke="#94a3b8" fontSize={12}
+                    tickFormatter={(v) => v.toFixed(1)} />
+                  <YAxis stroke="#94a3b8" fontSize={12} width={70} />
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                    labelFormatter={(v) => `${Number(v).toPrecision(3)} yr`} formatter={(v: number) => v.toPrecision(4)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="Fractured Cumulative" stroke="#3b82f6" dot={false} />
+                  <Line type="monotone" dataKey="Unfractured Cumulative" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
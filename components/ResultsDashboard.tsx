@@ -1,26 +1,43 @@
-import React from 'react';
-import { FracInputs, ModelResult, SensitivityData, UnitSystem } from '../types';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { convertValue, getLabel } from '../utils/unitConversion';
+import React, { useRef, useState } from 'react';
+import { CatalogSelection, FieldTrace, FormationLayer, FracInputs, ModelResult, PumpSchedule, RheologyType, SensitivityData, ThermalOptions, UnitSystem } from '../types';
+import { AreaChart, Area, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { getLabel, unitConverters } from '../utils/unitConversion';
+import { LEAKOFF_LIMIT, TOUGHNESS_SPLIT } from '../services/regimeService';
+import { ImportStatus, buildJobRecord } from '../services/recordService';
+import { modelPressureAt } from '../services/historyMatchService';
+import { FieldDataImport } from './FieldDataImport';
+import { NolteSmithPlot } from './NolteSmithPlot';
+import { ScheduleDesigner } from './ScheduleDesigner';
 
 interface Props {
   inputs: FracInputs;
   result: ModelResult;
   sensitivity: SensitivityData[];
   unitSystem: UnitSystem;
+  schedule: PumpSchedule;
+  rheology: RheologyType;
+  layers: FormationLayer[];
+  thermal: ThermalOptions | null; // Display units
+  catalog: CatalogSelection; // Display units
+  importStatus: ImportStatus | null;
+  onImport: (fileName: string, text: string) => void;
+  onDismissImport: () => void;
+  fieldTrace: FieldTrace | null; // SI
+  onFieldTrace: (trace: FieldTrace | null) => void;
+  onApplySchedule: (schedule: PumpSchedule) => void; // Display units
 }
 
-export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity, unitSystem }) => {
-  const pLimitHit = result.p_well > inputs.p_limit; // inputs are in Display units, result.p_well is SI
-  // Wait! App passes converted Inputs (SI) to calculator, but InputsForm updates Inputs state in Display units.
-  // We need to compare carefully.
-  // Actually, p_well in result is SI. inputs.p_limit is Display units.
-  // We must convert p_well to display units to compare with inputs.p_limit, OR convert inputs.p_limit to SI.
-  // Let's standardise: Convert everything to Display units for this dashboard.
-  
-  const toDisplay = (val: number, cat: any) => convertValue(val, cat, UnitSystem.SI, unitSystem);
+export const ResultsDashboard: React.FC<Props> = ({
+  inputs, result, sensitivity, unitSystem, schedule, rheology, layers, thermal, catalog, importStatus, onImport, onDismissImport,
+  fieldTrace, onFieldTrace, onApplySchedule
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showFieldImport, setShowFieldImport] = useState(false);
+  const [showScheduleDesign, setShowScheduleDesign] = useState(false);
+  const { toDisplay } = unitConverters(unitSystem);
   
   const p_well_disp = toDisplay(result.p_well, 'pressure');
+  const p_surf_disp = toDisplay(result.p_surface_max, 'pressure');
   const p_net_disp = toDisplay(result.p_net, 'pressure');
   const len_disp = toDisplay(result.length, 'length');
   const w_max_disp = toDisplay(result.width_max, 'width'); // uses width units (mm or in)
@@ -31,30 +48,104 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
     time: parseFloat(toDisplay(ts.time, 'time').toFixed(1)),
     Length: parseFloat(toDisplay(ts.length, 'length').toFixed(1)),
     Width: parseFloat(toDisplay(ts.width, 'width').toFixed(3)),
-    Pressure: parseFloat(toDisplay(ts.pressure, 'pressure').toFixed(1))
+    Pressure: parseFloat(toDisplay(ts.pressure, 'pressure').toFixed(1)),
+    Surface: parseFloat(toDisplay(ts.surface_pressure, 'pressure').toFixed(1)),
+    Height: parseFloat(toDisplay(ts.height, 'length').toFixed(1)),
+    Viscosity: ts.viscosity !== undefined ? parseFloat(toDisplay(ts.viscosity, 'viscosity').toPrecision(3)) : undefined
   }));
+  // Fracture fluid viscosity is only worth plotting when it changes over the job
+  const viscosities = result.timeSeries.map(ts => ts.viscosity).filter((v): v is number => v !== undefined && v > 0);
+  const viscosityVaries = viscosities.length > 1 && Math.max(...viscosities) > 1.01 * Math.min(...viscosities);
+
+  // Measured traces merged into the history on a numeric time axis. Without a
+  // gauge, net pressure is backed out of surface pressure with the model's
+  // friction and hydrostatic terms.
+  const fieldSamples = fieldTrace?.samples ?? [];
+  const fieldTimes = fieldSamples.map(s => s.time);
+  const modelSurface = modelPressureAt(result, 'surface', fieldTimes);
+  const modelNet = modelPressureAt(result, 'net', fieldTimes);
+  const fieldRows = fieldSamples.map((s, i) => {
+    const net = s.bottomhole_pressure !== null
+      ? s.bottomhole_pressure - result.closure.pressure
+      : s.surface_pressure !== null ? s.surface_pressure - (modelSurface[i] - modelNet[i]) : null;
+    return {
+      time: parseFloat(toDisplay(s.time, 'time').toFixed(2)),
+      'Measured Rate': s.rate !== null ? parseFloat(toDisplay(s.rate, 'rate').toFixed(3)) : undefined,
+      'Measured Net': net !== null ? parseFloat(toDisplay(net, 'pressure').toFixed(1)) : undefined,
+      'Measured Surface': s.surface_pressure !== null ? parseFloat(toDisplay(s.surface_pressure, 'pressure').toFixed(1)) : undefined
+    };
+  });
+  const overlayData = fieldRows.length > 0
+    ? [...historyData, ...fieldRows].sort((a, b) => a.time - b.time)
+    : historyData;
+  const hasMeasured = (key: 'Measured Rate' | 'Measured Net' | 'Measured Surface') => fieldRows.some(r => r[key] !== undefined);
+
+  // Surface pressure build-up at end of pumping, in display units
+  const breakdown = result.pressure_breakdown;
+  const breakdownRows = [
+    { label: 'Bottomhole Treating', value: breakdown.bhtp, sign: '' },
+    { label: 'Hydrostatic Head', value: -breakdown.hydrostatic, sign: '−' },
+    { label: 'Pipe Friction', value: breakdown.pipe_friction, sign: '+' },
+    { label: 'Perforation Friction', value: breakdown.perf_friction, sign: '+' }
+  ];
+  const breakdownScale = Math.max(...breakdownRows.map(r => Math.abs(r.value)), 1);
+
+  // Stage boundaries (end of every stage but the last), formatted like the time axis
+  const stageBoundaries = result.stages.length > 1
+    ? result.stages.slice(0, -1).map(s => parseFloat(toDisplay(s.endTime, 'time').toFixed(1)))
+    : [];
+  const stageLines = stageBoundaries.map(t => (
+    <ReferenceLine key={t} x={t} stroke="#64748b" strokeDasharray="4 4" />
+  ));
+
+  // Shut-in and closure markers on the falloff part of the history
+  const pumpEnd = result.stages[result.stages.length - 1]?.endTime ?? 0;
+  const hasFalloff = result.timeSeries.some(ts => ts.phase === 'shut-in');
+  const closureTimeDisp = result.closure.time !== null ? toDisplay(result.closure.time, 'time') : null;
+  const phaseLines = hasFalloff ? [
+    <ReferenceLine key="shut-in" x={parseFloat(toDisplay(pumpEnd, 'time').toFixed(1))} stroke="#f43f5e" strokeDasharray="4 4" label={{ value: 'Shut-in', fill: '#f43f5e', fontSize: 10, position: 'top' }} />,
+    ...(result.closure.closed && result.closure.time !== null ? [
+      <ReferenceLine key="closure" x={parseFloat(toDisplay(pumpEnd + result.closure.time, 'time').toFixed(1))} stroke="#a855f7" strokeDasharray="4 4" label={{ value: 'Closure', fill: '#a855f7', fontSize: 10, position: 'top' }} />
+    ] : [])
+  ] : [];
 
   const profileData = result.profile.map(p => ({
     x: parseFloat(toDisplay(p.position, 'length').toFixed(1)),
     w: parseFloat(toDisplay(p.width, 'width').toFixed(3))
   }));
 
+  // P3D cross-section at the wellbore: width and closure stress against depth
+  const verticalData = (result.vertical?.points ?? []).map(p => ({
+    depth: parseFloat(toDisplay(p.depth, 'length').toFixed(1)),
+    Width: parseFloat(toDisplay(p.width, 'width').toFixed(3)),
+    Stress: parseFloat(toDisplay(p.stress, 'pressure').toFixed(1))
+  }));
+
+  // Regime trajectory on log axes, clipped to the plotted decades
+  const clipLog = (v: number) => Math.min(1e3, Math.max(1e-3, v));
+  const regimeData = result.regimeTrajectory.map(r => ({
+    C_m: clipLog(r.C_m),
+    K_m: clipLog(r.K_m),
+    time: parseFloat(toDisplay(r.time, 'time').toFixed(1))
+  }));
+
+  const proppantData = (result.proppant?.distribution ?? []).map(p => ({
+    x: parseFloat(toDisplay(p.position, 'length').toFixed(1)),
+    Concentration: parseFloat(toDisplay(p.concentration, 'concentration').toFixed(2)),
+    Bank: parseFloat(toDisplay(p.bank_height, 'length').toFixed(2))
+  }));
+
   const uLen = getLabel('length', unitSystem);
   const uWidth = getLabel('width', unitSystem);
   const uPress = getLabel('pressure', unitSystem);
   const uTime = getLabel('time', unitSystem);
+  const uVol = getLabel('volume', unitSystem);
 
-  // Check limits in display units
-  const isLimitHit = p_well_disp > inputs.p_limit;
+  // p_limit is a surface limit (display units): compare the peak surface treating pressure
+  const isLimitHit = p_surf_disp > inputs.p_limit;
 
   const exportJson = () => {
-    const data = {
-      timestamp: new Date().toISOString(),
-      unitSystem,
-      inputs,
-      result_SI: result,
-      sensitivity
-    };
+    const data = buildJobRecord({ model: result.type, unitSystem, inputs, schedule, rheology, layers, thermal, catalog }, result, sensitivity);
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -63,6 +154,15 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
     a.click();
   };
 
+  const importJson = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => onImport(file.name, reader.result as string);
+    reader.readAsText(file);
+    e.target.value = ''; // Allow importing the same file again
+  };
+
   return (
     <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
       
@@ -72,22 +172,103 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
           <div>
             <h2 className="text-2xl font-bold text-white mb-1">{result.type} Model Results</h2>
             <div className="flex gap-2 text-xs">
-              <span className="bg-blue-900 text-blue-200 px-2 py-1 rounded border border-blue-700">Regime: {result.regime}</span>
+              <span className="bg-blue-900 text-blue-200 px-2 py-1 rounded border border-blue-700">Regime: {result.regime} ({result.regime_vertex})</span>
+              {result.asymptote && (
+                <span className="bg-purple-900 text-purple-200 px-2 py-1 rounded border border-purple-700" title={`Viscosity asymptote ${toDisplay(result.asymptote.p_viscosity, 'pressure').toFixed(0)} ${getLabel('pressure', unitSystem)}, toughness asymptote ${toDisplay(result.asymptote.p_toughness, 'pressure').toFixed(0)} ${getLabel('pressure', unitSystem)}`}>
+                  Nearest asymptote: {result.asymptote.nearest} ({((result.asymptote.nearest === 'Toughness' ? result.asymptote.p_toughness : result.asymptote.p_viscosity) / result.p_net * 100).toFixed(0)}% of p_net)
+                </span>
+              )}
               <span className={`px-2 py-1 rounded border ${isLimitHit ? 'bg-red-900 text-red-200 border-red-700' : 'bg-emerald-900 text-emerald-200 border-emerald-700'}`}>
                 Status: {isLimitHit ? 'Pressure Limit Exceeded' : 'Safe Operation'}
               </span>
             </div>
           </div>
-          <button onClick={exportJson} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
-            Export JSON
-          </button>
+          <div className="flex gap-2">
+            <button onClick={() => setShowFieldImport(!showFieldImport)} className={`px-3 py-1 rounded text-sm transition ${showFieldImport ? 'bg-slate-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}>
+              Field Data
+            </button>
+            <button onClick={() => setShowScheduleDesign(!showScheduleDesign)} className={`px-3 py-1 rounded text-sm transition ${showScheduleDesign ? 'bg-slate-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}>
+              Schedule Design
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Import JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importJson} />
+            <button onClick={exportJson} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Export JSON
+            </button>
+          </div>
         </div>
+
+        {(showFieldImport || fieldTrace) && (
+          <FieldDataImport
+            key={unitSystem} // Resample interval is in display units
+            unitSystem={unitSystem}
+            mu={inputs.mu}
+            rho_p={inputs.rho_p}
+            trace={fieldTrace}
+            onLoad={onFieldTrace}
+            onApplySchedule={onApplySchedule}
+          />
+        )}
+
+        {showScheduleDesign && (
+          <ScheduleDesigner
+            key={unitSystem} // Design quantities are in display units
+            unitSystem={unitSystem}
+            inputs={inputs}
+            result={result}
+            schedule={schedule}
+            onApplySchedule={onApplySchedule}
+          />
+        )}
+
+        {importStatus && (
+          <div className={`mb-4 p-3 rounded border text-sm ${importStatus.error ? 'bg-red-900/20 border-red-700/50 text-red-200' : importStatus.mismatches.length > 0 ? 'bg-orange-900/20 border-orange-700/50 text-orange-200' : 'bg-emerald-900/20 border-emerald-700/50 text-emerald-200'}`}>
+            <div className="flex justify-between items-start">
+              <div className="font-bold">
+                {importStatus.error
+                  ? `Could not import ${importStatus.fileName}: ${importStatus.error}`
+                  : importStatus.mismatches.length > 0
+                    ? `Imported ${importStatus.fileName}: recomputed result differs from the stored result_SI`
+                    : `Imported ${importStatus.fileName}: recomputed result matches the stored result_SI`}
+              </div>
+              <button onClick={onDismissImport} className="text-slate-400 hover:text-white ml-4">✕</button>
+            </div>
+            {importStatus.timestamp && <div className="text-xs text-slate-400">Recorded {new Date(importStatus.timestamp).toLocaleString()}</div>}
+            {importStatus.mismatches.length > 0 && (
+              <table className="mt-2 w-full text-xs">
+                <thead className="text-slate-400">
+                  <tr><th className="text-left">Result</th><th className="text-right">Stored</th><th className="text-right">Recomputed</th><th className="text-right">Change</th></tr>
+                </thead>
+                <tbody>
+                  {importStatus.mismatches.map(m => {
+                    const show = (v: number) => m.category === 'dimensionless' ? `${(v * 100).toFixed(1)} %` : `${toDisplay(v, m.category).toFixed(m.category === 'width' ? 3 : 1)} ${getLabel(m.category, unitSystem)}`;
+                    return (
+                      <tr key={m.label}>
+                        <td>{m.label}</td>
+                        <td className="text-right font-mono">{show(m.stored)}</td>
+                        <td className="text-right font-mono">{show(m.recomputed)}</td>
+                        <td className="text-right font-mono">{m.stored !== 0 ? `${((m.recomputed - m.stored) / Math.abs(m.stored) * 100).toFixed(1)}%` : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {importStatus.notes.length > 0 && (
+              <div className="mt-2 text-xs text-slate-400 flex flex-col gap-0.5">
+                {importStatus.notes.map((n, i) => <div key={i}>{n}</div>)}
+              </div>
+            )}
+          </div>
+        )}
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-slate-300">
           <div>
             <div className="text-xs text-slate-500 uppercase tracking-wide">Fracture Geometry</div>
             <div className="text-2xl font-mono text-white mt-1">{len_disp.toFixed(1)} <span className="text-base text-slate-500">{uLen}</span></div>
-            <div className="text-xs">Length (or Radius)</div>
+            <div className="text-xs">Length (or Radius), Height: {toDisplay(result.height, 'length').toFixed(1)} {uLen}</div>
           </div>
           <div>
             <div className="text-xs text-slate-500 uppercase tracking-wide">Max Width</div>
@@ -95,11 +276,11 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
             <div className="text-xs">Avg: {w_avg_disp.toFixed(3)} {uWidth}</div>
           </div>
           <div>
-            <div className="text-xs text-slate-500 uppercase tracking-wide">Treating Pressure</div>
+            <div className="text-xs text-slate-500 uppercase tracking-wide">Max Surface Pressure</div>
             <div className={`text-2xl font-mono mt-1 ${isLimitHit ? 'text-red-400' : 'text-emerald-400'}`}>
-              {p_well_disp.toFixed(0)} <span className="text-base text-slate-500">{uPress}</span>
+              {p_surf_disp.toFixed(0)} <span className="text-base text-slate-500">{uPress}</span>
             </div>
-            <div className="text-xs">Net: {p_net_disp.toFixed(0)} {uPress}</div>
+            <div className="text-xs">BHTP: {p_well_disp.toFixed(0)} {uPress}, Net: {p_net_disp.toFixed(0)} {uPress}</div>
           </div>
           <div>
             <div className="text-xs text-slate-500 uppercase tracking-wide">Efficiency</div>
@@ -108,6 +289,52 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
           </div>
         </div>
         
+        <div className="mt-4 pt-4 border-t border-slate-700 grid grid-cols-2 md:grid-cols-4 gap-6 text-slate-300">
+          <div>
+            <div className="text-xs text-slate-500 uppercase tracking-wide">Closure Time</div>
+            <div className="text-xl font-mono text-white mt-1">
+              {closureTimeDisp !== null ? closureTimeDisp.toFixed(1) : '—'} <span className="text-base text-slate-500">{uTime}</span>
+            </div>
+            <div className="text-xs">{result.closure.closed ? 'After shut-in' : closureTimeDisp !== null ? 'Predicted (beyond shut-in period)' : 'No leak-off: never closes'}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500 uppercase tracking-wide">Closure Pressure</div>
+            <div className="text-xl font-mono text-white mt-1">{toDisplay(result.closure.pressure, 'pressure').toFixed(0)} <span className="text-base text-slate-500">{uPress}</span></div>
+            <div className="text-xs">G at closure: {result.closure.G !== null ? result.closure.G.toFixed(2) : '—'}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500 uppercase tracking-wide">Closed Geometry</div>
+            <div className="text-xl font-mono text-white mt-1">{toDisplay(result.closure.length, 'length').toFixed(1)} <span className="text-base text-slate-500">{uLen}</span></div>
+            <div className="text-xs">Height: {toDisplay(result.closure.height, 'length').toFixed(1)} {uLen}, Width: {toDisplay(result.closure.width, 'width').toFixed(3)} {uWidth}</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-500 uppercase tracking-wide">Falloff Efficiency</div>
+            <div className="text-xl font-mono text-white mt-1">{(result.closure.efficiency * 100).toFixed(1)} <span className="text-base text-slate-500">%</span></div>
+            <div className="text-xs">Area exponent α = {result.closure.alpha.toFixed(2)}</div>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-slate-700">
+          <div className="text-xs text-slate-500 uppercase tracking-wide mb-2">Surface Pressure Breakdown (End of Pumping)</div>
+          <div className="flex flex-col gap-1 text-sm text-slate-300">
+            {breakdownRows.map(row => (
+              <div key={row.label} className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-3">{row.sign} {row.label}</span>
+                <div className="col-span-6 bg-slate-900 rounded h-3 overflow-hidden">
+                  <div className={`h-3 ${row.value < 0 ? 'bg-sky-600' : 'bg-amber-500'}`} style={{ width: `${(Math.abs(row.value) / breakdownScale) * 100}%` }} />
+                </div>
+                <span className="col-span-3 text-right font-mono">{toDisplay(Math.abs(row.value), 'pressure').toFixed(0)} {uPress}</span>
+              </div>
+            ))}
+            <div className="grid grid-cols-12 gap-2 items-center border-t border-slate-700 pt-1 font-bold text-white">
+              <span className="col-span-9">= Surface Treating Pressure</span>
+              <span className={`col-span-3 text-right font-mono ${toDisplay(breakdown.surface, 'pressure') > inputs.p_limit ? 'text-red-400' : ''}`}>
+                {toDisplay(breakdown.surface, 'pressure').toFixed(0)} {uPress}
+              </span>
+            </div>
+          </div>
+        </div>
+
         {result.warnings.length > 0 && (
            <div className="mt-4 p-3 bg-orange-900/20 border border-orange-700/50 rounded text-sm text-orange-200">
              {result.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
@@ -123,7 +350,7 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
         <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
           <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Length Propagation</h4>
           <ResponsiveContainer width="100%" height="90%">
-            <AreaChart data={historyData}>
+            <ComposedChart data={overlayData}>
               <defs>
                 <linearGradient id="colorLen" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
@@ -131,11 +358,17 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
                 </linearGradient>
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis dataKey="time" stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
               <YAxis stroke="#94a3b8" fontSize={12} width={40}/>
+              {hasMeasured('Measured Rate') && <YAxis yAxisId="rate" orientation="right" stroke="#94a3b8" fontSize={12} width={40} />}
+              {viscosityVaries && <YAxis yAxisId="mu" orientation="right" stroke="#f472b6" fontSize={12} width={40} />}
               <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
-              <Area type="monotone" dataKey="Length" stroke="#3b82f6" fillOpacity={1} fill="url(#colorLen)" />
-            </AreaChart>
+              {stageLines}
+              {phaseLines}
+              <Area type="monotone" dataKey="Length" stroke="#3b82f6" fillOpacity={1} fill="url(#colorLen)" connectNulls />
+              {hasMeasured('Measured Rate') && <Line yAxisId="rate" type="linear" dataKey="Measured Rate" name={`Measured Rate (${getLabel('rate', unitSystem)})`} stroke="#e2e8f0" strokeWidth={1} dot={false} connectNulls isAnimationActive={false} />}
+              {viscosityVaries && <Line yAxisId="mu" type="monotone" dataKey="Viscosity" name={`Fluid Viscosity (${getLabel('viscosity', unitSystem)})`} stroke="#f472b6" strokeWidth={1} strokeDasharray="4 2" dot={false} connectNulls isAnimationActive={false} />}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
 
@@ -154,6 +387,8 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
               <XAxis dataKey="time" stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
               <YAxis stroke="#94a3b8" fontSize={12} width={40}/>
               <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+              {stageLines}
+              {phaseLines}
               <Area type="monotone" dataKey="Width" stroke="#10b981" fillOpacity={1} fill="url(#colorWidth)" />
             </AreaChart>
           </ResponsiveContainer>
@@ -161,9 +396,9 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
 
         {/* Pressure vs Time */}
         <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
-           <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Net Pressure History ({uPress})</h4>
+           <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Net Pressure History: Pump-in / Falloff ({uPress})</h4>
            <ResponsiveContainer width="100%" height="90%">
-            <AreaChart data={historyData}>
+            <ComposedChart data={overlayData}>
               <defs>
                 <linearGradient id="colorPress" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.8}/>
@@ -171,14 +406,44 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
                 </linearGradient>
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis dataKey="time" stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
               <YAxis stroke="#94a3b8" fontSize={12} width={50}/>
               <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
-              <Area type="monotone" dataKey="Pressure" stroke="#f59e0b" fillOpacity={1} fill="url(#colorPress)" />
-            </AreaChart>
+              {stageLines}
+              {phaseLines}
+              <Area type="monotone" dataKey="Pressure" stroke="#f59e0b" fillOpacity={1} fill="url(#colorPress)" connectNulls />
+              {hasMeasured('Measured Net') && <Line type="linear" dataKey="Measured Net" stroke="#e2e8f0" strokeWidth={1} dot={false} connectNulls isAnimationActive={false} />}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
 
+        {/* Surface Pressure vs Time */}
+        <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
+           <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Surface Treating Pressure ({uPress})</h4>
+           <ResponsiveContainer width="100%" height="90%">
+            <ComposedChart data={overlayData}>
+              <defs>
+                <linearGradient id="colorSurf" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+              <YAxis stroke="#94a3b8" fontSize={12} width={50}/>
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+              <ReferenceLine y={inputs.p_limit} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'Limit', fill: '#ef4444', fontSize: 10, position: 'insideTopLeft' }} />
+              {stageLines}
+              {phaseLines}
+              <Area type="monotone" dataKey="Surface" stroke="#ef4444" fillOpacity={1} fill="url(#colorSurf)" connectNulls />
+              {hasMeasured('Measured Surface') && <Line type="linear" dataKey="Measured Surface" stroke="#e2e8f0" strokeWidth={1} dot={false} connectNulls isAnimationActive={false} />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Nolte-Smith Log-Log Diagnostic */}
+        <NolteSmithPlot key={unitSystem} result={result} unitSystem={unitSystem} />
+
         {/* Width Profile */}
         <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
            <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Final Width Profile</h4>
@@ -199,8 +464,152 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
           </ResponsiveContainer>
         </div>
 
+        {/* Regime Trajectory */}
+        <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
+          <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Regime Trajectory (M-K-M̃-K̃)</h4>
+          <ResponsiveContainer width="100%" height="90%">
+            <ComposedChart data={regimeData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="C_m" type="number" scale="log" domain={[1e-3, 1e3]} allowDataOverflow stroke="#94a3b8" fontSize={12} label={{ value: 'Leak-off C_m', position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+              <YAxis dataKey="K_m" type="number" scale="log" domain={[1e-3, 1e3]} allowDataOverflow stroke="#94a3b8" fontSize={12} width={50} label={{ value: 'Toughness K_m', angle: -90, position: 'insideLeft', fill: '#64748b' }}/>
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+              <ReferenceLine x={LEAKOFF_LIMIT} stroke="#64748b" strokeDasharray="4 4" label={{ value: 'storage ← | → leak-off (~)', fill: '#94a3b8', fontSize: 10, position: 'insideBottom' }} />
+              <ReferenceLine y={TOUGHNESS_SPLIT} stroke="#64748b" strokeDasharray="4 4" label={{ value: 'K (toughness) ↑ · M (viscosity) ↓', fill: '#94a3b8', fontSize: 10, position: 'insideTopLeft' }} />
+              <Line dataKey="K_m" stroke="#e879f9" dot={{ r: 2 }} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {result.vertical && (
+          <>
+            {/* Height vs Time */}
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Height Growth ({uLen})</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <AreaChart data={historyData}>
+                  <defs>
+                    <linearGradient id="colorHeight" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#06b6d4" stopOpacity={0.8}/>
+                      <stop offset="95%" stopColor="#06b6d4" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="time" stroke="#94a3b8" fontSize={12} label={{ value: uTime, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+                  <YAxis stroke="#94a3b8" fontSize={12} width={40}/>
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  {stageLines}
+                  {phaseLines}
+                  <Area type="monotone" dataKey="Height" stroke="#06b6d4" fillOpacity={1} fill="url(#colorHeight)" />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Vertical Width Profile */}
+            <div className="bg-slate-800 p-4 rounded border border-slate-700 h-64">
+              <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">
+                Vertical Profile at Wellbore {result.vertical.contained ? '' : '(Uncontained)'}
+              </h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={verticalData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis xAxisId="w" type="number" stroke="#10b981" fontSize={12} label={{ value: `Width (${uWidth})`, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+                  <XAxis xAxisId="s" type="number" orientation="top" stroke="#f59e0b" fontSize={12} domain={['auto', 'auto']}/>
+                  <YAxis dataKey="depth" type="number" reversed domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} width={50} label={{ value: `TVD (${uLen})`, angle: -90, position: 'insideLeft', fill: '#64748b' }}/>
+                  <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                  <Legend />
+                  <ReferenceLine xAxisId="w" y={inputs.depth} stroke="#64748b" strokeDasharray="4 4" label={{ value: 'Perfs', fill: '#94a3b8', fontSize: 10, position: 'insideTopRight' }} />
+                  <Line xAxisId="w" type="monotone" dataKey="Width" stroke="#10b981" dot={false} />
+                  <Line xAxisId="s" type="stepAfter" dataKey="Stress" name={`Stress (${uPress})`} stroke="#f59e0b" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+
       </div>
 
+      {/* Proppant */}
+      {result.proppant && (
+        <div className={`bg-slate-800 rounded border p-4 ${result.proppant.screenout ? 'border-red-500/50' : 'border-slate-700'}`}>
+          <div className="flex justify-between items-start mb-3">
+            <h4 className="text-white font-bold">Proppant Placement</h4>
+            <span className={`px-2 py-1 rounded border text-xs ${result.proppant.screenout ? 'bg-red-900 text-red-200 border-red-700' : 'bg-emerald-900 text-emerald-200 border-emerald-700'}`}>
+              {result.proppant.screenout ? `Screenout: ${result.proppant.screenout_stage}` : 'No Screenout'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-slate-300 mb-4">
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Propped Length</div>
+              <div className="text-xl font-mono text-white mt-1">{toDisplay(result.proppant.propped_length, 'length').toFixed(1)} <span className="text-base text-slate-500">{uLen}</span></div>
+              <div className="text-xs">{((result.proppant.propped_length / result.length) * 100).toFixed(0)}% of hydraulic</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Propped Height</div>
+              <div className="text-xl font-mono text-white mt-1">{toDisplay(result.proppant.propped_height, 'length').toFixed(1)} <span className="text-base text-slate-500">{uLen}</span></div>
+              <div className="text-xs">Mass: {result.proppant.mass_total.toFixed(0)} kg (SI)</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Propped Width</div>
+              <div className="text-xl font-mono text-white mt-1">{toDisplay(result.proppant.propped_width, 'width').toFixed(3)} <span className="text-base text-slate-500">{uWidth}</span></div>
+              <div className="text-xs">Pack average after closure</div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Conductivity</div>
+              <div className="text-xl font-mono text-white mt-1">{toDisplay(result.proppant.conductivity, 'conductivity').toFixed(0)} <span className="text-base text-slate-500">{getLabel('conductivity', unitSystem)}</span></div>
+              <div className="text-xs">Pack perm: {(result.proppant.permeability / 9.869233e-16).toFixed(0)} mD</div>
+            </div>
+          </div>
+          <div className="h-64">
+            <h4 className="text-xs text-slate-400 mb-2 uppercase text-center">Proppant Distribution</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={proppantData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="x" stroke="#94a3b8" fontSize={12} label={{ value: `Distance (${uLen})`, position: 'insideBottomRight', offset: -5, fill: '#64748b' }}/>
+                <YAxis yAxisId="c" stroke="#94a3b8" fontSize={12} width={40} label={{ value: getLabel('concentration', unitSystem), angle: -90, position: 'insideLeft', fill: '#64748b' }}/>
+                <YAxis yAxisId="h" orientation="right" stroke="#94a3b8" fontSize={12} width={40} label={{ value: uLen, angle: 90, position: 'insideRight', fill: '#64748b' }}/>
+                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+                <Legend />
+                <Area yAxisId="c" type="stepAfter" dataKey="Concentration" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.3} />
+                <Line yAxisId="h" type="stepAfter" dataKey="Bank" name="Bank Height" stroke="#8b5cf6" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Stage Table */}
+      {result.stages.length > 1 && (
+        <div className="bg-slate-800 rounded border border-slate-700 p-4">
+          <h4 className="text-white font-bold mb-3">Pump Schedule (End of Stage)</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs text-slate-400 uppercase bg-slate-700">
+                <tr>
+                  <th className="px-4 py-2">Stage</th>
+                  <th className="px-4 py-2">End Time ({uTime})</th>
+                  <th className="px-4 py-2">Length ({uLen})</th>
+                  <th className="px-4 py-2">Width ({uWidth})</th>
+                  <th className="px-4 py-2">Net Pressure ({uPress})</th>
+                  <th className="px-4 py-2">Cum. Volume ({uVol})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.stages.map((stage, idx) => (
+                  <tr key={idx} className="border-b border-slate-700 hover:bg-slate-700/50">
+                    <td className="px-4 py-2 font-mono">{stage.name}</td>
+                    <td className="px-4 py-2">{toDisplay(stage.endTime, 'time').toFixed(1)}</td>
+                    <td className="px-4 py-2">{toDisplay(stage.length, 'length').toFixed(1)}</td>
+                    <td className="px-4 py-2">{toDisplay(stage.width, 'width').toFixed(3)}</td>
+                    <td className="px-4 py-2">{toDisplay(stage.pressure, 'pressure').toFixed(0)}</td>
+                    <td className="px-4 py-2">{toDisplay(stage.volume, 'volume').toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Sensitivity Table */}
       <div className="bg-slate-800 rounded border border-slate-700 p-4">
         <h4 className="text-white font-bold mb-3">Sensitivity Analysis (Impact on Length)</h4>
@@ -216,10 +625,10 @@ export const ResultsDashboard: React.FC<Props> = ({ inputs, result, sensitivity,
               </tr>
             </thead>
             <tbody>
-              {sensitivity.filter((_, i) => i < 8).map((row, idx) => (
+              {sensitivity.map((row, idx) => (
                 <tr key={idx} className="border-b border-slate-700 hover:bg-slate-700/50">
                   <td className="px-4 py-2 font-mono">{row.parameter}</td>
-                  <td className="px-4 py-2">{row.factor}x</td>
+                  <td className="px-4 py-2">{parseFloat(row.factor.toFixed(2))}x</td>
                   <td className={`px-4 py-2 ${row.L_change > 0 ? 'text-green-400' : 'text-red-400'}`}>{row.L_change > 0 ? '+' : ''}{row.L_change.toFixed(1)}%</td>
                   <td className="px-4 py-2">{row.w_change > 0 ? '+' : ''}{row.w_change.toFixed(1)}%</td>
                   <td className="px-4 py-2">{row.p_change > 0 ? '+' : ''}{row.p_change.toFixed(1)}%</td>
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FracInputs, UnitSystem } from '../types';
+import {
+  Scenario, ScenarioData, cloneScenario, createScenario, deleteScenario, diffScenarios, listScenarios, renameScenario
+} from '../services/scenarioService';
+import { MODEL_UNITS, convertParam, getLabel, getUnitLabel, unitConverters } from '../utils/unitConversion';
+
+interface Props {
+  current: ScenarioData; // What is on screen, in its unit system
+  unitSystem: UnitSystem;
+  onLoad: (scenario: Scenario) => void;
+}
+
+export const ScenarioManager: React.FC<Props> = ({ current, unitSystem, onLoad }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [name, setName] = useState('');
+  const [editing, setEditing] = useState<{ id: string, name: string } | null>(null);
+  const [diffA, setDiffA] = useState('');
+  const [diffB, setDiffB] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setScenarios(await listScenarios());
+      setError(null);
+    } catch (e) {
+      setError(`Scenario storage unavailable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  // Wrap store calls so failures show up in the panel instead of being swallowed
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const saveCurrent = run(async () => {
+    await createScenario(name.trim() || `Scenario ${scenarios.length + 1}`, current);
+    setName('');
+  });
+
+  const commitRename = run(async () => {
+    if (!editing) return;
+    const scenario = scenarios.find(s => s.id === editing.id);
+    if (scenario && editing.name.trim()) await renameScenario(scenario, editing.name.trim());
+    setEditing(null);
+  });
+
+  const a = scenarios.find(s => s.id === diffA);
+  const b = scenarios.find(s => s.id === diffB);
+  const diff = useMemo(() => (a && b ? diffScenarios(a, b) : null), [a, b]);
+
+  const { toDisplay } = unitConverters(unitSystem);
+  const inputDisplay = (field: keyof FracInputs, val: number) => convertParam(field, val, MODEL_UNITS, unitSystem);
+  const fmt = (val: number) => (Math.abs(val) >= 1e4 || (Math.abs(val) < 1e-2 && val !== 0) ? val.toExponential(3) : val.toFixed(3));
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold text-white mb-1">Scenario Library</h2>
+        <p className="text-xs text-slate-400 mb-4">
+          Scenarios are saved in this browser (IndexedDB) with their model, unit system, schedule, rheology and layers.
+        </p>
+        <div className="flex gap-2 mb-4">
+          <input
+            className="flex-1 bg-slate-900 text-white p-2 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm"
+            placeholder="Scenario name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button onClick={saveCurrent} className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded text-sm transition">
+            Save Current
+          </button>
+        </div>
+        {error && <div className="mb-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+
+        {scenarios.length === 0 ? (
+          <div className="text-sm text-slate-500">No saved scenarios yet.</div>
+        ) : (
+          <table className="w-full text-sm text-left text-slate-300">
+            <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+              <tr>
+                <th className="px-4 py-2">Name</th>
+                <th className="px-4 py-2">Model</th>
+                <th className="px-4 py-2">Units</th>
+                <th className="px-4 py-2">Updated</th>
+                <th className="px-4 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map(s => (
+                <tr key={s.id} className="border-b border-slate-700">
+                  <td className="px-4 py-2">
+                    {editing?.id === s.id ? (
+                      <input
+                        autoFocus
+                        className="bg-slate-900 text-white p-1 rounded border border-slate-700 focus:outline-none text-sm"
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: s.id, name: e.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditing(null); }}
+                      />
+                    ) : (
+                      <span className="cursor-text" onDoubleClick={() => setEditing({ id: s.id, name: s.name })}>{s.name}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{s.model}</td>
+                  <td className="px-4 py-2">{s.unitSystem}</td>
+                  <td className="px-4 py-2 text-xs text-slate-500">{new Date(s.updatedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button onClick={() => onLoad(s)} className="text-emerald-400 hover:text-emerald-300 mr-3">Load</button>
+                    <button onClick={run(() => cloneScenario(s))} className="text-slate-300 hover:text-white mr-3">Clone</button>
+                    <button onClick={() => setEditing({ id: s.id, name: s.name })} className="text-slate-300 hover:text-white mr-3">Rename</button>
+                    <button onClick={run(() => deleteScenario(s.id))} className="text-slate-500 hover:text-red-400">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {scenarios.length >= 2 && (
+        <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+          <h3 className="text-lg font-bold text-white mb-4">Compare Scenarios</h3>
+          <div className="flex gap-2 mb-4">
+            {[{ value: diffA, set: setDiffA, label: 'A' }, { value: diffB, set: setDiffB, label: 'B' }].map(sel => (
+              <select
+                key={sel.label}
+                value={sel.value}
+                onChange={(e) => sel.set(e.target.value)}
+                className="flex-1 bg-slate-900 text-white p-2 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm"
+              >
+                <option value="">Scenario {sel.label}…</option>
+                {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            ))}
+          </div>
+
+          {diff && a && b && (
+            <div className="flex flex-col gap-4">
+              <table className="w-full text-sm text-left text-slate-300">
+                <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                  <tr>
+                    <th className="px-4 py-2">Input ({unitSystem})</th>
+                    <th className="px-4 py-2 text-right">{a.name}</th>
+                    <th className="px-4 py-2 text-right">{b.name}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.settings.map(row => (
+                    <tr key={row.label} className="border-b border-slate-700">
+                      <td className="px-4 py-2">{row.label}</td>
+                      <td className="px-4 py-2 text-right">{row.a}</td>
+                      <td className="px-4 py-2 text-right">{row.b}</td>
+                    </tr>
+                  ))}
+                  {diff.inputs.map(row => (
+                    <tr key={row.field} className="border-b border-slate-700">
+                      <td className="px-4 py-2">{row.field} <span className="text-slate-500">({getUnitLabel(row.field, unitSystem)})</span></td>
+                      <td className="px-4 py-2 text-right font-mono">{fmt(inputDisplay(row.field, row.a))}</td>
+                      <td className="px-4 py-2 text-right font-mono">{fmt(inputDisplay(row.field, row.b))}</td>
+                    </tr>
+                  ))}
+                  {diff.settings.length === 0 && diff.inputs.length === 0 && (
+                    <tr><td colSpan={3} className="px-4 py-2 text-slate-500">Inputs are identical.</td></tr>
+                  )}
+                </tbody>
+              </table>
+
+              <table className="w-full text-sm text-left text-slate-300">
+                <thead className="text-xs text-slate-400 uppercase bg-slate-900">
+                  <tr>
+                    <th className="px-4 py-2">Result</th>
+                    <th className="px-4 py-2 text-right">{a.name}</th>
+                    <th className="px-4 py-2 text-right">{b.name}</th>
+                    <th className="px-4 py-2 text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.metrics.map(m => {
+                    const show = (v: number | null) => v === null ? '—'
+                      : m.category === 'dimensionless' ? `${(v * 100).toFixed(1)} %` : `${toDisplay(v, m.category).toFixed(m.category === 'width' ? 3 : 1)} ${getLabel(m.category, unitSystem)}`;
+                    const change = m.a !== null && m.b !== null && m.a !== 0 ? ((m.b - m.a) / Math.abs(m.a)) * 100 : null;
+                    return (
+                      <tr key={m.label} className="border-b border-slate-700">
+                        <td className="px-4 py-2">{m.label}</td>
+                        <td className="px-4 py-2 text-right font-mono">{show(m.a)}</td>
+                        <td className="px-4 py-2 text-right font-mono">{show(m.b)}</td>
+                        <td className="px-4 py-2 text-right font-mono">{change !== null ? `${change > 0 ? '+' : ''}${change.toFixed(1)}%` : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FracInputs, ModelResult, PumpSchedule, ScheduleDesign, UnitSystem } from '../types';
+import { MODEL_UNITS, convertInputs, convertSchedule, getLabel, unitConverters } from '../utils/unitConversion';
+import { designSchedule, parseStageTable, stageTableCsv } from '../services/scheduleDesignService';
+
+interface Props {
+  unitSystem: UnitSystem;
+  inputs: FracInputs; // Display units
+  result: ModelResult;
+  schedule: PumpSchedule; // Display units
+  onApplySchedule: (schedule: PumpSchedule) => void; // Display units
+}
+
+export const ScheduleDesigner: React.FC<Props> = ({ unitSystem, inputs, result, schedule, onApplySchedule }) => {
+  const { toDisplay, toSI } = unitConverters(unitSystem);
+  const round = (val: number) => parseFloat(val.toPrecision(4));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Defaults from the current job: its clean volume, last rate and viscosity
+  const si = convertInputs(inputs, unitSystem, MODEL_UNITS);
+  const siSchedule = convertSchedule(schedule, unitSystem, MODEL_UNITS);
+  const pumped = siSchedule.filter(s => s.name !== 'Flush');
+  const lastStage = pumped[pumped.length - 1];
+  const [efficiency, setEfficiency] = useState<number | null>(null); // Null follows the model
+  const [volume, setVolume] = useState(() => round(toDisplay(
+    pumped.length > 0 ? pumped.reduce((sum, s) => sum + s.q * s.duration, 0) : si.q * si.time, 'volume')));
+  const [q, setQ] = useState(() => round(toDisplay(lastStage?.q ?? si.q, 'rate')));
+  const [mu, setMu] = useState(() => round(toDisplay(lastStage?.mu ?? si.mu, 'viscosity')));
+  const [cEnd, setCEnd] = useState(() => round(toDisplay(Math.max(480, ...siSchedule.map(s => s.proppant)), 'concentration')));
+  const [stages, setStages] = useState(5);
+  const [flush, setFlush] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const eff = efficiency ?? round(result.efficiency * 100);
+  const wellboreVolume = (Math.PI / 4) * si.pipe_id * si.pipe_id * si.pipe_length;
+
+  const { design, designError } = useMemo((): { design: ScheduleDesign | null, designError: string | null } => {
+    try {
+      return {
+        design: designSchedule({
+          efficiency: eff / 100,
+          volume: toSI(volume, 'volume'),
+          q: toSI(q, 'rate'),
+          mu: toSI(mu, 'viscosity'),
+          c_end: toSI(cEnd, 'concentration'),
+          stages,
+          flush: flush ? wellboreVolume : 0,
+          rho_p: si.rho_p
+        }),
+        designError: null
+      };
+    } catch (err) {
+      return { design: null, designError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [eff, volume, q, mu, cEnd, stages, flush, wellboreVolume, si.rho_p, unitSystem]);
+
+  const apply = () => {
+    if (!design) return;
+    onApplySchedule(convertSchedule(design.stages.map(({ name, q, mu, duration, proppant }) => ({ name, q, mu, duration, proppant })), MODEL_UNITS, unitSystem));
+  };
+
+  const exportCsv = () => {
+    if (!design) return;
+    const blob = new Blob([stageTableCsv(design.stages, unitSystem)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `pump_schedule_${unitSystem.toLowerCase()}.csv`;
+    a.click();
+  };
+
+  const importCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const imported = parseStageTable(reader.result as string, unitSystem, toSI(mu, 'viscosity'));
+        onApplySchedule(convertSchedule(imported, MODEL_UNITS, unitSystem));
+        setError(null);
+      } catch (err) {
+        setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = ''; // Allow importing the same file again
+  };
+
+  const uVol = getLabel('volume', unitSystem);
+  const uConc = getLabel('concentration', unitSystem);
+  const uRate = getLabel('rate', unitSystem);
+  const uTime = getLabel('time', unitSystem);
+  const uMass = getLabel('mass', unitSystem);
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-xs font-mono w-20 text-right';
+  const field = (label: string, value: number, set: (v: number) => void, unit: string) => (
+    <label className="flex items-center gap-2 text-xs text-slate-400">
+      {label}
+      <input type="number" step="any" min="0" value={value} onChange={(e) => set(parseFloat(e.target.value))} className={inputClass} />
+      {unit}
+    </label>
+  );
+
+  return (
+    <div className="mb-4 p-4 rounded border border-slate-700 bg-slate-900/50 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h3 className="font-bold text-white">Pad and Proppant Ramp Design</h3>
+          <p className="text-xs text-slate-400">
+            Nolte pad fraction (1 - η) / (1 + η) from the fluid efficiency, then proppant stages stepping up the ramp
+            c_end · (V / V_slurry)^ε with ε equal to the pad fraction. The last stage pumps the end concentration.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+            Import Stage Table
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={importCsv} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Efficiency
+          <input type="number" step="any" min="0" max="100" value={eff} onChange={(e) => setEfficiency(parseFloat(e.target.value))} className={inputClass} />
+          %
+          {efficiency !== null && (
+            <button onClick={() => setEfficiency(null)} className="text-blue-400 hover:text-blue-300">model {(result.efficiency * 100).toFixed(1)}%</button>
+          )}
+        </label>
+        {field('Clean Volume', volume, setVolume, uVol)}
+        {field('Rate', q, setQ, uRate)}
+        {field('Viscosity', mu, setMu, getLabel('viscosity', unitSystem))}
+        {field('End Concentration', cEnd, setCEnd, uConc)}
+        {field('Proppant Stages', stages, setStages, '')}
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input type="checkbox" checked={flush} onChange={(e) => setFlush(e.target.checked)} />
+          Flush wellbore ({toDisplay(wellboreVolume, 'volume').toFixed(1)} {uVol})
+        </label>
+      </div>
+
+      {design && (
+        <>
+          <div className="flex flex-wrap gap-6 mb-3 text-xs text-slate-400">
+            <span>Pad fraction <span className="font-mono text-white">{(design.pad_fraction * 100).toFixed(1)}%</span></span>
+            <span>Ramp exponent <span className="font-mono text-white">{design.ramp_exponent.toFixed(3)}</span></span>
+            <span>Proppant <span className="font-mono text-white">{toDisplay(design.mass_total, 'mass').toFixed(0)} {uMass}</span></span>
+            <span>Job time <span className="font-mono text-white">{toDisplay(design.stages.reduce((s, st) => s + st.duration, 0), 'time').toFixed(1)} {uTime}</span></span>
+          </div>
+          <table className="w-full text-xs text-left text-slate-300 mb-3">
+            <thead className="text-slate-500 uppercase bg-slate-900">
+              <tr>
+                <th className="px-2 py-1">Stage</th>
+                <th className="px-2 py-1 text-right">Rate ({uRate})</th>
+                <th className="px-2 py-1 text-right">Duration ({uTime})</th>
+                <th className="px-2 py-1 text-right">Proppant ({uConc})</th>
+                <th className="px-2 py-1 text-right">Clean ({uVol})</th>
+                <th className="px-2 py-1 text-right">Slurry ({uVol})</th>
+                <th className="px-2 py-1 text-right">Mass ({uMass})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {design.stages.map((s, i) => (
+                <tr key={i} className="border-b border-slate-800 font-mono">
+                  <td className="px-2 py-1 font-sans">{s.name}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.q, 'rate').toFixed(3)}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.duration, 'time').toFixed(2)}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.proppant, 'concentration').toFixed(2)}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.clean_volume, 'volume').toFixed(1)}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.slurry_volume, 'volume').toFixed(1)}</td>
+                  <td className="px-2 py-1 text-right">{toDisplay(s.mass, 'mass').toFixed(0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {design.warnings.length > 0 && (
+            <div className="mb-3 p-2 bg-orange-900/20 border border-orange-700/50 rounded text-xs text-orange-200">
+              {design.warnings.map((w, i) => <div key={i}>⚠ {w}</div>)}
+            </div>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button onClick={exportCsv} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Export CSV
+            </button>
+            <button onClick={apply} className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded text-sm transition">
+              Use as Pump Schedule
+            </button>
+          </div>
+        </>
+      )}
+      {(designError || error) && <div className="mt-2 p-2 bg-red-900/20 border border-red-700/50 rounded text-xs text-red-200">{error ?? designError}</div>}
+    </div>
+  );
+};
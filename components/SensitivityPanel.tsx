@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FormationLayer, FracInputs, ModelType, PermeabilityPoint, PumpSchedule, RheologyType, SensitivityData, SensitivityRange, ThermalOptions, UnitSystem } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { MODEL_UNITS, convertInputs, convertLayers, convertParam, convertPermeabilityCurve, convertSchedule, convertThermal, getUnitLabel } from '../utils/unitConversion';
+import { SensitivityOutput, fullSensitivityRanges, tornadoBars } from '../services/sensitivityService';
+import type { SensitivityMessage, SensitivityRequest } from '../services/sensitivity.worker';
+
+interface Props {
+  active: boolean; // Only recompute while on screen
+  model: ModelType;
+  inputs: FracInputs; // Display units
+  unitSystem: UnitSystem;
+  schedule: PumpSchedule; // Display units
+  rheology: RheologyType;
+  layers: FormationLayer[]; // Display units
+  thermal: ThermalOptions | null; // Display units
+  packPermeability: PermeabilityPoint[] | null; // Display units
+}
+
+const OUTPUTS: { key: SensitivityOutput, label: string }[] = [
+  { key: 'L_change', label: 'Length' },
+  { key: 'w_change', label: 'Avg Width' },
+  { key: 'p_change', label: 'Net Pressure' },
+  { key: 'eff_change', label: 'Efficiency' }
+];
+
+// Swings below this (in %) are left off the chart
+const MIN_SWING = 0.05;
+
+export const SensitivityPanel: React.FC<Props> = ({ active, model, inputs, unitSystem, schedule, rheology, layers, thermal, packPermeability }) => {
+  const [ranges, setRanges] = useState<SensitivityRange[]>(() => fullSensitivityRanges(inputs));
+  const [output, setOutput] = useState<SensitivityOutput>('L_change');
+  const [rows, setRows] = useState<SensitivityData[]>([]);
+  const [siInputs, setSiInputs] = useState<FracInputs | null>(null);
+  const [computing, setComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ranges follow the inputs: a unit change converts them, and an input that
+  // takes a new value (edit, scenario load, record import) gets the default
+  // ±20% around it. Ranges of unchanged inputs keep the user's edits.
+  const basis = useRef({ inputs, unitSystem });
+  useEffect(() => {
+    const prev = basis.current;
+    if (prev.inputs === inputs && prev.unitSystem === unitSystem) return;
+    basis.current = { inputs, unitSystem };
+    const defaults = fullSensitivityRanges(inputs);
+    const convert = (r: SensitivityRange, v: number) => convertParam(r.parameter, v, prev.unitSystem, unitSystem);
+    setRanges(rs => rs.map(r => {
+      const was = convert(r, prev.inputs[r.parameter]);
+      const now = inputs[r.parameter];
+      return Math.abs(was - now) <= 1e-9 * Math.max(Math.abs(was), Math.abs(now))
+        ? { ...r, low: convert(r, r.low), high: convert(r, r.high) }
+        : defaults.find(d => d.parameter === r.parameter) ?? r;
+    }));
+  }, [inputs, unitSystem]);
+
+  const workerRef = useRef<Worker | null>(null);
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setComputing(false);
+  };
+
+  // Debounced so editing a range does not re-run every input on each
+  // keystroke; a change mid-run drops the running worker for a new one
+  useEffect(() => {
+    if (!active) return;
+    const timer = setTimeout(() => {
+      const si = convertInputs(inputs, unitSystem, MODEL_UNITS);
+      const request: SensitivityRequest = {
+        type: model,
+        inputs: si,
+        options: {
+          schedule: convertSchedule(schedule, unitSystem, MODEL_UNITS),
+          rheology,
+          layers: convertLayers(layers, unitSystem, MODEL_UNITS),
+          thermal: thermal ? convertThermal(thermal, unitSystem, MODEL_UNITS) : undefined,
+          packPermeability: packPermeability ? convertPermeabilityCurve(packPermeability, unitSystem, MODEL_UNITS) : undefined
+        },
+        ranges: ranges.filter(r => Number.isFinite(r.low) && Number.isFinite(r.high)).map(r => ({
+          parameter: r.parameter,
+          low: convertParam(r.parameter, r.low, unitSystem, MODEL_UNITS),
+          high: convertParam(r.parameter, r.high, unitSystem, MODEL_UNITS)
+        }))
+      };
+      const worker = new Worker(new URL('../services/sensitivity.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SensitivityMessage>) => {
+        const msg = e.data;
+        if (msg.kind === 'done') {
+          setRows(msg.rows);
+          setSiInputs(si);
+          setError(null);
+        } else {
+          setError(msg.message);
+        }
+        stop();
+      };
+      worker.onerror = (e) => {
+        setError(e.message || 'Sensitivity worker failed.');
+        stop();
+      };
+      workerRef.current = worker;
+      setComputing(true);
+      worker.postMessage(request);
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      stop();
+    };
+  }, [active, model, inputs, unitSystem, schedule, rheology, layers, thermal, packPermeability, ranges]);
+
+  const updateRange = (i: number, patch: Partial<SensitivityRange>) =>
+    setRanges(ranges.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const bars = siInputs ? tornadoBars(rows, siInputs, output) : [];
+  const elasticities = Object.fromEntries(OUTPUTS.map(o => [
+    o.key,
+    new Map(siInputs ? tornadoBars(rows, siInputs, o.key).map(b => [b.parameter, b.elasticity]) : [])
+  ])) as Record<SensitivityOutput, Map<string, number | null>>;
+  const chartData = bars
+    .filter(b => b.swing >= MIN_SWING)
+    .map(b => ({ parameter: b.parameter, Low: parseFloat(b.low.toFixed(2)), High: parseFloat(b.high.toFixed(2)) }));
+  // Table follows the tornado ranking, then inputs that were not varied
+  const order = [...bars.map(b => b.parameter), ...ranges.map(r => r.parameter).filter(p => !bars.some(b => b.parameter === p))];
+  const rangeIndex = (p: string) => ranges.findIndex(r => r.parameter === p);
+
+  const inputClass = 'bg-slate-900 text-emerald-400 p-1 rounded border border-slate-700 focus:border-emerald-500 focus:outline-none text-sm font-mono w-24 text-right';
+
+  return (
+    <div className="flex flex-col gap-6 p-4 h-full overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 shadow-xl">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Sensitivity Tornado ({model})</h2>
+            <p className="text-xs text-slate-400">
+              Each input is run at its low and high value with all others at the Engineering Model values.
+              Elasticity is the % change in the output per % change in the input across the range.
+            </p>
+          </div>
+          <div className="flex gap-2 items-center">
+            {computing && <span className="text-xs text-slate-400">Computing…</span>}
+            <button onClick={() => setRanges(fullSensitivityRanges(inputs))} className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded text-sm transition">
+              Reset to ±20%
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="mb-4 p-3 bg-red-900/20 border border-red-700/50 rounded text-sm text-red-200">{error}</div>}
+
+        <div className="flex gap-2 mb-4">
+          {OUTPUTS.map(o => (
+            <button
+              key={o.key}
+              onClick={() => setOutput(o.key)}
+              className={`px-3 py-1 rounded text-sm transition ${output === o.key ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ height: Math.max(160, chartData.length * 28 + 60) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" barGap={2} barSize={10}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis type="number" stroke="#94a3b8" fontSize={12} unit="%" />
+              <YAxis type="category" dataKey="parameter" stroke="#94a3b8" fontSize={12} width={110} />
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }} />
+              <Legend />
+              <ReferenceLine x={0} stroke="#94a3b8" />
+              <Bar dataKey="Low" fill="#ef4444" />
+              <Bar dataKey="High" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 rounded border border-slate-700 p-4">
+        <h4 className="text-white font-bold mb-3">Ranges and Elasticities</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-300">
+            <thead className="text-xs text-slate-400 uppercase bg-slate-700">
+              <tr>
+                <th className="px-3 py-2">Parameter</th>
+                <th className="px-3 py-2 text-right">Low</th>
+                <th className="px-3 py-2 text-right">Current</th>
+                <th className="px-3 py-2 text-right">High</th>
+                <th className="px-3 py-2">Unit</th>
+                {OUTPUTS.map(o => <th key={o.key} className="px-3 py-2 text-right">ε {o.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {order.map(p => {
+                const i = rangeIndex(p);
+                const r = ranges[i];
+                if (!r) return null;
+                const current = inputs[r.parameter];
+                const outside = current < Math.min(r.low, r.high) || current > Math.max(r.low, r.high);
+                return (
+                  <tr key={p} className="border-b border-slate-700 hover:bg-slate-700/50">
+                    <td className="px-3 py-1 font-mono">{p}</td>
+                    <td className="px-3 py-1 text-right">
+                      <input type="number" step="any" value={r.low} className={inputClass} onChange={(e) => updateRange(i, { low: parseFloat(e.target.value) })} />
+                    </td>
+                    <td className={`px-3 py-1 text-right font-mono ${outside ? 'text-orange-400' : 'text-slate-400'}`} title={outside ? 'Current value is outside the range' : undefined}>{current}</td>
+                    <td className="px-3 py-1 text-right">
+                      <input type="number" step="any" value={r.high} className={inputClass} onChange={(e) => updateRange(i, { high: parseFloat(e.target.value) })} />
+                    </td>
+                    <td className="px-3 py-1 text-xs text-slate-500">{getUnitLabel(r.parameter, unitSystem)}</td>
+                    {OUTPUTS.map(o => {
+                      const e = elasticities[o.key].get(p);
+                      return (
+                        <td key={o.key} className={`px-3 py-1 text-right font-mono ${o.key === output ? 'text-white' : ''}`}>
+                          {e === undefined || e === null || !Number.isFinite(e) ? '—' : e.toFixed(2)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
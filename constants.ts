@@ -1,17 +1,131 @@
-import { FracInputs } from "./types";
+import { FluidCatalogEntry, FluidSystem, FormationLayer, FracInputs, PermeabilityPoint, ProppantCatalogEntry, ReservoirInputs, RheologyType, ThermalOptions } from "./types";
 
 export const INITIAL_INPUTS: FracInputs = {
   E: 30e9, // 30 GPa
   nu: 0.25,
   sigma_min: 40e6, // 40 MPa
   CL: 5e-5, // m/s^0.5
+  Sp: 1e-4, // m3/m2 (0.25 gal/100ft2)
   mu: 0.1, // 100 cp
   q: 0.05, // 50 L/s approx
   H: 30, // 30 m
   K_IC: 1e6, // 1 MPa.m^0.5
   time: 1800, // 30 mins
   p_limit: 70e6, // 70 MPa
-  depth: 2500 // 2500 m
+  depth: 2500, // 2500 m
+  t_shutin: 3600, // 60 mins falloff
+  rho_f: 1000, // Water-based fluid
+  rho_p: 2650, // Quartz sand
+  d_p: 0.0006, // 20/40 mesh
+  phi_pack: 0.35,
+  n_prime: 0.5, // Crosslinked gel
+  K_prime: 1.5, // Pa.s^n
+  tau_y: 0, // Pa
+  pipe_id: 0.1016, // 4 in casing ID
+  pipe_length: 4000, // m measured depth
+  friction_reduction: 0.7,
+  n_perfs: 40,
+  perf_diameter: 0.0095, // 0.375 in
+  perf_cd: 0.8
+};
+
+// Pay zone at the perforations bounded by higher-stress shales
+export const INITIAL_LAYERS: FormationLayer[] = [
+  { name: 'Upper Shale', top: 2400, stress: 46e6, E: 25e9, K_IC: 2e6, CL: 1e-5 },
+  { name: 'Pay', top: 2485, stress: 40e6, E: 30e9, K_IC: 1e6, CL: 5e-5 },
+  { name: 'Lower Shale', top: 2515, stress: 47e6, E: 25e9, K_IC: 2e6, CL: 1e-5 }
+];
+
+// Typical fluid behaviour (SI: °C and s). Temperature factors are relative to
+// 20 °C; degradation is the viscosity retained after time at temperature.
+export const FLUID_LIBRARY: FluidSystem[] = [
+  {
+    name: 'Slickwater',
+    temperature: [{ x: 20, factor: 1 }, { x: 50, factor: 0.55 }, { x: 80, factor: 0.36 }, { x: 120, factor: 0.23 }, { x: 150, factor: 0.18 }],
+    degradation: [{ x: 0, factor: 1 }]
+  },
+  {
+    name: 'Linear Guar (20 ppt)',
+    temperature: [{ x: 20, factor: 1 }, { x: 50, factor: 0.55 }, { x: 80, factor: 0.3 }, { x: 120, factor: 0.15 }],
+    degradation: [{ x: 0, factor: 1 }, { x: 3600, factor: 0.9 }, { x: 7200, factor: 0.75 }]
+  },
+  {
+    name: 'Borate Crosslinked Guar (30 ppt)',
+    temperature: [{ x: 20, factor: 1 }, { x: 60, factor: 0.8 }, { x: 90, factor: 0.45 }, { x: 110, factor: 0.2 }, { x: 130, factor: 0.08 }],
+    degradation: [{ x: 0, factor: 1 }, { x: 1800, factor: 0.85 }, { x: 3600, factor: 0.6 }, { x: 7200, factor: 0.3 }, { x: 14400, factor: 0.1 }]
+  },
+  {
+    name: 'Zirconate Crosslinked CMHPG',
+    temperature: [{ x: 20, factor: 1 }, { x: 90, factor: 0.9 }, { x: 120, factor: 0.7 }, { x: 150, factor: 0.4 }, { x: 175, factor: 0.2 }],
+    degradation: [{ x: 0, factor: 1 }, { x: 3600, factor: 0.9 }, { x: 7200, factor: 0.7 }, { x: 14400, factor: 0.4 }]
+  }
+];
+
+// Built-in fluid catalog (SI). Apparent viscosity is at 170 1/s, used for the
+// pump schedule and Newtonian runs. Entries can be overridden in the catalog.
+export const FLUID_CATALOG: FluidCatalogEntry[] = [
+  { ...FLUID_LIBRARY[0], id: 'slickwater', rheology: RheologyType.NEWTONIAN, rho_f: 1000, mu: 0.003, n_prime: 1, K_prime: 0.003, tau_y: 0 },
+  { ...FLUID_LIBRARY[1], id: 'linear-guar-20', rheology: RheologyType.POWER_LAW, rho_f: 1005, mu: 0.025, n_prime: 0.55, K_prime: 0.25, tau_y: 0 },
+  { ...FLUID_LIBRARY[2], id: 'borate-guar-30', rheology: RheologyType.POWER_LAW, rho_f: 1020, mu: 0.18, n_prime: 0.45, K_prime: 3, tau_y: 0 },
+  { ...FLUID_LIBRARY[3], id: 'zirconate-cmhpg', rheology: RheologyType.POWER_LAW, rho_f: 1020, mu: 0.3, n_prime: 0.5, K_prime: 4, tau_y: 0 }
+];
+
+// Conductivity-cell data is quoted in psi and darcy
+const packCurve = (points: [number, number][]): PermeabilityPoint[] =>
+  points.map(([psi, darcy]) => ({ stress: psi * 6894.76, permeability: darcy * 9.869233e-13 }));
+
+// Built-in proppant catalog (SI), typical API RP 19D pack permeability at 2 lb/ft2
+export const PROPPANT_CATALOG: ProppantCatalogEntry[] = [
+  {
+    id: 'sand-20-40', name: 'Northern White Sand 20/40', specific_gravity: 2.65, d_p: 0.0006, phi_pack: 0.35,
+    permeability: packCurve([[2000, 250], [4000, 180], [6000, 100], [8000, 45], [10000, 20]])
+  },
+  {
+    id: 'sand-30-50', name: 'Northern White Sand 30/50', specific_gravity: 2.65, d_p: 0.00045, phi_pack: 0.35,
+    permeability: packCurve([[2000, 150], [4000, 110], [6000, 65], [8000, 30], [10000, 15]])
+  },
+  {
+    id: 'sand-40-70', name: 'Regional Sand 40/70', specific_gravity: 2.65, d_p: 0.0003, phi_pack: 0.36,
+    permeability: packCurve([[2000, 80], [4000, 60], [6000, 40], [8000, 20], [10000, 10]])
+  },
+  {
+    id: 'sand-100', name: 'Sand 100 Mesh', specific_gravity: 2.65, d_p: 0.00015, phi_pack: 0.37,
+    permeability: packCurve([[2000, 20], [4000, 14], [6000, 8], [8000, 4], [10000, 2]])
+  },
+  {
+    id: 'lwc-20-40', name: 'Lightweight Ceramic 20/40', specific_gravity: 2.72, d_p: 0.00065, phi_pack: 0.38,
+    permeability: packCurve([[2000, 400], [4000, 350], [6000, 290], [8000, 220], [10000, 160], [12000, 110]])
+  },
+  {
+    id: 'isp-20-40', name: 'Intermediate-Strength Ceramic 20/40', specific_gravity: 3.27, d_p: 0.00065, phi_pack: 0.38,
+    permeability: packCurve([[2000, 450], [6000, 380], [10000, 300], [12000, 240], [14000, 180]])
+  }
+];
+
+// Applied when fluid temperature effects are switched on (SI)
+export const INITIAL_THERMAL: ThermalOptions = {
+  fluid: FLUID_LIBRARY[2],
+  T_inj: 25, // °C at the perforations
+  T_bh: 90, // °C
+  heatup: 300 // s
+};
+
+// Tight oil drainage area around the well (base SI, converted to display
+// units by the app)
+export const INITIAL_RESERVOIR: ReservoirInputs = {
+  fluid: 'oil',
+  k: 0.1 * 9.869233e-16, // 0.1 mD
+  h: 30, // m, same as the pay
+  phi: 0.1,
+  p_res: 30e6, // 30 MPa
+  p_wf: 10e6, // 10 MPa
+  area: 160 * 4046.86, // 160 acres
+  rw: 0.1, // m
+  mu: 0.001, // 1 cp oil
+  B: 1.2,
+  z: 0.9,
+  T: 90, // °C
+  ct: 1.5e-9 // 1/Pa (1e-5 1/psi)
 };
 
 export const MODEL_NAMES = {
@@ -0,0 +1,91 @@
+import { FluidCatalogEntry, FracInputs, ProppantCatalogEntry, RheologyType, UnitSystem, ViscosityCurvePoint } from "../types";
+import { FLUID_CATALOG, PROPPANT_CATALOG } from "../constants";
+import { MODEL_UNITS, convertParam } from "../utils/unitConversion";
+import { STORES, StoreName, newId, withStore } from "./storageService";
+
+const WATER_DENSITY = 1000; // kg/m3, reference for specific gravity
+
+// The catalog is the built-in entries with the user's edits and additions on
+// top, stored in base SI. An edited built-in keeps its id, so deleting the edit
+// brings the original back.
+const listEntries = async <T extends { id: string, name: string }>(store: StoreName, builtIn: T[]): Promise<T[]> => {
+  const stored = await withStore<T[]>(store, 'readonly', s => s.getAll());
+  const edits = new Map(stored.map(e => [e.id, e]));
+  const added = stored
+    .filter(e => !builtIn.some(b => b.id === e.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...builtIn.map(b => edits.get(b.id) ?? b), ...added];
+};
+
+export const isBuiltIn = (id: string): boolean =>
+  FLUID_CATALOG.some(f => f.id === id) || PROPPANT_CATALOG.some(p => p.id === id);
+
+const validCurve = (curve: ViscosityCurvePoint[]) =>
+  curve.length > 0 && curve.every(p => Number.isFinite(p.x) && p.factor > 0);
+
+// Checks hold in either unit system; run before an entry is stored or taken from a record
+export const validateFluid = (f: FluidCatalogEntry): void => {
+  if (!f.name.trim()) throw new Error('The fluid needs a name.');
+  if (!Object.values(RheologyType).includes(f.rheology)) throw new Error(`Unknown rheology "${f.rheology}".`);
+  if (!(f.rho_f > 0) || !(f.mu > 0)) throw new Error('Fluid density and viscosity must be positive.');
+  if (!(f.n_prime > 0 && f.n_prime <= 2) || !(f.K_prime > 0) || !(f.tau_y >= 0)) {
+    throw new Error("n' must be between 0 and 2, K' positive and the yield stress not negative.");
+  }
+  if (!validCurve(f.temperature) || !validCurve(f.degradation)) {
+    throw new Error('Temperature and breakdown curves need at least one point with a positive factor.');
+  }
+};
+
+export const validateProppant = (p: ProppantCatalogEntry): void => {
+  if (!p.name.trim()) throw new Error('The proppant needs a name.');
+  if (!(p.specific_gravity > 1) || !(p.d_p > 0)) throw new Error('Specific gravity must exceed 1 and the grain diameter be positive.');
+  if (!(p.phi_pack > 0 && p.phi_pack < 1)) throw new Error('Pack porosity must be between 0 and 1.');
+  if (p.permeability.length === 0 || !p.permeability.every(pt => pt.stress >= 0 && pt.permeability > 0)) {
+    throw new Error('The permeability curve needs at least one point, with positive permeability.');
+  }
+};
+
+export const listFluids = (): Promise<FluidCatalogEntry[]> => listEntries(STORES.fluids, FLUID_CATALOG);
+
+export const listProppants = (): Promise<ProppantCatalogEntry[]> => listEntries(STORES.proppants, PROPPANT_CATALOG);
+
+// Saving an entry without an id adds it to the catalog
+export const saveFluid = async (fluid: FluidCatalogEntry): Promise<FluidCatalogEntry> => {
+  validateFluid(fluid);
+  const saved = { ...fluid, id: fluid.id || newId() };
+  await withStore(STORES.fluids, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const saveProppant = async (proppant: ProppantCatalogEntry): Promise<ProppantCatalogEntry> => {
+  validateProppant(proppant);
+  const saved = { ...proppant, id: proppant.id || newId() };
+  await withStore(STORES.proppants, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteFluid = async (id: string): Promise<void> => {
+  await withStore(STORES.fluids, 'readwrite', store => store.delete(id));
+};
+
+export const deleteProppant = async (id: string): Promise<void> => {
+  await withStore(STORES.proppants, 'readwrite', store => store.delete(id));
+};
+
+// FracInputs fields a catalog entry fills, in the entry's unit system
+export const fluidInputs = (f: FluidCatalogEntry): Pick<FracInputs, 'rho_f' | 'mu' | 'n_prime' | 'K_prime' | 'tau_y'> =>
+  ({ rho_f: f.rho_f, mu: f.mu, n_prime: f.n_prime, K_prime: f.K_prime, tau_y: f.tau_y });
+
+export const proppantInputs = (p: ProppantCatalogEntry, system: UnitSystem): Pick<FracInputs, 'rho_p' | 'd_p' | 'phi_pack'> => ({
+  rho_p: convertParam('rho_p', p.specific_gravity * WATER_DENSITY, MODEL_UNITS, system),
+  d_p: p.d_p,
+  phi_pack: p.phi_pack
+});
+
+// True once any field the entry filled has been edited away from it
+export const differsFrom = (inputs: FracInputs, filled: Partial<FracInputs>): boolean =>
+  (Object.keys(filled) as (keyof FracInputs)[]).some(key => {
+    const a = inputs[key];
+    const b = filled[key]!;
+    return Math.abs(a - b) > 1e-6 * Math.max(Math.abs(a), Math.abs(b));
+  });
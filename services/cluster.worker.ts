@@ -0,0 +1,30 @@
+import { ClusterDesign, FracInputs, ModelType, MultiClusterResult, SimulationOptions } from "../types";
+import { runMultiCluster } from "./clusterService";
+
+// Messages exchanged with the multi-cluster worker; everything is SI
+export interface ClusterRequest {
+  type: ModelType;
+  inputs: FracInputs;
+  options: SimulationOptions;
+  design: ClusterDesign;
+}
+
+export type ClusterMessage =
+  | { kind: 'progress', iteration: number, change: number }
+  | { kind: 'done', result: MultiClusterResult }
+  | { kind: 'error', message: string };
+
+const post = (message: ClusterMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<ClusterRequest>) => {
+  const req = e.data;
+  try {
+    const result = runMultiCluster(
+      req.type, req.inputs, req.options, req.design,
+      (iteration, change) => post({ kind: 'progress', iteration, change })
+    );
+    post({ kind: 'done', result });
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
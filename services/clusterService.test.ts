@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { shadowFactor } from './clusterService';
+
+describe('shadowFactor', () => {
+  it('carries the full net pressure at the crack face', () => {
+    expect(shadowFactor(0, 10)).toBe(1);
+  });
+
+  it('is zero for a crack of no height', () => {
+    expect(shadowFactor(5, 0)).toBe(0);
+  });
+
+  it('matches Sneddon at one half-height', () => {
+    expect(shadowFactor(10, 10)).toBeCloseTo(1 - Math.pow(2, -1.5), 12);
+  });
+
+  it('decays monotonically as 1.5 (c/d)^2 far from the crack', () => {
+    const values = [0, 2, 5, 10, 20, 50].map(d => shadowFactor(d, 10));
+    values.slice(1).forEach((v, i) => expect(v).toBeLessThan(values[i]));
+    expect(shadowFactor(1000, 10) / (1.5 * Math.pow(10 / 1000, 2))).toBeCloseTo(1, 3);
+  });
+});
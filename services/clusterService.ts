@@ -0,0 +1,149 @@
+import {
+  ClusterDesign, ClusterResult, FracInputs, ModelResult, ModelType, MultiClusterResult, RheologyType, SimulationOptions
+} from "../types";
+import { getSchedule, runModel } from "./fractureService";
+import { hydrostaticPressure, perforationFriction, pipeFriction } from "./wellboreService";
+
+const MAX_ITERATIONS = 30;
+const TOLERANCE = 1e-3; // On the rate fractions
+const DAMPING = 0.5; // Share of the new flow split taken each iteration
+const MIN_FRACTION = 1e-3; // Starved clusters are still modelled at a trickle
+const NET_PRESSURE_EXPONENT = 0.25; // p_net ~ q^(1/4) (Nordgren) for the split between model runs
+
+// Normal stress ahead of a pressurized 2D crack of half-height c, along the
+// normal through its centre, as a fraction of the net pressure (Sneddon, 1946)
+export const shadowFactor = (distance: number, c: number): number => {
+  if (!(c > 0)) return 0;
+  const xi = distance / c;
+  return 1 - Math.pow(xi, 3) / Math.pow(1 + xi * xi, 1.5);
+};
+
+// The smaller fracture dimension governs how far the shadow reaches
+const shadowHalfHeight = (res: ModelResult) => 0.5 * Math.min(res.height, 2 * res.length);
+
+// Largest q in [0, hi] with f(q) <= target, for f increasing
+const invert = (f: (q: number) => number, target: number, hi: number): number => {
+  if (f(0) >= target) return 0;
+  let lo = 0;
+  while (f(hi) < target) hi *= 2;
+  for (let k = 0; k < 60; k++) {
+    const mid = 0.5 * (lo + hi);
+    if (f(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return 0.5 * (lo + hi);
+};
+
+// Split the stage rate between perforation clusters that share one wellbore
+// pressure: p_w = sigma + shadow_i + p_net,i(q_i) + perf friction(q_i).
+// Each cluster is its own single-fracture model; the shadow each fracture
+// casts on the others comes from its end-of-pumping net pressure and height.
+// The split and the models are iterated to a fixed point.
+export const runMultiCluster = (
+  type: ModelType,
+  inputs: FracInputs,
+  options: SimulationOptions,
+  design: ClusterDesign,
+  onProgress?: (iteration: number, change: number) => void
+): MultiClusterResult => {
+  const n = design.perfs.length;
+  if (n === 0) throw new Error('Add at least one cluster.');
+  if (!(design.spacing > 0) && n > 1) throw new Error('Cluster spacing must be positive.');
+  if (design.perfs.every(p => p <= 0)) throw new Error('At least one cluster needs perforations.');
+
+  const rheology = options.rheology ?? RheologyType.NEWTONIAN;
+  const base = getSchedule(inputs, options);
+  const last = base[base.length - 1]; // The split is solved for the end-of-pumping state
+  const q_stage = last.q;
+  const positions = design.perfs.map((_, i) => i * design.spacing);
+  const perfCoefficient = design.perfs.map(np =>
+    perforationFriction(1, inputs.rho_f, np, inputs.perf_diameter, inputs.perf_cd));
+
+  const simulate = (fraction: number, np: number, shadow: number): ModelResult => {
+    const f = Math.max(fraction, MIN_FRACTION);
+    return runModel(type, { ...inputs, q: inputs.q * f, sigma_min: inputs.sigma_min + shadow, n_perfs: np }, {
+      ...options,
+      schedule: options.schedule?.map(s => ({ ...s, q: s.q * f })),
+      layers: options.layers?.map(l => ({ ...l, stress: l.stress + shadow }))
+    });
+  };
+
+  const open = design.perfs.filter(p => p > 0).length;
+  let fractions = design.perfs.map(p => (p > 0 ? 1 / open : 0));
+  let shadows = new Array(n).fill(0);
+  let results = fractions.map((f, i) => simulate(f, design.perfs[i], 0));
+  let p_w = 0;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < MAX_ITERATIONS && !converged) {
+    iterations++;
+    shadows = positions.map((x, i) => results.reduce((sum, r, j) =>
+      (j === i || fractions[j] <= 0 ? sum : sum + r.p_net * shadowFactor(Math.abs(x - positions[j]), shadowHalfHeight(r))), 0));
+
+    // Cluster pressure at rate q, with net pressure scaled from its last model run
+    const clusterPressure = (i: number) => {
+      const q_prev = Math.max(fractions[i], MIN_FRACTION) * q_stage;
+      const p_prev = results[i].p_net;
+      return (q: number) => inputs.sigma_min + shadows[i]
+        + p_prev * Math.pow(Math.max(q, 0) / q_prev, NET_PRESSURE_EXPONENT) + perfCoefficient[i] * q * q;
+    };
+    const pressures = design.perfs.map((np, i) => (np > 0 ? clusterPressure(i) : null));
+    const rateAt = (pw: number) => pressures.map(P => (P ? invert(P, pw, q_stage) : 0));
+    const totalAt = (pw: number) => rateAt(pw).reduce((s, q) => s + q, 0);
+
+    let lo = Math.min(...pressures.filter((P): P is (q: number) => number => P !== null).map(P => P(0)));
+    let hi = lo + 1e5;
+    while (totalAt(hi) < q_stage) hi += 2 * (hi - lo);
+    for (let k = 0; k < 60; k++) {
+      const mid = 0.5 * (lo + hi);
+      if (totalAt(mid) < q_stage) lo = mid;
+      else hi = mid;
+    }
+    p_w = 0.5 * (lo + hi);
+    const solved = rateAt(p_w).map(q => q / q_stage);
+    const next = fractions.map((f, i) => f + DAMPING * (solved[i] - f));
+    const change = Math.max(...next.map((f, i) => Math.abs(f - fractions[i])));
+    converged = change < TOLERANCE;
+    fractions = next.map(f => f / next.reduce((s, v) => s + v, 0));
+    results = fractions.map((f, i) => simulate(f, design.perfs[i], shadows[i]));
+    onProgress?.(iterations, change);
+  }
+
+  const clusters: ClusterResult[] = results.map((result, i) => ({
+    index: i,
+    position: positions[i],
+    n_perfs: design.perfs[i],
+    q: fractions[i] * q_stage,
+    fraction: fractions[i],
+    stress_shadow: shadows[i],
+    perf_friction: perfCoefficient[i] * Math.pow(fractions[i] * q_stage, 2),
+    result
+  }));
+
+  const mean = 1 / n;
+  const rate_cv = Math.sqrt(fractions.reduce((s, f) => s + (f - mean) ** 2, 0) / n) / mean;
+  const warnings: string[] = [];
+  clusters.forEach(c => {
+    if (c.n_perfs > 0 && c.fraction < 0.5 * mean) {
+      warnings.push(`Cluster ${c.index + 1} takes ${(c.fraction / mean * 100).toFixed(0)}% of the average cluster rate.`);
+    }
+  });
+  // Limited entry works when perforation friction at an even split outweighs the shadow contrast
+  const shadowSpread = Math.max(...shadows) - Math.min(...shadows);
+  const perfEven = Math.min(...perfCoefficient.filter((_, i) => design.perfs[i] > 0)) * (q_stage / open) ** 2;
+  if (n > 1 && shadowSpread > perfEven) {
+    warnings.push('Stress shadow differences exceed the perforation friction: spacing controls the flow split. Widen the spacing or use fewer perforations per cluster (limited entry).');
+  }
+  if (!converged) warnings.push(`Flow split did not settle within ${MAX_ITERATIONS} iterations.`);
+
+  return {
+    clusters,
+    p_wellbore: p_w,
+    p_surface: p_w - hydrostaticPressure(inputs.rho_f, inputs.depth) + pipeFriction(q_stage, last.mu, inputs, rheology),
+    rate_cv,
+    iterations,
+    converged,
+    warnings
+  };
+};
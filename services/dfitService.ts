@@ -0,0 +1,169 @@
+import { DfitDiagnosticPoint, DfitPoint, DfitResult, ModelType } from "../types";
+import { nolteG, efficiencyFromClosureG } from "./leakoffService";
+
+export interface DfitOptions {
+  tp: number; // Pumping time of the injection, SI (s)
+  alpha: number; // Area growth exponent for G: 1 (low leak-off) or 0.5 (high leak-off)
+  model: ModelType; // Geometry used for the fracture stiffness
+  E_prime: number; // Plane strain modulus, SI (Pa)
+  H: number; // Fracture height from the model, SI (m)
+  L: number; // Fracture half-length or radius, SI (m)
+  rp: number; // Ratio of permeable to total fracture area
+}
+
+// Parse two-column "time, pressure" text (comma, tab, semicolon or space separated).
+// Header and malformed lines are skipped; values are returned as typed.
+export const parseDfitCsv = (text: string): DfitPoint[] => {
+  const points: DfitPoint[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const cols = line.trim().split(/[,;\t ]+/).map(parseFloat);
+    if (cols.length >= 2 && isFinite(cols[0]) && isFinite(cols[1])) {
+      points.push({ dt: cols[0], pressure: cols[1] });
+    }
+  });
+  return points.sort((a, b) => a.dt - b.dt);
+};
+
+// Fracture stiffness: net pressure per unit average width (Nolte)
+const fractureStiffness = (opts: DfitOptions): number => {
+  switch (opts.model) {
+    case ModelType.KGD:
+      return opts.E_prime / (Math.PI * opts.L);
+    case ModelType.RADIAL:
+      return (3 * Math.PI * opts.E_prime) / (16 * opts.L);
+    case ModelType.P3D: // PKN cross-section over the grown height
+    case ModelType.PKN:
+    default:
+      return (2 * opts.E_prime) / (Math.PI * opts.H);
+  }
+};
+
+// Central difference over a neighbourhood to damp gauge noise
+const smoothDerivative = (x: number[], y: number[], i: number, half: number): number => {
+  const j = Math.max(0, i - half);
+  const k = Math.min(x.length - 1, i + half);
+  return x[k] > x[j] ? (y[k] - y[j]) / (x[k] - x[j]) : 0;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+// G-function, G*dP/dG and sqrt-time analysis of a falloff record.
+// Closure is picked where G*dP/dG departs below the straight line through the
+// origin; leak-off follows from the pre-closure slope and fracture stiffness.
+export const analyzeDfit = (data: DfitPoint[], opts: DfitOptions): DfitResult => {
+  const warnings: string[] = [];
+  const falloff = data.filter(d => d.dt >= 0);
+  const empty: DfitResult = {
+    isip: falloff[0]?.pressure ?? 0,
+    closurePressure: null,
+    closureTime: null,
+    closureG: null,
+    sqrtTClosurePressure: null,
+    sqrtTClosureTime: null,
+    tangentSlope: 0,
+    efficiency: null,
+    CL: null,
+    netPressure: null,
+    points: [],
+    warnings
+  };
+  if (falloff.length < 10 || opts.tp <= 0) {
+    warnings.push("At least 10 falloff points and a positive pumping time are required.");
+    return empty;
+  }
+
+  const isip = falloff[0].pressure;
+  const G = falloff.map(d => nolteG(d.dt / opts.tp, opts.alpha));
+  const sqrtT = falloff.map(d => Math.sqrt(d.dt));
+  const P = falloff.map(d => d.pressure);
+  const half = Math.max(1, Math.round(falloff.length * 0.02));
+
+  const points: DfitDiagnosticPoint[] = falloff.map((d, i) => {
+    const dPdG = -smoothDerivative(G, P, i, half);
+    return {
+      dt: d.dt,
+      G: G[i],
+      sqrtT: sqrtT[i],
+      pressure: d.pressure,
+      dPdG,
+      GdPdG: G[i] * dPdG,
+      dPdSqrtT: -smoothDerivative(sqrtT, P, i, half)
+    };
+  });
+
+  // Tangent slope: the highest running-median -dP/dG, i.e. the line through the
+  // origin that touches G*dP/dG before it bends away at closure
+  const start = Math.max(1, Math.floor(points.length * 0.05));
+  const rMed = points.map((_, i) => median(points.slice(Math.max(0, i - 2), i + 3).map(p => p.dPdG)));
+  let iMax = start;
+  for (let i = start; i < points.length; i++) {
+    if (rMed[i] > rMed[iMax]) iMax = i;
+  }
+  const m = rMed[iMax];
+
+  // Closure: first sustained departure below the tangent line
+  const tol = 0.05;
+  const sustain = 3;
+  let closureIdx = -1;
+  for (let i = iMax; i < points.length - sustain; i++) {
+    let below = true;
+    for (let k = 0; k < sustain; k++) {
+      const pt = points[i + k];
+      if (pt.GdPdG >= (1 - tol) * m * pt.G) below = false;
+    }
+    if (below) {
+      closureIdx = i;
+      break;
+    }
+  }
+
+  if (closureIdx > start && m > 1.2 * median(rMed.slice(start, closureIdx))) {
+    warnings.push("G·dP/dG rises above the tangent line before closure: pressure-dependent leak-off is likely.");
+  }
+
+  // Sqrt-time closure: inflection point (maximum -dP/d sqrt t)
+  let sqrtIdx = start;
+  points.forEach((pt, i) => {
+    if (i >= start && pt.dPdSqrtT > points[sqrtIdx].dPdSqrtT) sqrtIdx = i;
+  });
+
+  if (closureIdx < 0 || m <= 0) {
+    warnings.push("No departure from the G·dP/dG tangent line: closure was not reached in this record.");
+    return {
+      ...empty,
+      isip,
+      sqrtTClosurePressure: points[sqrtIdx].pressure,
+      sqrtTClosureTime: points[sqrtIdx].dt,
+      tangentSlope: m,
+      points,
+      warnings
+    };
+  }
+
+  const closure = points[closureIdx];
+  const S_f = fractureStiffness(opts);
+  const CL = (2 * m) / (Math.PI * opts.rp * Math.sqrt(opts.tp) * S_f);
+  const efficiency = efficiencyFromClosureG(closure.G, opts.alpha);
+
+  if (Math.abs(points[sqrtIdx].pressure - closure.pressure) > 0.05 * closure.pressure) {
+    warnings.push("G-function and sqrt-time closure picks differ by more than 5%.");
+  }
+
+  return {
+    isip,
+    closurePressure: closure.pressure,
+    closureTime: closure.dt,
+    closureG: closure.G,
+    sqrtTClosurePressure: points[sqrtIdx].pressure,
+    sqrtTClosureTime: points[sqrtIdx].dt,
+    tangentSlope: m,
+    efficiency,
+    CL,
+    netPressure: isip - closure.pressure,
+    points,
+    warnings
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FieldSample, FieldTrace } from '../types';
+import { traceToSchedule } from './fieldDataService';
+
+const RHO_P = 2650;
+
+// 30 s samples: pad at 0.05 m³/s, proppant at 600 kg/m³ from 540 s, shut down at 1500 s
+const trace = (): FieldTrace => {
+  const samples: FieldSample[] = [];
+  for (let t = 0; t <= 1800; t += 30) {
+    const pumping = t < 1500;
+    samples.push({
+      time: t,
+      rate: pumping ? 0.05 : 0,
+      surface_pressure: null,
+      bottomhole_pressure: null,
+      proppant: pumping && t >= 540 ? 600 : 0,
+      density: null
+    });
+  }
+  return { fileName: 'test.csv', channels: ['rate', 'proppant'], samples };
+};
+
+describe('traceToSchedule', () => {
+  it('holds each sample until the next one and stops at the shut-down sample', () => {
+    const schedule = traceToSchedule(trace(), 0.1, RHO_P);
+    expect(schedule.reduce((sum, s) => sum + s.duration, 0)).toBeCloseTo(1500, 9);
+  });
+
+  it('starts the proppant stage on the sample where the concentration changes', () => {
+    const schedule = traceToSchedule(trace(), 0.1, RHO_P);
+    expect(schedule).toHaveLength(2);
+    expect(schedule[0].duration).toBeCloseTo(540, 9);
+    expect(schedule[0].proppant).toBe(0);
+    expect(schedule[1].proppant).toBeCloseTo(600, 9);
+  });
+
+  it('takes the clean rate from the measured slurry rate', () => {
+    const [pad, slurry] = traceToSchedule(trace(), 0.1, RHO_P);
+    expect(pad.q).toBeCloseTo(0.05, 12);
+    expect(slurry.q).toBeCloseTo(0.05 / (1 + 600 / RHO_P), 12);
+    // Clean fluid plus proppant volume gives back the slurry pumped
+    expect(slurry.q * slurry.duration * (1 + slurry.proppant / RHO_P)).toBeCloseTo(0.05 * 960, 9);
+  });
+});
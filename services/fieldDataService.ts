@@ -0,0 +1,212 @@
+import { FieldChannel, FieldColumnMapping, FieldSample, FieldTrace, PumpSchedule, UnitSystem } from "../types";
+import { MODEL_UNITS, UNIT_CONFIG, UnitCategory, convertValue } from "../utils/unitConversion";
+
+export const FIELD_CHANNELS: { key: FieldChannel, label: string, category: UnitCategory }[] = [
+  { key: 'time', label: 'Time', category: 'time' },
+  { key: 'rate', label: 'Slurry Rate', category: 'rate' },
+  { key: 'surface_pressure', label: 'Surface Pressure', category: 'pressure' },
+  { key: 'bottomhole_pressure', label: 'Bottomhole Pressure', category: 'pressure' },
+  { key: 'proppant', label: 'Proppant Concentration', category: 'concentration' },
+  { key: 'density', label: 'Slurry Density', category: 'density' }
+];
+
+export const channelCategory = (channel: FieldChannel): UnitCategory =>
+  FIELD_CHANNELS.find(c => c.key === channel)!.category;
+
+// Header keywords per channel, checked in order (bottomhole before surface pressure)
+const CHANNEL_KEYWORDS: [FieldChannel, RegExp][] = [
+  ['time', /time|elapsed|^t$|clock/i],
+  ['bottomhole_pressure', /bh|bottom|downhole|gauge/i],
+  ['surface_pressure', /press|whp|stp|^p$/i],
+  ['proppant', /prop|sand|conc|ppa/i],
+  ['density', /dens|ppg/i],
+  ['rate', /rate|slurry|bpm|^q$/i]
+];
+
+// Spellings seen in van exports that UNIT_CONFIG labels differently
+const UNIT_ALIASES: Record<string, string> = {
+  'bbl/min': 'bpm',
+  'sec': 's',
+  'lb/gal': 'ppg',
+  'lbm/gal': 'ppg'
+};
+
+const normalizeUnit = (u: string) => {
+  const n = u.toLowerCase().replace(/\s+/g, '').replace(/³/g, '3').replace(/²/g, '2');
+  return UNIT_ALIASES[n] ?? n;
+};
+
+// Unit system whose label for this category matches the unit text, if any
+export const detectUnitSystem = (unit: string, category: UnitCategory): UnitSystem | null => {
+  const u = normalizeUnit(unit);
+  if (!u) return null;
+  const match = [UnitSystem.FIELD, UnitSystem.SI].find(sys => normalizeUnit(UNIT_CONFIG[sys][category].label) === u);
+  return match ?? null;
+};
+
+export interface FieldTable {
+  headers: string[];
+  units: string[]; // Unit per column from a units row or "Name (unit)" headers; '' if none
+  rows: string[][];
+}
+
+const splitLine = (line: string, delimiter: string) => line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, ''));
+
+// Clock time ("hh:mm:ss") or a date-time stamp, in seconds; null if neither
+const clockSeconds = (cell: string): number | null => {
+  const hms = cell.match(/^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/);
+  if (hms) return Number(hms[1]) * 3600 + Number(hms[2]) * 60 + Number(hms[3] ?? 0);
+  if (/\d{4}-\d{2}-\d{2}/.test(cell)) {
+    const ms = Date.parse(cell);
+    return Number.isFinite(ms) ? ms / 1000 : null;
+  }
+  return null;
+};
+
+const isNumeric = (cell: string) => cell !== '' && Number.isFinite(Number(cell));
+
+// Split delimited text into headers, units and data rows. A non-numeric second
+// line is read as a units row (WITSML-style mnemonic + unit headers); otherwise
+// units are taken from "Name (unit)" or "Name [unit]" headers.
+export const parseFieldTable = (text: string): FieldTable => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '' && !l.trim().startsWith('#'));
+  if (lines.length < 2) throw new Error('File has no data rows.');
+  const delimiter = ['\t', ';', ','].reduce((best, d) => (lines[0].split(d).length > lines[0].split(best).length ? d : best), ',');
+  const first = splitLine(lines[0], delimiter);
+  if (first.length < 2) throw new Error('Could not find at least two columns.');
+  const second = splitLine(lines[1], delimiter);
+  const unitRow = second.every(c => !isNumeric(c) && clockSeconds(c) === null);
+
+  const headers = first.map(h => h.replace(/\s*[([].*[)\]]\s*$/, ''));
+  const units = unitRow
+    ? first.map((_, i) => (second[i] ?? '').replace(/^[([]|[)\]]$/g, ''))
+    : first.map(h => h.match(/[([]([^)\]]*)[)\]]\s*$/)?.[1] ?? '');
+  const rows = lines.slice(unitRow ? 2 : 1).map(l => splitLine(l, delimiter)).filter(r => r.length >= first.length);
+  return { headers, units, rows };
+};
+
+// First guess at the channel and unit system of each column; each channel is
+// used at most once, and unrecognised units fall back to the display system
+export const guessMapping = (table: FieldTable, fallback: UnitSystem): FieldColumnMapping[] => {
+  const used = new Set<FieldChannel>();
+  return table.headers.map((h, i) => {
+    const hit = CHANNEL_KEYWORDS.find(([ch, re]) => !used.has(ch) && (re.test(h) || re.test(table.units[i])));
+    const channel = hit ? hit[0] : null;
+    if (channel) used.add(channel);
+    const detected = channel ? detectUnitSystem(table.units[i], channelCategory(channel)) : null;
+    return { channel, unitSystem: detected ?? fallback, detected: detected !== null };
+  });
+};
+
+// Convert mapped columns to SI samples. Time starts at the first sample with
+// a rate above 5% of the peak (start of pumping) when a rate column is mapped.
+export const buildFieldTrace = (fileName: string, table: FieldTable, mapping: FieldColumnMapping[]): FieldTrace => {
+  const col = (ch: FieldChannel) => mapping.findIndex(m => m.channel === ch);
+  const timeCol = col('time');
+  if (timeCol < 0) throw new Error('Map one column to Time.');
+  const channels = FIELD_CHANNELS.map(c => c.key).filter(ch => ch !== 'time' && col(ch) >= 0);
+  if (channels.length === 0) throw new Error('Map at least one measured channel besides Time.');
+
+  const read = (row: string[], ch: FieldChannel): number | null => {
+    const i = col(ch);
+    if (i < 0) return null;
+    const cell = row[i];
+    if (ch === 'time') {
+      const clock = clockSeconds(cell);
+      if (clock !== null) return clock;
+    }
+    const v = parseFloat(cell);
+    return Number.isFinite(v) ? convertValue(v, channelCategory(ch), mapping[i].unitSystem, MODEL_UNITS) : null;
+  };
+
+  let samples: FieldSample[] = table.rows.map(row => ({
+    time: read(row, 'time') ?? NaN,
+    rate: read(row, 'rate'),
+    surface_pressure: read(row, 'surface_pressure'),
+    bottomhole_pressure: read(row, 'bottomhole_pressure'),
+    proppant: read(row, 'proppant'),
+    density: read(row, 'density')
+  })).filter(s => Number.isFinite(s.time)).sort((a, b) => a.time - b.time);
+  if (samples.length < 2) throw new Error('Fewer than two rows have a readable time.');
+
+  const q_peak = Math.max(0, ...samples.map(s => s.rate ?? 0));
+  const start = samples.find(s => q_peak > 0 && (s.rate ?? 0) > 0.05 * q_peak)?.time ?? samples[0].time;
+  samples = samples.map(s => ({ ...s, time: s.time - start }));
+  return { fileName, channels, samples };
+};
+
+// Average every channel over bins of width dt (SI s); empty bins are dropped
+export const resampleTrace = (trace: FieldTrace, dt: number): FieldTrace => {
+  if (!(dt > 0)) return trace;
+  const bins = new Map<number, FieldSample[]>();
+  trace.samples.forEach(s => {
+    const k = Math.floor(s.time / dt);
+    const bin = bins.get(k);
+    if (bin) bin.push(s);
+    else bins.set(k, [s]);
+  });
+  const mean = (ss: FieldSample[], ch: Exclude<FieldChannel, 'time'>) => {
+    const vals = ss.map(s => s[ch]).filter((v): v is number => v !== null);
+    return vals.length > 0 ? vals.reduce((a, b) => a + b, 0) / vals.length : null;
+  };
+  const samples = Array.from(bins.entries()).sort((a, b) => a[0] - b[0]).map(([k, ss]) => ({
+    time: (k + 0.5) * dt,
+    rate: mean(ss, 'rate'),
+    surface_pressure: mean(ss, 'surface_pressure'),
+    bottomhole_pressure: mean(ss, 'bottomhole_pressure'),
+    proppant: mean(ss, 'proppant'),
+    density: mean(ss, 'density')
+  }));
+  return { ...trace, samples };
+};
+
+// Pump schedule that reproduces the measured rate: consecutive samples within
+// `tolerance` of the running stage rate are merged, and each stage keeps the
+// pumped volume. Each sample's rate holds until the next sample (the first
+// from the start of pumping), and pumping ends at the first sample below 5%
+// of the peak rate after the last one above it. The measured rate is slurry
+// rate; stages take the clean fluid rate, q_slurry / (1 + c / rho_p) with c
+// the proppant mass per clean volume.
+export const traceToSchedule = (trace: FieldTrace, mu: number, rho_p: number, tolerance = 0.1): PumpSchedule => {
+  const pts = trace.samples.filter((s): s is FieldSample & { rate: number } => s.time >= 0 && s.rate !== null);
+  const q_peak = Math.max(0, ...pts.map(s => s.rate));
+  if (q_peak <= 0) throw new Error('No measured rate to build a schedule from.');
+  const lastPumping = pts.map(s => s.rate > 0.05 * q_peak).lastIndexOf(true);
+
+  const schedule: PumpSchedule = [];
+  let volume = 0;
+  let mass = 0;
+  let duration = 0;
+  const close = () => {
+    if (duration <= 0) return;
+    schedule.push({
+      name: `Stage ${schedule.length + 1}`,
+      q: Math.max(volume / duration, 0.01 * q_peak),
+      mu,
+      duration,
+      proppant: volume > 0 ? mass / volume : 0
+    });
+    volume = mass = duration = 0;
+  };
+  // A record that ends while pumping gives its last sample one more spacing
+  const endOf = (i: number) => i + 1 < pts.length
+    ? pts[i + 1].time
+    : pts[i].time + (i > 0 ? pts[i].time - pts[i - 1].time : 0);
+  for (let i = 0; i <= lastPumping; i++) {
+    const t0 = i === 0 ? 0 : pts[i].time;
+    const dt = endOf(i) - t0;
+    if (dt <= 0) continue;
+    const conc = pts[i].proppant ?? 0;
+    const q = pts[i].rate / (1 + conc / rho_p);
+    const stageRate = duration > 0 ? volume / duration : q;
+    const stageConc = volume > 0 ? mass / volume : conc;
+    const rateJump = Math.abs(q - stageRate) > tolerance * q_peak;
+    const concJump = Math.abs(conc - stageConc) > tolerance * Math.max(stageConc, conc, 1);
+    if (duration > 0 && (rateJump || concJump)) close();
+    volume += q * dt;
+    mass += q * dt * conc;
+    duration += dt;
+  }
+  close();
+  return schedule;
+};
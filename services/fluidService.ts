@@ -0,0 +1,49 @@
+import { PumpSchedule, ThermalOptions, ViscosityCurvePoint } from "../types";
+
+const PARCELS = 40; // Quadrature points over the injection history
+
+// Multiplier at x, interpolated linearly in log(factor) and flat beyond the ends
+export const curveFactor = (curve: ViscosityCurvePoint[], x: number): number => {
+  if (curve.length === 0) return 1;
+  const pts = [...curve].sort((a, b) => a.x - b.x);
+  if (x <= pts[0].x) return pts[0].factor;
+  if (x >= pts[pts.length - 1].x) return pts[pts.length - 1].factor;
+  const i = pts.findIndex(p => p.x > x);
+  const a = pts[i - 1];
+  const b = pts[i];
+  const f = (x - a.x) / (b.x - a.x);
+  return Math.exp(Math.log(a.factor) + f * (Math.log(b.factor) - Math.log(a.factor)));
+};
+
+// Temperature of fluid that entered the fracture `age` ago: exponential
+// approach from the injection to the bottomhole temperature
+export const fluidTemperature = (thermal: ThermalOptions, age: number): number =>
+  thermal.heatup > 0
+    ? thermal.T_bh - (thermal.T_bh - thermal.T_inj) * Math.exp(-age / thermal.heatup)
+    : thermal.T_bh;
+
+// Viscosity of that fluid relative to how it was pumped
+export const parcelFactor = (thermal: ThermalOptions, age: number): number =>
+  (curveFactor(thermal.fluid.temperature, fluidTemperature(thermal, age))
+    / curveFactor(thermal.fluid.temperature, thermal.T_inj))
+  * curveFactor(thermal.fluid.degradation, age);
+
+// Viscosity-weighted factor over all fluid pumped up to t, so that the stage
+// viscosity averaged by volume times this factor is the volume average of
+// each parcel's heated and degraded viscosity
+export const fractureFluidFactor = (schedule: PumpSchedule, thermal: ThermalOptions, t: number): number => {
+  if (!(t > 0)) return 1;
+  const dt = t / PARCELS;
+  let weighted = 0;
+  let total = 0;
+  let stage = 0;
+  let stageEnd = schedule[0].duration;
+  for (let i = 0; i < PARCELS; i++) {
+    const tau = (i + 0.5) * dt;
+    while (tau > stageEnd && stage < schedule.length - 1) stageEnd += schedule[++stage].duration;
+    const w = schedule[stage].q * schedule[stage].mu;
+    weighted += w * parcelFactor(thermal, t - tau);
+    total += w;
+  }
+  return total > 0 ? weighted / total : 1;
+};
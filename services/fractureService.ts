@@ -1,40 +1,285 @@
-import { FracInputs, ModelResult, ModelType, SensitivityData, TimeStep, ProfilePoint } from "../types";
+import { FracInputs, ModelResult, ModelType, TimeStep, ProfilePoint, PumpSchedule, SimulationOptions, StageResult, ClosureResult, RheologyType, PressureBreakdown, FormationLayer, AsymptoteResult, ThermalOptions, PermeabilityPoint } from "../types";
+import { fractureFluidFactor } from "./fluidService";
+import { nolteSmallG, dtDAtG, efficiencyFromClosureG, marchMaterialBalance, BalanceState } from "./leakoffService";
+import { averageOver, equilibriumHeight, layerAt, layerBounds, sortLayers, verticalWidthProfile } from "./layerService";
+import { modelNolteSmith, nolteSmithWarnings } from "./nolteSmithService";
+import { calculateProppant } from "./proppantService";
+import { RegimeProps, regimeLabel, regimeTrajectory } from "./regimeService";
+import { equivalentViscosity } from "./rheologyService";
+import { surfacePressureBreakdown } from "./wellboreService";
 
 // Helper: Plane Strain Modulus
 const getEPrime = (E: number, nu: number) => E / (1 - Math.pow(nu, 2));
 
-// Helper: Regime check
-const checkRegime = (
-  type: ModelType,
-  E_prime: number,
-  mu: number,
-  q: number,
-  K_IC: number,
-  R_or_L: number,
-  H: number
-): 'Viscosity' | 'Toughness' => {
-  const toughnessScore = K_IC / (mu * q * 1e6); 
-  return toughnessScore > 100 ? 'Toughness' : 'Viscosity';
+// Resolve the pump schedule, falling back to a single stage built from the scalar inputs
+export const getSchedule = (inputs: FracInputs, options: SimulationOptions = {}): PumpSchedule =>
+  options.schedule && options.schedule.length > 0
+    ? options.schedule
+    : [{ name: 'Main', q: inputs.q, mu: inputs.mu, duration: inputs.time, proppant: 0 }];
+
+export const getPumpTime = (schedule: PumpSchedule) =>
+  schedule.reduce((sum, s) => sum + s.duration, 0);
+
+// Injection state at time t: active stage, cumulative volume, current rate,
+// time-averaged rate and volume-weighted viscosity of the fluid pumped so far
+const injectionAt = (schedule: PumpSchedule, t: number) => {
+  let start = 0;
+  let V = 0;
+  let muV = 0;
+  let stage = schedule.length - 1;
+  for (let i = 0; i < schedule.length; i++) {
+    const s = schedule[i];
+    const dt = Math.max(0, Math.min(s.duration, t - start));
+    V += s.q * dt;
+    muV += s.mu * s.q * dt;
+    if (t <= start + s.duration) {
+      stage = i;
+      break;
+    }
+    start += s.duration;
+  }
+  const current = schedule[stage];
+  return {
+    stage,
+    V,
+    q_now: current.q,
+    q_avg: t > 0 ? V / t : current.q,
+    mu_avg: V > 0 ? muV / V : current.mu
+  };
+};
+
+// Fluid in the fracture at time t for the rheology: the volume-weighted stage
+// viscosity, scaled for heating and breakdown when thermal options are given.
+// The same factor scales K' of non-Newtonian fluids.
+const fractureFluidAt = (inputs: FracInputs, schedule: PumpSchedule, thermal?: ThermalOptions) => {
+  const factors = new Map<number, number>();
+  return (t: number) => {
+    const { q_now, mu_avg } = injectionAt(schedule, t);
+    if (!thermal) return { q_now, mu_fluid: mu_avg, props: inputs };
+    if (!factors.has(t)) factors.set(t, fractureFluidFactor(schedule, thermal, t));
+    const factor = factors.get(t)!;
+    return { q_now, mu_fluid: mu_avg * factor, props: { ...inputs, K_prime: inputs.K_prime * factor } };
+  };
+};
+
+type Solver = (t: number) => { L: number, w: number, p: number, mu: number, h: number };
+
+// Surface pressure for a net pressure during the given stage; no friction once shut in
+type SurfaceAt = (p_net: number, stage: number, pumping: boolean) => PressureBreakdown;
+
+const surfacePressureAt = (
+  inputs: FracInputs,
+  schedule: PumpSchedule,
+  rheology: RheologyType
+): SurfaceAt => (p_net, stage, pumping) => {
+  const s = schedule[stage];
+  return surfacePressureBreakdown(inputs.sigma_min + p_net, pumping ? s.q : 0, s.mu, inputs, rheology);
+};
+
+// History sample times. Stage boundaries are always sampled so rate and fluid
+// changes show up as steps on the charts.
+const historyTimes = (schedule: PumpSchedule): number[] => {
+  const steps = 50;
+  const totalTime = getPumpTime(schedule);
+  const times: number[] = [];
+  for (let i = 1; i <= steps; i++) times.push((totalTime / steps) * i);
+  let boundary = 0;
+  schedule.forEach(s => {
+    boundary += s.duration;
+    times.push(boundary);
+  });
+  return Array.from(new Set(times.filter(t => t > 0))).sort((a, b) => a - b);
 };
 
 // Generic generator for time history
 const generateHistory = (
-  totalTime: number, 
-  calcAtTime: (t: number) => { L: number, w: number, p: number }
+  schedule: PumpSchedule,
+  calcAtTime: Solver,
+  surfaceAt: SurfaceAt
 ): TimeStep[] => {
-  const steps = 50;
-  const history: TimeStep[] = [];
-  for (let i = 1; i <= steps; i++) {
-    const t = (totalTime / steps) * i;
+  return historyTimes(schedule).map(t => {
     const res = calcAtTime(t);
-    history.push({
+    const { stage } = injectionAt(schedule, t);
+    return {
       time: t,
       length: res.L,
       width: res.w,
-      pressure: res.p
-    });
+      pressure: res.p,
+      stage,
+      phase: 'pumping' as const,
+      surface_pressure: surfaceAt(res.p, stage, true).surface,
+      height: res.h,
+      viscosity: res.mu
+    };
+  });
+};
+
+// Fracture state for a given length at the current rate and viscosity
+interface FlowState extends BalanceState {
+  w: number; // Max width
+  p: number; // Net pressure
+  mu: number; // Equivalent viscosity
+  h: number; // Height at the wellbore
+}
+
+// Viscosity (M) and toughness (K) net pressures at the same size combine as
+// p = sqrt(p_M^2 + p_K^2), which recovers each asymptote when the other is small
+const transitionPressure = (p_M: number, p_K: number) => Math.sqrt(p_M * p_M + p_K * p_K);
+
+const asymptoteOf = (state: { p_M: number, p_K: number }): AsymptoteResult => ({
+  nearest: state.p_K > state.p_M ? 'Toughness' : 'Viscosity',
+  p_viscosity: state.p_M,
+  p_toughness: state.p_K
+});
+
+const BALANCE_SUBSTEPS = 4; // Material balance steps per history interval
+const THIN_FLUID = 0.3; // Retained viscosity below which transport is flagged
+
+// Solve the geometry by marching the Carter material balance over a grid that
+// contains every history sample, and expose it as a Solver over those times
+const solveByBalance = <S extends FlowState>(
+  inputs: FracInputs,
+  schedule: PumpSchedule,
+  stateAt: (t: number, L: number, previous: S | null) => S,
+  settle?: (t: number, L: number, state: S) => S
+) => {
+  const samples = historyTimes(schedule);
+  const times: number[] = [];
+  let prev = 0;
+  samples.forEach(t => {
+    for (let i = 1; i <= BALANCE_SUBSTEPS; i++) times.push(prev + ((t - prev) * i) / BALANCE_SUBSTEPS);
+    prev = t;
+  });
+  const steps = marchMaterialBalance(times, t => injectionAt(schedule, t).V, stateAt, inputs.Sp, settle);
+  const stepAt = (t: number) => steps.reduce((best, s) => (Math.abs(s.time - t) < Math.abs(best.time - t) ? s : best));
+  const solver = (t: number) => {
+    const { state, length } = stepAt(t);
+    return { ...state, L: length };
+  };
+  return { solver, final: steps[steps.length - 1] };
+};
+
+// Regime at the end of pumping and the path through the parametric space,
+// using the average rate and equivalent viscosity at each history time
+const classifyRegime = (
+  type: ModelType,
+  props: RegimeProps,
+  schedule: PumpSchedule,
+  history: TimeStep[],
+  calcAtTime: Solver
+): Pick<ModelResult, 'regime' | 'regime_vertex' | 'regimeTrajectory'> => {
+  const trajectory = regimeTrajectory(type, props, history.map(h => ({
+    time: h.time,
+    q: injectionAt(schedule, h.time).q_avg,
+    mu: calcAtTime(h.time).mu,
+    H: h.height
+  })));
+  const last = trajectory[trajectory.length - 1];
+  return {
+    regime: last ? regimeLabel(last.K_m, last.C_m) : 'Viscosity',
+    regime_vertex: last ? last.vertex : 'M',
+    regimeTrajectory: trajectory
+  };
+};
+
+// Area growth exponent (A ~ t^alpha) over the second half of pumping, bounded by
+// Nolte's high (1/2) and low (1) leak-off limits. areaPower is 2 for radial (A ~ R^2).
+const fitAreaExponent = (history: TimeStep[], areaPower: number): number => {
+  const pts = history.filter(h => h.length > 0);
+  const first = pts[Math.floor(pts.length / 2)];
+  const last = pts[pts.length - 1];
+  if (!first || !last || last.time <= first.time) return 1;
+  const slope = Math.log(last.length / first.length) / Math.log(last.time / first.time);
+  return Math.min(1, Math.max(0.5, areaPower * slope));
+};
+
+// Fracture state at the end of pumping, used as the starting point for falloff
+interface ShutInState {
+  tp: number; // Pumping time
+  L: number;
+  H: number;
+  w_avg: number;
+  w_max: number;
+  p_net: number;
+  stage: number;
+}
+
+// Falloff after shut-in: the fracture stops extending (constant area) and keeps
+// leaking off per Carter/Nolte; net pressure declines with the average width
+// until the faces close on the formation.
+const simulateShutIn = (
+  inputs: FracInputs,
+  history: TimeStep[],
+  state: ShutInState,
+  areaPower: number,
+  surfaceAt: SurfaceAt
+): { falloff: TimeStep[], closure: ClosureResult } => {
+  const { CL, sigma_min, t_shutin } = inputs;
+  const { tp, L, H, w_avg, w_max, p_net, stage } = state;
+  const alpha = fitAreaExponent(history, areaPower);
+  const g0 = nolteSmallG(0, alpha);
+  const leakScale = 2 * CL * Math.sqrt(tp); // Average width lost per unit of (g - g0)
+
+  const G_c = leakScale > 0 ? (4 * w_avg) / (Math.PI * leakScale) : Infinity;
+  const dtD_c = isFinite(G_c) ? dtDAtG(G_c, alpha) : Infinity;
+  const t_c = isFinite(dtD_c) ? dtD_c * tp : null;
+
+  const falloff: TimeStep[] = [];
+  const t_end = t_c !== null ? Math.min(t_shutin, t_c) : t_shutin;
+  const steps = 30;
+  if (t_end > 0) {
+    for (let i = 1; i <= steps; i++) {
+      const dt = (t_end / steps) * i;
+      const closedNow = t_c !== null && dt >= t_c;
+      const w = closedNow ? 0 : Math.max(0, w_avg - leakScale * (nolteSmallG(dt / tp, alpha) - g0));
+      const ratio = w_avg > 0 ? w / w_avg : 0;
+      falloff.push({
+        time: tp + dt,
+        length: L,
+        width: w_max * ratio,
+        pressure: p_net * ratio,
+        stage,
+        phase: 'shut-in',
+        surface_pressure: surfaceAt(p_net * ratio, stage, false).surface,
+        height: H
+      });
+    }
   }
-  return history;
+
+  return {
+    falloff,
+    closure: {
+      closed: t_c !== null && t_c <= t_shutin,
+      time: t_c,
+      G: isFinite(G_c) ? G_c : null,
+      alpha,
+      pressure: sigma_min,
+      length: L,
+      height: H,
+      width: 0,
+      efficiency: isFinite(G_c) ? efficiencyFromClosureG(G_c, alpha) : 1
+    }
+  };
+};
+
+// End-of-stage snapshot for each stage of the schedule
+const summarizeStages = (schedule: PumpSchedule, calcAtTime: Solver): StageResult[] => {
+  let start = 0;
+  return schedule.map(s => {
+    const end = start + s.duration;
+    const res = calcAtTime(end);
+    const summary: StageResult = {
+      name: s.name,
+      startTime: start,
+      endTime: end,
+      length: res.L,
+      width: res.w,
+      pressure: res.p,
+      volume: injectionAt(schedule, end).V
+    };
+    start = end;
+    return summary;
+  });
 };
 
 // Generic generator for profile
@@ -58,134 +303,326 @@ const generateProfile = (
 };
 
 
+// Proppant transport on top of the hydraulic geometry; the propped pack is
+// what keeps the fracture open after closure
+const attachProppant = (
+  base: Omit<ModelResult, 'proppant'>,
+  inputs: FracInputs,
+  schedule: PumpSchedule,
+  rheology: RheologyType,
+  packCurve?: PermeabilityPoint[]
+): ModelResult => {
+  const proppant = calculateProppant(base, inputs, schedule, rheology, packCurve);
+  if (!proppant) return { ...base, proppant: null };
+  return {
+    ...base,
+    proppant,
+    closure: { ...base.closure, width: proppant.propped_width },
+    warnings: [...base.warnings, ...proppant.warnings]
+  };
+};
+
+// PKN cross-section for a given length and height: net pressure and centre width
+// from the current rate, elliptical vertical section with a Nordgren-like taper
+const pknState = (L: number, q_now: number, mu: number, H: number, Ep: number, CL: number) => {
+  const p_net = 2.5 * Math.pow((mu * q_now * L) / Math.pow(H, 4), 0.25) * Math.pow(Ep, 0.75);
+  const w_max = (3 * p_net * H) / Ep; // Approx factor 3 for center width
+  return { p: p_net, w: w_max, mu, h: H, w_avg: (Math.PI / 4) * w_max * 0.8, area: 2 * L * H, CL };
+};
+
 // PKN Model
-export const calculatePKN = (inputs: FracInputs): ModelResult => {
-  const { E, nu, mu, q, H, time, CL, sigma_min } = inputs;
+export const calculatePKN = (inputs: FracInputs, options: SimulationOptions = {}): ModelResult => {
+  const { E, nu, H, CL, sigma_min } = inputs;
   const Ep = getEPrime(E, nu);
-  
-  const solvePKN = (t: number) => {
-    const L_no_leakoff = 0.68 * Math.pow((Math.pow(q, 3) * Ep) / (mu * Math.pow(H, 4)), 0.2) * Math.pow(t, 0.8);
-    const L_high_leakoff = (q * Math.sqrt(t)) / (2 * Math.PI * CL * H);
-    const L = 1 / (1/L_no_leakoff + 1/L_high_leakoff);
-    const p_net = 2.5 * Math.pow((mu * q * L) / Math.pow(H, 4), 0.25) * Math.pow(Ep, 0.75);
-    const w_max = (3 * p_net * H) / Ep; // Approx factor 3 for center width
-    return { L, p: p_net, w: w_max };
-  };
+  const schedule = getSchedule(inputs, options);
+  const time = getPumpTime(schedule);
+  const rheology = options.rheology ?? RheologyType.NEWTONIAN;
+  const surfaceAt = surfacePressureAt(inputs, schedule, rheology);
+  const fluidAt = fractureFluidAt(inputs, schedule, options.thermal);
+
+  // Length comes from the material balance; pressure responds to the current rate.
+  // Non-Newtonian fluids use the apparent viscosity at the wall shear rate of each wing.
+  const { solver: solvePKN, final: balance } = solveByBalance(inputs, schedule, (t, L) => {
+    const { q_now, mu_fluid, props } = fluidAt(t);
+    return equivalentViscosity(rheology, mu_fluid, props, q_now / 2, () => H, mu =>
+      pknState(L, q_now, mu, H, Ep, CL)
+    ).res;
+  });
 
   const final = solvePKN(time);
-  const w_avg = (Math.PI / 4) * final.w * 0.8;
-  const Vi = q * time;
-  const V_frac = final.L * H * w_avg * 2; 
+  const history = generateHistory(schedule, solvePKN, surfaceAt);
+  const shutIn = simulateShutIn(inputs, history, {
+    tp: time, L: final.L, H, w_avg: final.w_avg, w_max: final.w, p_net: final.p, stage: schedule.length - 1
+  }, 1, surfaceAt);
 
-  return {
+  return attachProppant({
     type: ModelType.PKN,
     length: final.L,
-    width_avg: w_avg,
+    width_avg: final.w_avg,
     width_max: final.w,
+    height: final.h,
     p_net: final.p,
     p_well: sigma_min + final.p,
-    efficiency: Math.min(1, V_frac / Vi),
-    volume_injected: Vi,
-    volume_leakoff: Vi - V_frac,
-    regime: checkRegime(ModelType.PKN, Ep, mu, q, inputs.K_IC, final.L, H),
+    p_surface_max: Math.max(...history.map(h => h.surface_pressure)),
+    pressure_breakdown: surfaceAt(final.p, schedule.length - 1, true),
+    efficiency: balance.volume_fracture / balance.volume_injected,
+    volume_injected: balance.volume_injected,
+    volume_leakoff: balance.volume_leakoff,
+    ...classifyRegime(ModelType.PKN, { E_prime: Ep, K_IC: inputs.K_IC, CL }, schedule, history, solvePKN),
+    asymptote: null,
     warnings: final.L < 2 * H ? ["L < 2H: PKN assumption violated (Short fracture)."] : [],
-    timeSeries: generateHistory(time, solvePKN),
-    profile: generateProfile(final.L, final.w, 0.25) // Nordgren-like profile
-  };
+    timeSeries: [...history, ...shutIn.falloff],
+    profile: generateProfile(final.L, final.w, 0.25), // Nordgren-like profile
+    stages: summarizeStages(schedule, solvePKN),
+    closure: shutIn.closure,
+    vertical: null
+  }, inputs, schedule, rheology, options.packPermeability);
 };
 
 // KGD Model
-export const calculateKGD = (inputs: FracInputs): ModelResult => {
-  const { E, nu, mu, q, H, time, CL, sigma_min } = inputs;
+export const calculateKGD = (inputs: FracInputs, options: SimulationOptions = {}): ModelResult => {
+  const { E, nu, H, CL, K_IC, sigma_min } = inputs;
   const Ep = getEPrime(E, nu);
+  const schedule = getSchedule(inputs, options);
+  const time = getPumpTime(schedule);
+  const rheology = options.rheology ?? RheologyType.NEWTONIAN;
+  const surfaceAt = surfacePressureAt(inputs, schedule, rheology);
+  const fluidAt = fractureFluidAt(inputs, schedule, options.thermal);
 
-  const solveKGD = (t: number) => {
-    const L_no_leakoff = 0.48 * Math.pow((Ep * Math.pow(q, 3)) / (mu * Math.pow(H, 3)), 1/6) * Math.pow(t, 2/3);
-    const L_high_leakoff = (q * Math.sqrt(t)) / (2 * Math.PI * CL * H);
-    const L = 1 / (1/L_no_leakoff + 1/L_high_leakoff);
-    const w_max = 1.32 * Math.pow((mu * q * Math.pow(L, 2)) / (Ep * H), 0.25);
-    const p_net = (Ep * w_max) / (4 * L);
-    return { L, p: p_net, w: w_max };
-  };
+  const { solver: solveKGD, final: balance } = solveByBalance(inputs, schedule, (t, L) => {
+    const { q_now, mu_fluid, props } = fluidAt(t);
+    return equivalentViscosity(rheology, mu_fluid, props, q_now / 2, () => H, mu => {
+      // Viscosity asymptote (Geertsma-de Klerk) and a plane-strain crack at K_I = K_IC
+      const p_M = (Ep * 1.32 * Math.pow((mu * q_now * Math.pow(L, 2)) / (Ep * H), 0.25)) / (4 * L);
+      const p_K = K_IC / Math.sqrt(Math.PI * L);
+      const p_net = transitionPressure(p_M, p_K);
+      const w_max = (4 * p_net * L) / Ep;
+      return { p: p_net, w: w_max, mu, h: H, w_avg: (Math.PI / 4) * w_max, area: 2 * L * H, CL, p_M, p_K };
+    }).res;
+  });
 
   const final = solveKGD(time);
-  const w_avg = (Math.PI / 4) * final.w;
-  const Vi = q * time;
-  const V_frac = 2 * final.L * H * w_avg;
+  const history = generateHistory(schedule, solveKGD, surfaceAt);
+  const shutIn = simulateShutIn(inputs, history, {
+    tp: time, L: final.L, H, w_avg: final.w_avg, w_max: final.w, p_net: final.p, stage: schedule.length - 1
+  }, 1, surfaceAt);
 
-  return {
+  return attachProppant({
     type: ModelType.KGD,
     length: final.L,
-    width_avg: w_avg,
+    width_avg: final.w_avg,
     width_max: final.w,
+    height: final.h,
     p_net: final.p,
     p_well: sigma_min + final.p,
-    efficiency: Math.min(1, V_frac / Vi),
-    volume_injected: Vi,
-    volume_leakoff: Vi - V_frac,
-    regime: checkRegime(ModelType.KGD, Ep, mu, q, inputs.K_IC, final.L, H),
+    p_surface_max: Math.max(...history.map(h => h.surface_pressure)),
+    pressure_breakdown: surfaceAt(final.p, schedule.length - 1, true),
+    efficiency: balance.volume_fracture / balance.volume_injected,
+    volume_injected: balance.volume_injected,
+    volume_leakoff: balance.volume_leakoff,
+    ...classifyRegime(ModelType.KGD, { E_prime: Ep, K_IC, CL }, schedule, history, solveKGD),
+    asymptote: asymptoteOf(final),
     warnings: final.L > H ? ["L > H: KGD assumption violated (Long fracture)."] : [],
-    timeSeries: generateHistory(time, solveKGD),
-    profile: generateProfile(final.L, final.w, 0.5) // Elliptical profile
-  };
+    timeSeries: [...history, ...shutIn.falloff],
+    profile: generateProfile(final.L, final.w, 0.5), // Elliptical profile
+    stages: summarizeStages(schedule, solveKGD),
+    closure: shutIn.closure,
+    vertical: null
+  }, inputs, schedule, rheology, options.packPermeability);
 };
 
 // Radial Model
-export const calculateRadial = (inputs: FracInputs): ModelResult => {
-  const { E, nu, mu, q, time, CL, sigma_min } = inputs;
+export const calculateRadial = (inputs: FracInputs, options: SimulationOptions = {}): ModelResult => {
+  const { E, nu, CL, K_IC, sigma_min } = inputs;
   const Ep = getEPrime(E, nu);
+  const schedule = getSchedule(inputs, options);
+  const time = getPumpTime(schedule);
+  const rheology = options.rheology ?? RheologyType.NEWTONIAN;
+  const surfaceAt = surfacePressureAt(inputs, schedule, rheology);
+  const fluidAt = fractureFluidAt(inputs, schedule, options.thermal);
 
-  const solveRadial = (t: number) => {
-    const R_no_leakoff = 0.52 * Math.pow((Ep * Math.pow(q, 3)) / mu, 1/9) * Math.pow(t, 4/9);
-    const R_high_leakoff = Math.sqrt(q * Math.sqrt(t) / (Math.PI * Math.PI * CL));
-    const R = 1 / (1/R_no_leakoff + 1/R_high_leakoff);
-    const p_net = 1.25 * Math.pow( (mu * q * Math.pow(Ep, 2)) / Math.pow(R, 3), 0.25 );
-    const w_max = (8 * p_net * R) / (Math.PI * Ep);
-    return { L: R, p: p_net, w: w_max };
-  };
+  const { solver: solveRadial, final: balance } = solveByBalance(inputs, schedule, (t, R) => {
+    const { q_now, mu_fluid, props } = fluidAt(t);
+    // Radial flow evaluated at mid-radius: slot "height" is the circumference there
+    return equivalentViscosity(rheology, mu_fluid, props, q_now, () => Math.PI * R, mu => {
+      // Viscosity asymptote and a penny-shaped crack at K_I = K_IC
+      // M-vertex scaling is Ep^3 (was Ep^2, which is not dimensionally a pressure)
+      const p_M = 1.25 * Math.pow( (mu * q_now * Math.pow(Ep, 3)) / Math.pow(R, 3), 0.25 );
+      const p_K = (K_IC * Math.sqrt(Math.PI)) / (2 * Math.sqrt(R));
+      const p_net = transitionPressure(p_M, p_K);
+      const w_max = (8 * p_net * R) / (Math.PI * Ep);
+      return { p: p_net, w: w_max, mu, h: 2 * R, w_avg: 2/3 * w_max, area: Math.PI * R * R, CL, p_M, p_K };
+    }).res;
+  });
 
   const final = solveRadial(time);
-  const w_avg = 2/3 * final.w;
-  const Vi = q * time;
-  const V_frac = (Math.PI * final.L * final.L) * w_avg;
+  const history = generateHistory(schedule, solveRadial, surfaceAt);
+  const shutIn = simulateShutIn(inputs, history, {
+    tp: time, L: final.L, H: 2 * final.L, w_avg: final.w_avg, w_max: final.w, p_net: final.p, stage: schedule.length - 1
+  }, 2, surfaceAt);
 
-  return {
+  return attachProppant({
     type: ModelType.RADIAL,
     length: final.L,
-    width_avg: w_avg,
+    width_avg: final.w_avg,
     width_max: final.w,
+    height: final.h,
     p_net: final.p,
     p_well: sigma_min + final.p,
-    efficiency: Math.min(1, V_frac / Vi),
-    volume_injected: Vi,
-    volume_leakoff: Vi - V_frac,
-    regime: checkRegime(ModelType.RADIAL, Ep, mu, q, inputs.K_IC, final.L, 0),
+    p_surface_max: Math.max(...history.map(h => h.surface_pressure)),
+    pressure_breakdown: surfaceAt(final.p, schedule.length - 1, true),
+    efficiency: balance.volume_fracture / balance.volume_injected,
+    volume_injected: balance.volume_injected,
+    volume_leakoff: balance.volume_leakoff,
+    ...classifyRegime(ModelType.RADIAL, { E_prime: Ep, K_IC, CL }, schedule, history, solveRadial),
+    asymptote: asymptoteOf(final),
     warnings: [],
-    timeSeries: generateHistory(time, solveRadial),
-    profile: generateProfile(final.L, final.w, 0.5) // Elliptical profile
-  };
+    timeSeries: [...history, ...shutIn.falloff],
+    profile: generateProfile(final.L, final.w, 0.5), // Elliptical profile
+    stages: summarizeStages(schedule, solveRadial),
+    closure: shutIn.closure,
+    vertical: null
+  }, inputs, schedule, rheology, options.packPermeability);
 };
 
-export const runSensitivity = (inputs: FracInputs, baseResult: ModelResult): SensitivityData[] => {
-  const params: (keyof FracInputs)[] = ['mu', 'q', 'sigma_min', 'CL'];
-  const results: SensitivityData[] = [];
-  const calcFn = baseResult.type === ModelType.PKN ? calculatePKN : 
-                 baseResult.type === ModelType.KGD ? calculateKGD : calculateRadial;
-
-  params.forEach(param => {
-    [0.5, 2.0].forEach(factor => {
-      const newInputs = { ...inputs, [param]: inputs[param] * factor };
-      const res = calcFn(newInputs);
-      
-      results.push({
-        parameter: param,
-        factor,
-        L_change: ((res.length - baseResult.length) / baseResult.length) * 100,
-        w_change: ((res.width_avg - baseResult.width_avg) / baseResult.width_avg) * 100,
-        p_change: ((res.p_net - baseResult.p_net) / baseResult.p_net) * 100
-      });
-    });
+// Pseudo-3D Model: PKN-style lateral flow over a height set by the equilibrium of
+// the tip stress intensities in a layered stress profile (Simonson/Fung type).
+// After each material balance step, height and net pressure are brought to a
+// fixed point at the new length; tips never recede.
+export const calculateP3D = (inputs: FracInputs, options: SimulationOptions = {}): ModelResult => {
+  const { nu, H, depth } = inputs;
+  const single = !options.layers || options.layers.length === 0;
+  const fallback: FormationLayer = {
+    name: 'Formation', top: depth - H / 2, stress: inputs.sigma_min, E: inputs.E, K_IC: inputs.K_IC, CL: inputs.CL
+  };
+  const layers = sortLayers(single ? [fallback] : options.layers!);
+  const pay = layerAt(layers, depth);
+  const schedule = getSchedule(inputs, options);
+  const time = getPumpTime(schedule);
+  const rheology = options.rheology ?? RheologyType.NEWTONIAN;
+  const fluidAt = fractureFluidAt(inputs, schedule, options.thermal);
+
+  // Initial height is the perforated layer, or H about the perforations if unbounded
+  const bounds = layerBounds(layers, depth);
+  const start = {
+    top: isFinite(bounds.top) ? bounds.top : depth - H / 2,
+    bottom: isFinite(bounds.bottom) ? bounds.bottom : depth + H / 2
+  };
+  const maxHeight = 10 * (start.bottom - start.top);
+  const propsOver = (top: number, bottom: number) => ({
+    Ep: getEPrime(averageOver(layers, top, bottom, l => l.E), nu),
+    CL: averageOver(layers, top, bottom, l => l.CL)
   });
 
-  return results;
-};
\ No newline at end of file
+  type P3DState = FlowState & { top: number, bottom: number, contained: boolean };
+  const flowOver = (t: number, L: number, tips: { top: number, bottom: number, contained: boolean }): P3DState => {
+    const { q_now, mu_fluid, props } = fluidAt(t);
+    const h = tips.bottom - tips.top;
+    const { Ep, CL } = propsOver(tips.top, tips.bottom);
+    const res = equivalentViscosity(rheology, mu_fluid, props, q_now / 2, () => h, mu =>
+      pknState(L, q_now, mu, h, Ep, CL)
+    ).res;
+    return { ...res, top: tips.top, bottom: tips.bottom, contained: tips.contained };
+  };
+
+  const { solver: solveP3D, final: balance } = solveByBalance<P3DState>(
+    inputs,
+    schedule,
+    (t, L, previous) => flowOver(t, L, previous ?? { ...start, contained: true }),
+    (t, L, state) => {
+      // Without layer data there is no stress contrast to grow against: hold the
+      // pay height H, as PKN does
+      if (single) return state;
+      // Net pressure falls as the height grows, so the fixed point p = p_flow(h_eq(p))
+      // is bracketed by zero and the net pressure at the current height
+      const from = { top: state.top, bottom: state.bottom };
+      let lo = 0;
+      let hi = state.p;
+      let tips = equilibriumHeight(layers, pay.stress + hi, from, maxHeight);
+      if (tips.bottom - tips.top <= state.h) return state;
+      let res = flowOver(t, L, tips);
+      for (let i = 0; i < 40 && hi - lo > 1e-3 * hi; i++) {
+        const mid = (lo + hi) / 2;
+        tips = equilibriumHeight(layers, pay.stress + mid, from, maxHeight);
+        res = flowOver(t, L, tips);
+        if (res.p > mid) lo = mid;
+        else hi = mid;
+      }
+      return res;
+    }
+  );
+
+  const final = solveP3D(time);
+  const { Ep, CL } = propsOver(final.top, final.bottom);
+  const perfInputs = { ...inputs, sigma_min: pay.stress, CL };
+  const surfaceAt = surfacePressureAt(perfInputs, schedule, rheology);
+  const history = generateHistory(schedule, solveP3D, surfaceAt);
+  const shutIn = simulateShutIn(perfInputs, history, {
+    tp: time, L: final.L, H: final.h, w_avg: final.w_avg, w_max: final.w, p_net: final.p, stage: schedule.length - 1
+  }, 1, surfaceAt);
+
+  const warnings: string[] = [];
+  if (single) warnings.push("No formation layers given: height held at the pay height H (PKN geometry).");
+  if (!final.contained) {
+    warnings.push(`Uncontained height growth: fracture height reached ${maxHeight.toFixed(0)} m (runaway limit).`);
+  }
+  const penetrated = layers.filter((l, i) =>
+    l !== pay && (i === 0 || l.top < final.bottom) && (i === layers.length - 1 || layers[i + 1].top > final.top)
+  );
+  if (penetrated.length > 0) {
+    warnings.push(`Height growth into ${penetrated.map(l => l.name).join(', ')}.`);
+  }
+  if (final.L < 2 * final.h) warnings.push("L < 2H: P3D lateral flow assumption violated (Short fracture).");
+
+  return attachProppant({
+    type: ModelType.P3D,
+    length: final.L,
+    width_avg: final.w_avg,
+    width_max: final.w,
+    height: final.h,
+    p_net: final.p,
+    p_well: pay.stress + final.p,
+    p_surface_max: Math.max(...history.map(s => s.surface_pressure)),
+    pressure_breakdown: surfaceAt(final.p, schedule.length - 1, true),
+    efficiency: balance.volume_fracture / balance.volume_injected,
+    volume_injected: balance.volume_injected,
+    volume_leakoff: balance.volume_leakoff,
+    ...classifyRegime(ModelType.P3D, { E_prime: Ep, K_IC: pay.K_IC, CL }, schedule, history, solveP3D),
+    asymptote: null,
+    warnings,
+    timeSeries: [...history, ...shutIn.falloff],
+    profile: generateProfile(final.L, final.w, 0.25),
+    stages: summarizeStages(schedule, solveP3D),
+    closure: { ...shutIn.closure, pressure: pay.stress },
+    vertical: {
+      top: final.top,
+      bottom: final.bottom,
+      contained: final.contained,
+      points: verticalWidthProfile(layers, pay.stress + final.p, final.top, final.bottom, Ep)
+    }
+  }, inputs, schedule, rheology, options.packPermeability);
+};
+
+// Dispatch to the selected model
+export const runModel = (type: ModelType, inputs: FracInputs, options: SimulationOptions = {}): ModelResult => {
+  const result = (() => {
+    switch (type) {
+      case ModelType.KGD: return calculateKGD(inputs, options);
+      case ModelType.RADIAL: return calculateRadial(inputs, options);
+      case ModelType.P3D: return calculateP3D(inputs, options);
+      case ModelType.PKN:
+      default:
+        return calculatePKN(inputs, options);
+    }
+  })();
+  // Flag problem slopes on the log-log net pressure history
+  const warnings = [...result.warnings, ...nolteSmithWarnings(modelNolteSmith(result))];
+  if (options.thermal) {
+    const schedule = getSchedule(inputs, options);
+    const retained = fractureFluidFactor(schedule, options.thermal, getPumpTime(schedule));
+    if (retained < THIN_FLUID) {
+      warnings.push(`Fracture fluid keeps ${(retained * 100).toFixed(0)}% of its pumped viscosity at shut-in: expect poor proppant transport.`);
+    }
+  }
+  return { ...result, warnings };
+};
@@ -0,0 +1,32 @@
+import { FracInputs, HistoryMatchResult, MatchParameter, ModelType, ObservedPressure, PressureKind, SimulationOptions } from "../types";
+import { historyMatch } from "./historyMatchService";
+
+// Messages exchanged with the history match worker; everything is SI
+export interface HistoryMatchRequest {
+  type: ModelType;
+  inputs: FracInputs;
+  options: SimulationOptions;
+  observed: ObservedPressure[];
+  kind: PressureKind;
+  parameters: MatchParameter[];
+}
+
+export type HistoryMatchMessage =
+  | { kind: 'progress', iteration: number, rms: number }
+  | { kind: 'done', result: HistoryMatchResult }
+  | { kind: 'error', message: string };
+
+const post = (message: HistoryMatchMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<HistoryMatchRequest>) => {
+  const req = e.data;
+  try {
+    const result = historyMatch(
+      req.type, req.inputs, req.options, req.observed, req.kind, req.parameters,
+      (iteration, rms) => post({ kind: 'progress', iteration, rms })
+    );
+    post({ kind: 'done', result });
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,219 @@
+import {
+  FittedParameter, FracInputs, HistoryMatchResult, MatchParameter, MatchResidual, ModelResult, ModelType,
+  ObservedPressure, PressureKind, SimulationOptions
+} from "../types";
+import { runModel } from "./fractureService";
+
+const MAX_ITERATIONS = 40;
+const FD_STEP = 1e-3; // Finite-difference step in normalized parameter space
+
+// Model pressure of the requested kind at arbitrary times. Held at the first
+// sample before it and at the last one after it (a closed fracture has zero net pressure).
+export const modelPressureAt = (result: ModelResult, kind: PressureKind, times: number[]): number[] => {
+  const ts = result.timeSeries;
+  const value = (i: number) => {
+    const step = ts[i];
+    if (kind === 'surface') return step.surface_pressure;
+    if (kind === 'bottomhole') return result.closure.pressure + step.pressure;
+    return step.pressure;
+  };
+  return times.map(t => {
+    if (ts.length === 0) return NaN;
+    if (t <= ts[0].time) return value(0);
+    if (t >= ts[ts.length - 1].time) return value(ts.length - 1);
+    let i = 1;
+    while (ts[i].time < t) i++;
+    const s = (t - ts[i - 1].time) / (ts[i].time - ts[i - 1].time || 1);
+    return value(i - 1) + s * (value(i) - value(i - 1));
+  });
+};
+
+// Gaussian elimination with partial pivoting; null if the system is singular
+const solveLinear = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[pivot][c])) pivot = r;
+    if (Math.abs(M[pivot][c]) < 1e-300) return null;
+    [M[c], M[pivot]] = [M[pivot], M[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let k = r + 1; k < n; k++) sum -= M[r][k] * x[k];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+// Two-sided 95% Student-t quantile (Cornish-Fisher expansion about the normal)
+const t95 = (dof: number): number => {
+  const z = 1.959964;
+  return z + (z ** 3 + z) / (4 * dof) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * dof * dof);
+};
+
+// Least-squares fit of the selected inputs to an observed pressure record by
+// Levenberg-Marquardt. Parameters are scaled to [0, 1] between their bounds
+// and steps are projected back onto the box. Confidence intervals come from
+// the linearized covariance s^2 (J^T J)^-1 at the best fit.
+export const historyMatch = (
+  type: ModelType,
+  inputs: FracInputs,
+  options: SimulationOptions,
+  observed: ObservedPressure[],
+  kind: PressureKind,
+  params: MatchParameter[],
+  onProgress?: (iteration: number, rms: number) => void
+): HistoryMatchResult => {
+  if (params.length === 0) throw new Error('Select at least one parameter to match.');
+  if (observed.length <= params.length) throw new Error('Need more observations than matched parameters.');
+  params.forEach(p => {
+    if (!(p.upper > p.lower)) throw new Error(`${p.field}: upper bound must exceed lower bound.`);
+  });
+  // Rate and viscosity live on the stages when a schedule is active: each trial
+  // scales them by its ratio to the base value, which must then be positive
+  const stages = options.schedule ?? [];
+  const scheduled = stages.length > 0;
+  const unscalable = params.filter(p => (p.field === 'q' || p.field === 'mu') && !(inputs[p.field] > 0));
+  if (scheduled && unscalable.length > 0) {
+    throw new Error(`${unscalable.map(p => p.field).join(' and ')} must be positive to scale the pump schedule.`);
+  }
+  const ratio = (sample: FracInputs, field: 'q' | 'mu') => inputs[field] > 0 ? sample[field] / inputs[field] : 1;
+  const times = observed.map(o => o.time);
+  const k = params.length;
+  const n = observed.length;
+
+  const toValues = (u: number[]) => params.map((p, i) => p.lower + u[i] * (p.upper - p.lower));
+  const simulate = (u: number[]): number[] => {
+    const sample = { ...inputs };
+    toValues(u).forEach((v, i) => { sample[params[i].field] = v; });
+    const schedule = scheduled
+      ? stages.map(s => ({ ...s, q: s.q * ratio(sample, 'q'), mu: s.mu * ratio(sample, 'mu') }))
+      : options.schedule;
+    return modelPressureAt(runModel(type, sample, { ...options, schedule }), kind, times);
+  };
+  const residualsOf = (model: number[]) => model.map((m, i) => m - observed[i].pressure);
+  const cost = (r: number[]) => r.reduce((s, v) => s + v * v, 0);
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+  let u = params.map(p => clamp((inputs[p.field] - p.lower) / (p.upper - p.lower)));
+  const initialModel = simulate(u);
+  let model = initialModel;
+  let r = residualsOf(model);
+  let c = cost(r);
+  if (!Number.isFinite(c)) throw new Error('Model fails at the starting inputs.');
+
+  let lambda = 1e-2;
+  let iterations = 0;
+  let converged = false;
+  let J: number[][] = [];
+
+  const jacobian = (): number[][] => {
+    const cols = u.map((ui, j) => {
+      const h = ui + FD_STEP <= 1 ? FD_STEP : -FD_STEP;
+      const shifted = [...u];
+      shifted[j] = ui + h;
+      const m = simulate(shifted);
+      return m.map((v, i) => (v - model[i]) / h);
+    });
+    return Array.from({ length: n }, (_, i) => cols.map(col => col[i]));
+  };
+
+  while (iterations < MAX_ITERATIONS && !converged) {
+    iterations++;
+    J = jacobian();
+    const A = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (__, b) =>
+      J.reduce((s, row) => s + row[a] * row[b], 0)));
+    const g = Array.from({ length: k }, (_, a) => J.reduce((s, row, i) => s + row[a] * r[i], 0));
+
+    let improved = false;
+    for (let tries = 0; tries < 10 && !improved; tries++) {
+      const damped = A.map((row, a) => row.map((v, b) => (a === b ? v + lambda * Math.max(v, 1e-12) : v)));
+      const delta = solveLinear(damped, g.map(v => -v));
+      if (!delta) {
+        lambda *= 4;
+        continue;
+      }
+      const trial = u.map((ui, j) => clamp(ui + delta[j]));
+      const trialModel = simulate(trial);
+      const trialR = residualsOf(trialModel);
+      const trialC = cost(trialR);
+      if (Number.isFinite(trialC) && trialC < c) {
+        const step = Math.max(...trial.map((v, j) => Math.abs(v - u[j])));
+        converged = (c - trialC) / c < 1e-4 || step < 1e-5;
+        u = trial;
+        model = trialModel;
+        r = trialR;
+        c = trialC;
+        lambda = Math.max(lambda / 3, 1e-9);
+        improved = true;
+      } else {
+        lambda *= 4;
+      }
+    }
+    if (!improved) converged = true; // No downhill step left at any damping
+    onProgress?.(iterations, Math.sqrt(c / n));
+  }
+
+  // Covariance in physical units at the best fit
+  J = jacobian();
+  const warnings: string[] = [];
+  const dof = n - k;
+  const s2 = c / dof;
+  const Jx = J.map(row => row.map((v, j) => v / (params[j].upper - params[j].lower)));
+  const A = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (__, b) =>
+    Jx.reduce((s, row) => s + row[a] * row[b], 0)));
+  const variances = params.map((_, j) => {
+    const e = new Array(k).fill(0);
+    e[j] = 1;
+    const col = solveLinear(A, e);
+    return col && col[j] > 0 ? s2 * col[j] : null;
+  });
+  if (variances.some(v => v === null)) {
+    warnings.push('Some parameters are not resolved independently by the data; their intervals are omitted.');
+  }
+
+  const values = toValues(u);
+  const tq = t95(dof);
+  const parameters: FittedParameter[] = params.map((p, j) => {
+    const se = variances[j] !== null ? Math.sqrt(variances[j]!) : null;
+    const atBound = u[j] <= 1e-6 || u[j] >= 1 - 1e-6;
+    if (atBound) warnings.push(`${p.field} stopped on a bound; widen the range or the interval is unreliable.`);
+    else if (se !== null && tq * se > Math.abs(values[j])) {
+      warnings.push(`${p.field} is poorly constrained by this record (interval wider than the estimate); it likely trades off against another matched input.`);
+    }
+    return {
+      field: p.field,
+      initial: inputs[p.field],
+      value: values[j],
+      stdError: se,
+      ci_low: se !== null ? values[j] - tq * se : null,
+      ci_high: se !== null ? values[j] + tq * se : null,
+      atBound
+    };
+  });
+  if (!converged) warnings.push(`Stopped after ${MAX_ITERATIONS} iterations without converging.`);
+
+  const residuals: MatchResidual[] = observed.map((o, i) => ({
+    time: o.time,
+    observed: o.pressure,
+    initial: initialModel[i],
+    model: model[i]
+  }));
+  const rms = (m: number[]) => Math.sqrt(cost(residualsOf(m)) / n);
+
+  return {
+    parameters,
+    residuals,
+    rms_initial: rms(initialModel),
+    rms: rms(model),
+    iterations,
+    converged,
+    warnings
+  };
+};
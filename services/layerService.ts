@@ -0,0 +1,142 @@
+import { FormationLayer, VerticalPoint } from "../types";
+
+const QUADRATURE = 128;
+
+// Layers sorted by top depth. Depths above the first top belong to the first
+// layer and depths below the last top to the last layer.
+export const sortLayers = (layers: FormationLayer[]): FormationLayer[] =>
+  [...layers].sort((a, b) => a.top - b.top);
+
+export const layerAt = (sorted: FormationLayer[], depth: number): FormationLayer => {
+  let found = sorted[0];
+  for (const layer of sorted) {
+    if (layer.top <= depth) found = layer;
+  }
+  return found;
+};
+
+// Bounds of the layer containing the depth (infinite at the ends of the column)
+export const layerBounds = (sorted: FormationLayer[], depth: number): { top: number, bottom: number } => {
+  const layer = layerAt(sorted, depth);
+  const idx = sorted.indexOf(layer);
+  return {
+    top: idx === 0 ? -Infinity : layer.top,
+    bottom: idx < sorted.length - 1 ? sorted[idx + 1].top : Infinity
+  };
+};
+
+// Thickness-weighted average of a layer property over [top, bottom]
+export const averageOver = (
+  sorted: FormationLayer[],
+  top: number,
+  bottom: number,
+  prop: (l: FormationLayer) => number
+): number => {
+  const n = 100;
+  const dz = (bottom - top) / n;
+  if (dz <= 0) return prop(layerAt(sorted, top));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += prop(layerAt(sorted, top + (i + 0.5) * dz));
+  return sum / n;
+};
+
+// Fluid pressure minus closure stress at depth z. pPerf is the absolute fracture
+// pressure, taken as uniform over the height (no vertical flow gradient).
+const netPressureAt = (sorted: FormationLayer[], pPerf: number) =>
+  (z: number) => pPerf - layerAt(sorted, z).stress;
+
+// Mode I stress intensity at the top and bottom tips of a 2D vertical crack
+// spanning [top, bottom] under the net pressure profile dp(z)
+export const tipStressIntensity = (
+  dp: (z: number) => number,
+  top: number,
+  bottom: number
+): { top: number, bottom: number } => {
+  const a = (bottom - top) / 2;
+  const c = (bottom + top) / 2;
+  const dTheta = Math.PI / QUADRATURE;
+  let kTop = 0;
+  let kBot = 0;
+  for (let i = 0; i < QUADRATURE; i++) {
+    const theta = -Math.PI / 2 + (i + 0.5) * dTheta;
+    const s = Math.sin(theta);
+    const p = dp(c + a * s);
+    kTop += p * (1 - s);
+    kBot += p * (1 + s);
+  }
+  const scale = Math.sqrt(a / Math.PI) * dTheta;
+  return { top: kTop * scale, bottom: kBot * scale };
+};
+
+// Equilibrium height: a tip advances while its stress intensity still exceeds
+// the toughness of the layer it would move into. Steps are refined down to
+// minStep so each tip ends within minStep short of its equilibrium position.
+export const equilibriumHeight = (
+  sorted: FormationLayer[],
+  pPerf: number,
+  start: { top: number, bottom: number },
+  maxHeight: number,
+  minStep = 0.05
+): { top: number, bottom: number, contained: boolean } => {
+  const dp = netPressureAt(sorted, pPerf);
+  const propagates = (top: number, bottom: number, tip: 'top' | 'bottom') =>
+    tipStressIntensity(dp, top, bottom)[tip] > layerAt(sorted, tip === 'top' ? top : bottom).K_IC;
+  let { top, bottom } = start;
+  let step = Math.max(minStep, (bottom - top) / 4);
+  while (step >= minStep) {
+    let moved = true;
+    while (moved) {
+      moved = false;
+      if (bottom - top >= maxHeight) return { top, bottom, contained: false };
+      if (propagates(top, bottom, 'top') && propagates(top - step, bottom, 'top')) {
+        top -= step;
+        moved = true;
+      }
+      if (propagates(top, bottom, 'bottom') && propagates(top, bottom + step, 'bottom')) {
+        bottom += step;
+        moved = true;
+      }
+    }
+    step /= 4;
+  }
+  return { top, bottom, contained: true };
+};
+
+// Vertical width profile of the crack under the layered net pressure:
+// w(z) = 2 / (pi E') * integral of dp(s) ln|(A + B) / (A - B)| ds,
+// with A = sqrt(a^2 - x^2), B = sqrt(a^2 - s^2) about the crack centre
+export const verticalWidthProfile = (
+  sorted: FormationLayer[],
+  pPerf: number,
+  top: number,
+  bottom: number,
+  E_prime: number,
+  points = 40
+): VerticalPoint[] => {
+  const dp = netPressureAt(sorted, pPerf);
+  const a = (bottom - top) / 2;
+  const c = (bottom + top) / 2;
+  const n = 200;
+  const ds = (2 * a) / n;
+  const profile: VerticalPoint[] = [];
+  for (let i = 0; i <= points; i++) {
+    const x = -a + (2 * a * i) / points;
+    const A = Math.sqrt(Math.max(0, a * a - x * x));
+    let integral = 0;
+    if (A > 0) {
+      for (let j = 0; j < n; j++) {
+        const sPos = -a + (j + 0.5) * ds;
+        const B = Math.sqrt(Math.max(0, a * a - sPos * sPos));
+        const diff = Math.abs(A - B);
+        if (diff > 1e-12) integral += dp(c + sPos) * Math.log((A + B) / diff) * ds;
+      }
+    }
+    const z = c + x;
+    profile.push({
+      depth: z,
+      width: Math.max(0, (2 / (Math.PI * E_prime)) * integral),
+      stress: layerAt(sorted, z).stress
+    });
+  }
+  return profile;
+};
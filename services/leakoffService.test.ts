@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { dtDAtG, efficiencyFromClosureG, marchMaterialBalance, nolteG, nolteSmallG } from './leakoffService';
+
+// Closed forms of g(dtD) for the two bounding area-growth exponents
+const gLow = (d: number) => (1 + d) * Math.asin(1 / Math.sqrt(1 + d)) + Math.sqrt(d); // alpha = 1/2
+const gHigh = (d: number) => (4 / 3) * (Math.pow(1 + d, 1.5) - Math.pow(d, 1.5)); // alpha = 1
+
+describe('nolteG', () => {
+  it('starts at zero at shut-in', () => {
+    expect(nolteG(0, 0.5)).toBe(0);
+    expect(nolteG(0, 1)).toBe(0);
+  });
+
+  it('matches the closed forms at alpha = 1/2 and alpha = 1', () => {
+    expect(nolteSmallG(0, 0.5)).toBeCloseTo(Math.PI / 2, 3);
+    expect(nolteSmallG(0, 1)).toBeCloseTo(4 / 3, 3);
+    [0.1, 1, 10].forEach(d => {
+      expect(nolteG(d, 0.5)).toBeCloseTo((4 / Math.PI) * (gLow(d) - Math.PI / 2), 3);
+      expect(nolteG(d, 1)).toBeCloseTo((4 / Math.PI) * (gHigh(d) - 4 / 3), 3);
+    });
+  });
+
+  it('grows as sqrt(dtD) at long shut-in times', () => {
+    const d = 1e4;
+    expect(nolteG(4 * d, 0.5) / nolteG(d, 0.5)).toBeCloseTo(2, 1);
+  });
+
+  it('is inverted by dtDAtG', () => {
+    expect(dtDAtG(0, 0.5)).toBe(0);
+    expect(dtDAtG(nolteG(2.5, 0.75), 0.75)).toBeCloseTo(2.5, 3);
+  });
+});
+
+describe('efficiencyFromClosureG', () => {
+  it('reduces to Gc / (2 + Gc) for alpha = 1/2', () => {
+    [0.5, 2, 8].forEach(Gc => expect(efficiencyFromClosureG(Gc, 0.5)).toBeCloseTo(Gc / (2 + Gc), 3));
+  });
+});
+
+describe('marchMaterialBalance', () => {
+  // Fixed-width slot 10 m high: fracture volume = 0.01 * L
+  const slot = (CL: number) => (_t: number, L: number) => ({ w_avg: 0.001, area: 10 * L, CL });
+  const times = [60, 120, 300, 600];
+  const q = 0.05;
+
+  it('stores every injected volume in the fracture at zero leak-off', () => {
+    const steps = marchMaterialBalance(times, t => q * t, slot(0), 0);
+    steps.forEach(s => {
+      expect(s.volume_leakoff).toBe(0);
+      expect(s.volume_fracture / s.volume_injected).toBe(1);
+      expect(s.length / ((q * s.time) / 0.01)).toBeCloseTo(1, 5);
+    });
+  });
+
+  it('loses only the spurt volume when the Carter coefficient is zero', () => {
+    const Sp = 1e-4;
+    const steps = marchMaterialBalance(times, t => q * t, slot(0), Sp);
+    steps.forEach(s => {
+      expect(s.volume_leakoff).toBeCloseTo(2 * 10 * s.length * Sp, 6);
+      expect(s.volume_spurt).toBeCloseTo(s.volume_leakoff, 6);
+    });
+  });
+});
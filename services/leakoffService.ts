@@ -0,0 +1,135 @@
+// Carter leak-off helpers shared by the shut-in simulation and DFIT analysis.
+// Time is made dimensionless with the pumping time: dtD = (t - tp) / tp.
+
+// Nolte's g-function for a fracture whose area grew as t^alpha during pumping:
+// g(dtD, alpha) = integral over 0..1 of 2 * sqrt(1 + dtD - phi^(1/alpha)) dphi
+// alpha = 1/2 is the high leak-off bound, alpha = 1 the low leak-off bound.
+export const nolteSmallG = (dtD: number, alpha: number): number => {
+  const n = 400; // Even number of Simpson intervals
+  const h = 1 / n;
+  const f = (phi: number) => 2 * Math.sqrt(Math.max(0, 1 + dtD - Math.pow(phi, 1 / alpha)));
+  let sum = f(0) + f(1);
+  for (let i = 1; i < n; i++) {
+    sum += (i % 2 === 0 ? 2 : 4) * f(i * h);
+  }
+  return (sum * h) / 3;
+};
+
+// Nolte's G-function: G(dtD) = 4/pi * (g(dtD) - g(0))
+export const nolteG = (dtD: number, alpha: number): number =>
+  (4 / Math.PI) * (nolteSmallG(dtD, alpha) - nolteSmallG(0, alpha));
+
+// Fluid efficiency at shut-in from the G-function value at closure.
+// Reduces to the familiar Gc / (2 + Gc) for alpha = 1/2.
+export const efficiencyFromClosureG = (G_c: number, alpha: number): number =>
+  G_c / (G_c + (4 / Math.PI) * nolteSmallG(0, alpha));
+
+// Dimensionless shut-in time at which the given G value is reached (bisection)
+export const dtDAtG = (G: number, alpha: number, maxDtD = 1e6): number => {
+  if (G <= 0) return 0;
+  if (nolteG(maxDtD, alpha) < G) return Infinity;
+  let lo = 0;
+  let hi = maxDtD;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (nolteG(mid, alpha) < G) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-6 * Math.max(1, lo)) break;
+  }
+  return (lo + hi) / 2;
+};
+
+// Fracture state for a trial length: average width, leak-off area (one face)
+// and the Carter coefficient of newly opened area
+export interface BalanceState {
+  w_avg: number;
+  area: number;
+  CL: number;
+}
+
+export interface BalanceStep<S extends BalanceState> {
+  time: number;
+  length: number;
+  state: S;
+  volume_injected: number;
+  volume_fracture: number;
+  volume_leakoff: number; // Carter leak-off plus spurt, both faces
+  volume_spurt: number;
+}
+
+// Surface elements opened during each step, with the time they were exposed
+interface LeakoffElement {
+  area: number;
+  tau: number; // Opening time (middle of the step that created it)
+  CL: number;
+}
+
+// Carter leak-off (both faces) from an element exposed at tau, up to time t
+const elementLoss = (e: LeakoffElement, t: number, Sp: number) =>
+  2 * e.area * (2 * e.CL * Math.sqrt(Math.max(0, t - e.tau)) + Sp);
+
+// Time-stepping material balance: at each time the length is found (bisection)
+// so that injected volume = fracture volume + leak-off + spurt, with leak-off
+// summed over every element since it opened. The fracture does not recede: if
+// the width relation alone overfills it at the previous length, the length holds.
+// settle (optional) updates the accepted state once per step, e.g. height growth.
+export const marchMaterialBalance = <S extends BalanceState>(
+  times: number[],
+  volumeAt: (t: number) => number,
+  stateAt: (t: number, L: number, previous: S | null) => S,
+  Sp: number,
+  settle?: (t: number, L: number, state: S) => S
+): BalanceStep<S>[] => {
+  const elements: LeakoffElement[] = [];
+  const steps: BalanceStep<S>[] = [];
+  let prevTime = 0;
+  let prevL = 0;
+  let prevState: S | null = null;
+
+  for (const t of times) {
+    const V = volumeAt(t);
+    const tau = (prevTime + t) / 2;
+    const prevArea = prevState ? prevState.area : 0;
+    const oldLoss = elements.reduce((sum, e) => sum + elementLoss(e, t, Sp), 0);
+    const imbalance = (L: number) => {
+      const s = stateAt(t, L, prevState);
+      const newArea = Math.max(0, s.area - prevArea);
+      return s.w_avg * s.area + oldLoss + elementLoss({ area: newArea, tau, CL: s.CL }, t, Sp) - V;
+    };
+
+    let L = prevL;
+    if (prevL <= 0 || imbalance(prevL) < 0) {
+      let lo = prevL;
+      let hi = Math.max(2 * prevL, 1);
+      for (let i = 0; i < 60 && imbalance(hi) < 0; i++) hi *= 2;
+      for (let i = 0; i < 60 && hi - lo > 1e-6 * hi; i++) {
+        const mid = (lo + hi) / 2;
+        if (imbalance(mid) < 0) lo = mid;
+        else hi = mid;
+      }
+      L = (lo + hi) / 2;
+    }
+
+    let state = stateAt(t, L, prevState);
+    if (settle) state = settle(t, L, state);
+    const newArea = Math.max(0, state.area - prevArea);
+    if (newArea > 0) elements.push({ area: newArea, tau, CL: state.CL });
+    const loss = elements.reduce((sum, e) => sum + elementLoss(e, t, Sp), 0);
+    const spurt = elements.reduce((sum, e) => sum + 2 * e.area * Sp, 0);
+    const lossCapped = Math.min(V, loss);
+
+    steps.push({
+      time: t,
+      length: L,
+      state,
+      volume_injected: V,
+      volume_fracture: V - lossCapped,
+      volume_leakoff: lossCapped,
+      volume_spurt: Math.min(spurt, lossCapped)
+    });
+    prevTime = t;
+    prevL = L;
+    prevState = state;
+  }
+  return steps;
+};
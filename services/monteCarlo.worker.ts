@@ -0,0 +1,33 @@
+import { FracInputs, InputCorrelation, InputDistribution, ModelType, MonteCarloResult, SimulationOptions } from "../types";
+import { runMonteCarlo } from "./monteCarloService";
+
+// Messages exchanged with the Monte Carlo worker; everything is SI
+export interface MonteCarloRequest {
+  type: ModelType;
+  inputs: FracInputs;
+  options: SimulationOptions;
+  distributions: InputDistribution[];
+  correlations: InputCorrelation[];
+  realizations: number;
+  seed: number;
+}
+
+export type MonteCarloMessage =
+  | { kind: 'progress', done: number }
+  | { kind: 'done', result: MonteCarloResult }
+  | { kind: 'error', message: string };
+
+const post = (message: MonteCarloMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<MonteCarloRequest>) => {
+  const req = e.data;
+  try {
+    const result = runMonteCarlo(
+      req.type, req.inputs, req.options, req.distributions, req.correlations, req.realizations, req.seed,
+      done => post({ kind: 'progress', done })
+    );
+    post({ kind: 'done', result });
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,195 @@
+import {
+  DistributionType, FracInputs, InputCorrelation, InputDistribution, ModelType, MonteCarloResult, OutputStats, SimulationOptions
+} from "../types";
+import { runModel } from "./fractureService";
+
+// Small seeded generator (mulberry32) so a run can be repeated exactly
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const standardNormal = (rng: () => number): number => {
+  const u = Math.max(rng(), 1e-300);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+// Lower Cholesky factor of a correlation matrix
+const cholesky = (m: number[][]): number[][] => {
+  const n = m.length;
+  const L = m.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) throw new Error('Correlations are inconsistent (matrix is not positive definite).');
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+};
+
+// Reject parameter sets that cannot be sampled; returns the problems found
+export const validateDistributions = (dists: InputDistribution[], correlations: InputCorrelation[]): string[] => {
+  const errors: string[] = [];
+  const fields = new Set<string>();
+  dists.forEach(d => {
+    if (fields.has(d.field)) errors.push(`${d.field} has more than one distribution.`);
+    fields.add(d.field);
+    if (![d.a, d.b, d.c].every(Number.isFinite)) errors.push(`${d.field}: parameters must be numbers.`);
+    else if (d.type === DistributionType.UNIFORM && !(d.b > d.a)) errors.push(`${d.field}: max must exceed min.`);
+    else if (d.type === DistributionType.TRIANGULAR && !(d.a <= d.b && d.b <= d.c && d.c > d.a)) errors.push(`${d.field}: need min ≤ mode ≤ max.`);
+    else if ((d.type === DistributionType.NORMAL || d.type === DistributionType.LOGNORMAL) && !(d.b > 0)) errors.push(`${d.field}: std dev must be positive.`);
+    else if (d.type === DistributionType.LOGNORMAL && !(d.a > 0)) errors.push(`${d.field}: lognormal mean must be positive.`);
+  });
+  correlations.forEach(c => {
+    if (!fields.has(c.a) || !fields.has(c.b)) errors.push(`Correlation ${c.a}–${c.b} refers to an input without a distribution.`);
+    else if (c.a === c.b) errors.push(`Correlation of ${c.a} with itself.`);
+    else if (!(Math.abs(c.rho) < 1)) errors.push(`Correlation ${c.a}–${c.b} must lie strictly between -1 and 1.`);
+  });
+  return errors;
+};
+
+// Map a correlated standard normal score onto the marginal distribution
+const fromNormalScore = (d: InputDistribution, z: number): number => {
+  switch (d.type) {
+    case DistributionType.NORMAL:
+      return d.a + d.b * z;
+    case DistributionType.LOGNORMAL: {
+      const s2 = Math.log(1 + (d.b * d.b) / (d.a * d.a));
+      return Math.exp(Math.log(d.a) - s2 / 2 + Math.sqrt(s2) * z);
+    }
+    case DistributionType.TRIANGULAR: {
+      const u = Math.min(Math.max(normalCdf(z), 1e-12), 1 - 1e-12);
+      const span = d.c - d.a;
+      const split = (d.b - d.a) / span;
+      return u < split
+        ? d.a + Math.sqrt(u * span * (d.b - d.a))
+        : d.c - Math.sqrt((1 - u) * span * (d.c - d.b));
+    }
+    case DistributionType.UNIFORM:
+    default:
+      return d.a + (d.b - d.a) * normalCdf(z);
+  }
+};
+
+// Linear interpolation between order statistics
+const quantile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const pos = p * (sorted.length - 1);
+  const i = Math.floor(pos);
+  const frac = pos - i;
+  return i + 1 < sorted.length ? sorted[i] + frac * (sorted[i + 1] - sorted[i]) : sorted[i];
+};
+
+const summarize = (values: number[]): OutputStats => {
+  const samples = [...values].sort((a, b) => a - b);
+  return {
+    p10: quantile(samples, 0.9),
+    p50: quantile(samples, 0.5),
+    p90: quantile(samples, 0.1),
+    mean: samples.reduce((s, v) => s + v, 0) / Math.max(samples.length, 1),
+    samples
+  };
+};
+
+// Run the model on correlated random draws of the uncertain inputs (SI).
+// Correlations apply to the normal scores (Gaussian copula). Draws with
+// negative inputs, nu >= 0.5 or a failed solution are rejected, which
+// truncates the joint distribution to its physical part.
+export const runMonteCarlo = (
+  type: ModelType,
+  inputs: FracInputs,
+  options: SimulationOptions,
+  dists: InputDistribution[],
+  correlations: InputCorrelation[],
+  realizations: number,
+  seed: number,
+  onProgress?: (done: number) => void
+): MonteCarloResult => {
+  const errors = validateDistributions(dists, correlations);
+  if (errors.length > 0) throw new Error(errors.join(' '));
+
+  // Rate and viscosity live on the stages when a schedule is active: each draw
+  // scales them by its ratio to the base value, which must then be positive
+  const stages = options.schedule ?? [];
+  const scheduled = stages.length > 0;
+  const unscalable = dists.filter(d => (d.field === 'q' || d.field === 'mu') && !(inputs[d.field] > 0));
+  if (scheduled && unscalable.length > 0) {
+    throw new Error(`${unscalable.map(d => d.field).join(' and ')} must be positive to scale the pump schedule.`);
+  }
+  const ratio = (sample: FracInputs, field: 'q' | 'mu') => inputs[field] > 0 ? sample[field] / inputs[field] : 1;
+
+  const index = new Map(dists.map((d, i) => [d.field, i]));
+  const corr: number[][] = dists.map((_, i) => dists.map((__, j) => (i === j ? 1 : 0)));
+  correlations.forEach(c => {
+    const i = index.get(c.a)!;
+    const j = index.get(c.b)!;
+    corr[i][j] = corr[j][i] = c.rho;
+  });
+  const L = cholesky(corr);
+  const rng = createRng(seed);
+
+  const length: number[] = [];
+  const width: number[] = [];
+  const p_net: number[] = [];
+  const p_surface: number[] = [];
+  let exceeded = 0;
+  let rejected = 0;
+
+  for (let n = 0; n < realizations; n++) {
+    const z = dists.map(() => standardNormal(rng));
+    const sample = { ...inputs };
+    dists.forEach((d, i) => {
+      let y = 0;
+      for (let k = 0; k <= i; k++) y += L[i][k] * z[k];
+      sample[d.field] = fromNormalScore(d, y);
+    });
+
+    const physical = (Object.keys(sample) as (keyof FracInputs)[]).every(k => sample[k] >= 0) && sample.nu < 0.5;
+    const schedule = scheduled
+      ? stages.map(s => ({ ...s, q: s.q * ratio(sample, 'q'), mu: s.mu * ratio(sample, 'mu') }))
+      : options.schedule;
+    const res = physical ? runModel(type, sample, { ...options, schedule }) : null;
+
+    if (!res || ![res.length, res.width_max, res.p_net, res.p_surface_max].every(v => Number.isFinite(v) && v > 0)) {
+      rejected++;
+    } else {
+      length.push(res.length);
+      width.push(res.width_max);
+      p_net.push(res.p_net);
+      p_surface.push(res.p_surface_max);
+      if (res.p_surface_max > sample.p_limit) exceeded++;
+    }
+    if (onProgress && ((n + 1) % 25 === 0 || n + 1 === realizations)) onProgress(n + 1);
+  }
+
+  return {
+    type,
+    realizations: length.length,
+    rejected,
+    length: summarize(length),
+    width: summarize(width),
+    p_net: summarize(p_net),
+    p_surface: summarize(p_surface),
+    p_exceed: length.length > 0 ? exceeded / length.length : 0
+  };
+};
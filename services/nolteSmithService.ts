@@ -0,0 +1,111 @@
+import { ModelResult, ModelType, NolteSmithMode, NolteSmithSegment } from "../types";
+
+const WINDOW = 2; // Points either side of the local slope fit
+const MIN_DECADES = 0.1; // Shorter runs are absorbed by a neighbour
+
+// Slope bands on the log-log plot; Mode I is Nordgren's 1/8 to 1/4
+const modeOf = (slope: number): NolteSmithMode => {
+  if (slope < -0.1) return 'IV';
+  if (slope < 0.08) return 'II';
+  if (slope < 0.45) return 'I';
+  return 'III';
+};
+
+// KGD and radial fractures grow without a height barrier, so a falling net
+// pressure is their normal response rather than runaway height growth
+const unconfined = (type: ModelType) => type === ModelType.KGD || type === ModelType.RADIAL;
+
+const interpret = (type: ModelType, mode: NolteSmithMode): { interpretation: string, problem: boolean } => {
+  if (mode === 'III') return { interpretation: 'Restricted tip extension or tip screenout', problem: true };
+  if (unconfined(type)) {
+    return mode === 'I'
+      ? { interpretation: 'Rising pressure: extension restricted for an unconfined geometry', problem: false }
+      : { interpretation: 'Unconfined radial/KGD extension', problem: false };
+  }
+  switch (mode) {
+    case 'I': return { interpretation: 'Confined height, extending length', problem: false };
+    case 'II': return { interpretation: 'Pressure capped: stable height growth or fissure opening', problem: true };
+    case 'IV':
+    default: return { interpretation: 'Unstable height growth through a barrier', problem: true };
+  }
+};
+
+// Least-squares slope of ln(p) on ln(t)
+const logSlope = (pts: { time: number, pressure: number }[]): number => {
+  const xs = pts.map(p => Math.log(p.time));
+  const ys = pts.map(p => Math.log(p.pressure));
+  const mx = xs.reduce((s, v) => s + v, 0) / xs.length;
+  const my = ys.reduce((s, v) => s + v, 0) / ys.length;
+  const sxx = xs.reduce((s, v) => s + (v - mx) ** 2, 0);
+  const sxy = xs.reduce((s, v, i) => s + (v - mx) * (ys[i] - my), 0);
+  return sxx > 0 ? sxy / sxx : NaN;
+};
+
+const median = (vals: number[]) => {
+  const s = [...vals].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+};
+
+// Split a net pressure record into straight log-log segments and classify
+// each by its slope. Local slopes never span a change of `group` (the pump
+// stage for model output), so rate steps do not read as slope changes.
+export const nolteSmithSegments = (
+  type: ModelType,
+  points: { time: number, pressure: number, group?: number }[]
+): NolteSmithSegment[] => {
+  const pts = points.filter(p => p.time > 0 && p.pressure > 0).sort((a, b) => a.time - b.time);
+  const local = pts.map((p, i) => {
+    const window = pts.slice(Math.max(0, i - WINDOW), i + WINDOW + 1).filter(q => q.group === p.group);
+    return { time: p.time, slope: window.length >= 3 ? logSlope(window) : NaN };
+  }).filter(l => Number.isFinite(l.slope));
+  if (local.length < 3) return [];
+
+  // Runs of one mode; short runs join the previous run (or the next, at the start)
+  let runs: { slopes: number[], start: number, end: number }[] = [];
+  local.forEach(l => {
+    const last = runs[runs.length - 1];
+    if (last && modeOf(median(last.slopes)) === modeOf(l.slope)) {
+      last.slopes.push(l.slope);
+      last.end = l.time;
+    } else {
+      runs.push({ slopes: [l.slope], start: l.time, end: l.time });
+    }
+  });
+  const tooShort = (r: { slopes: number[], start: number, end: number }) =>
+    r.slopes.length < 3 || Math.log10(r.end / r.start) < MIN_DECADES;
+  let i: number;
+  while (runs.length > 1 && (i = runs.findIndex(tooShort)) >= 0) {
+    const into = i > 0 ? i - 1 : 1;
+    const [a, b] = into < i ? [runs[into], runs[i]] : [runs[i], runs[into]];
+    runs.splice(Math.min(i, into), 2, { slopes: [...a.slopes, ...b.slopes], start: a.start, end: b.end });
+  }
+
+  // Merging can leave neighbours in the same mode
+  runs = runs.reduce<typeof runs>((acc, r) => {
+    const last = acc[acc.length - 1];
+    if (last && modeOf(median(last.slopes)) === modeOf(median(r.slopes))) {
+      last.slopes.push(...r.slopes);
+      last.end = r.end;
+    } else {
+      acc.push({ ...r, slopes: [...r.slopes] });
+    }
+    return acc;
+  }, []);
+
+  return runs.map(r => {
+    const slope = median(r.slopes);
+    const mode = modeOf(slope);
+    return { start: r.start, end: r.end, slope, mode, ...interpret(type, mode) };
+  });
+};
+
+// Segments of the model's own pumping history
+export const modelNolteSmith = (result: ModelResult): NolteSmithSegment[] =>
+  nolteSmithSegments(result.type, result.timeSeries
+    .filter(ts => ts.phase === 'pumping')
+    .map(ts => ({ time: ts.time, pressure: ts.pressure, group: ts.stage })));
+
+export const nolteSmithWarnings = (segments: NolteSmithSegment[]): string[] =>
+  segments.filter(s => s.problem).map(s =>
+    `Nolte-Smith Mode ${s.mode} (slope ${s.slope.toFixed(2)}) from ${s.start.toFixed(0)} s to ${s.end.toFixed(0)} s: ${s.interpretation.toLowerCase()}.`);
@@ -0,0 +1,30 @@
+import { DesignConstraints, DesignResult, FracInputs, ModelType, SimulationOptions } from "../types";
+import { optimizeDesign } from "./optimizerService";
+
+// Messages exchanged with the design optimizer worker; everything is SI
+export interface OptimizerRequest {
+  type: ModelType;
+  inputs: FracInputs;
+  options: SimulationOptions;
+  constraints: DesignConstraints;
+}
+
+export type OptimizerMessage =
+  | { kind: 'progress', done: number, total: number }
+  | { kind: 'done', result: DesignResult }
+  | { kind: 'error', message: string };
+
+const post = (message: OptimizerMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  const req = e.data;
+  try {
+    const result = optimizeDesign(
+      req.type, req.inputs, req.options, req.constraints,
+      (done, total) => post({ kind: 'progress', done, total })
+    );
+    post({ kind: 'done', result });
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,157 @@
+import {
+  DesignConstraints, DesignPoint, DesignResult, FracInputs, ModelResult, ModelType, PumpSchedule, RheologyType, SimulationOptions
+} from "../types";
+import { getPumpTime, getSchedule, runModel } from "./fractureService";
+
+// Relative miss within which a design counts as on target
+export const TARGET_TOLERANCE = 0.02;
+
+const RATE_LEVELS = 8; // From q_max / 8 up to q_max
+const TIME_FACTORS = [0.25, 0.35, 0.5, 0.7, 1, 1.4, 2, 2.8, 4];
+const VISCOSITY_FACTORS = [0.25, 0.5, 1, 2, 4];
+
+export interface DesignFactors {
+  q: number;
+  time: number;
+  mu: number;
+}
+
+// Scale the rate, pump time and viscosity (K' for non-Newtonian fluids) of a
+// design. All three convert linearly, so this works in any unit system.
+export const scaleDesign = (
+  inputs: FracInputs,
+  schedule: PumpSchedule,
+  rheology: RheologyType | undefined,
+  f: DesignFactors
+): { inputs: FracInputs, schedule: PumpSchedule } => {
+  const newtonian = rheology === undefined || rheology === RheologyType.NEWTONIAN;
+  return {
+    inputs: {
+      ...inputs,
+      q: inputs.q * f.q,
+      time: inputs.time * f.time,
+      mu: newtonian ? inputs.mu * f.mu : inputs.mu,
+      K_prime: newtonian ? inputs.K_prime : inputs.K_prime * f.mu
+    },
+    schedule: schedule.map(s => ({ ...s, q: s.q * f.q, duration: s.duration * f.time, mu: newtonian ? s.mu * f.mu : s.mu }))
+  };
+};
+
+const metricOf = (res: ModelResult, metric: DesignConstraints['metric']): number | null => {
+  switch (metric) {
+    case 'width': return res.width_avg;
+    case 'conductivity': return res.proppant ? res.proppant.conductivity : null;
+    case 'length':
+    default: return res.length;
+  }
+};
+
+const violationsOf = (p: Omit<DesignPoint, 'violations'>, c: DesignConstraints): string[] => {
+  const v: string[] = [];
+  if (p.p_surface > c.p_limit) v.push('Surface pressure');
+  if (p.q > c.q_max * (1 + 1e-9)) v.push('Rate');
+  if (p.volume > c.volume_max) v.push('Fluid volume');
+  if (p.efficiency < c.efficiency_min) v.push('Efficiency');
+  return v;
+};
+
+const miss = (p: DesignPoint, target: number) =>
+  p.metric === null ? Infinity : Math.abs(p.metric - target) / target;
+
+// Designs whose metric could be evaluated, the only ones that can bracket the target
+type MeasuredPoint = DesignPoint & { metric: number };
+const isMeasured = (p: DesignPoint): p is MeasuredPoint => p.metric !== null;
+
+// Search rate x pump time x viscosity for the cheapest design (least fluid)
+// that hits the target without breaking a constraint. The grid maps the
+// feasible region; along each rate/viscosity line the metric grows with pump
+// time, so the best bracket found on the grid is refined by bisection on time.
+export const optimizeDesign = (
+  type: ModelType,
+  inputs: FracInputs,
+  options: SimulationOptions,
+  constraints: DesignConstraints,
+  onProgress?: (done: number, total: number) => void
+): DesignResult => {
+  const schedule = options.schedule ?? [];
+  const base = getSchedule(inputs, options);
+  const q_peak = Math.max(...base.map(s => s.q));
+  const time_base = getPumpTime(base);
+  const newtonian = options.rheology === undefined || options.rheology === RheologyType.NEWTONIAN;
+  const mu_base = newtonian ? Math.max(...base.map(s => s.mu)) : inputs.K_prime;
+  if (!(constraints.target > 0)) throw new Error('Target must be positive.');
+  if (!(constraints.q_max > 0)) throw new Error('Maximum rate must be positive.');
+  if (constraints.metric === 'conductivity' && !base.some(s => s.proppant > 0)) {
+    throw new Error('Conductivity target needs a pump schedule with proppant stages.');
+  }
+
+  const evaluate = (f: DesignFactors): DesignPoint => {
+    const scaled = scaleDesign(inputs, schedule, options.rheology, f);
+    const res = runModel(type, scaled.inputs, { ...options, schedule: scaled.schedule });
+    const point = {
+      q_factor: f.q,
+      time_factor: f.time,
+      mu_factor: f.mu,
+      q: q_peak * f.q,
+      time: time_base * f.time,
+      mu: mu_base * f.mu,
+      metric: metricOf(res, constraints.metric),
+      p_surface: res.p_surface_max,
+      volume: res.volume_injected,
+      efficiency: res.efficiency
+    };
+    return { ...point, violations: violationsOf(point, constraints) };
+  };
+
+  const rateFactors = Array.from({ length: RATE_LEVELS }, (_, i) =>
+    (constraints.q_max / q_peak) * Math.pow(1 / 8, 1 - i / (RATE_LEVELS - 1)));
+  const total = rateFactors.length * TIME_FACTORS.length * VISCOSITY_FACTORS.length;
+  const points: DesignPoint[] = [];
+  rateFactors.forEach(q => VISCOSITY_FACTORS.forEach(mu => TIME_FACTORS.forEach(time => {
+    points.push(evaluate({ q, time, mu }));
+    onProgress?.(points.length, total);
+  })));
+
+  // Brackets of the target along pump time, with the constraints estimated
+  // at the interpolated time, cheapest first
+  const { target } = constraints;
+  const measured = points.filter(isMeasured);
+  const candidates: { lo: MeasuredPoint, hi: MeasuredPoint, volume: number }[] = [];
+  for (let i = 0; i + 1 < measured.length; i++) {
+    const a = measured[i];
+    const b = measured[i + 1];
+    if (a.q_factor !== b.q_factor || a.mu_factor !== b.mu_factor) continue;
+    if ((a.metric - target) * (b.metric - target) > 0) continue;
+    const s = (target - a.metric) / (b.metric - a.metric || 1);
+    const estimate = {
+      ...a,
+      time: a.time * Math.pow(b.time / a.time, s),
+      p_surface: a.p_surface + s * (b.p_surface - a.p_surface),
+      efficiency: a.efficiency + s * (b.efficiency - a.efficiency),
+      volume: a.volume * Math.pow(b.time / a.time, s)
+    };
+    if (violationsOf(estimate, constraints).length === 0) candidates.push({ lo: a, hi: b, volume: estimate.volume });
+  }
+  candidates.sort((x, y) => x.volume - y.volume);
+
+  for (const { lo, hi } of candidates.slice(0, 3)) {
+    let a = lo;
+    let b = hi;
+    let best: DesignPoint = Math.abs(a.metric - target) < Math.abs(b.metric - target) ? a : b;
+    for (let k = 0; k < 12 && miss(best, target) > TARGET_TOLERANCE / 4; k++) {
+      const mid = evaluate({ q: lo.q_factor, mu: lo.mu_factor, time: Math.sqrt(a.time_factor * b.time_factor) });
+      if (!isMeasured(mid)) break;
+      if ((mid.metric - target) * (a.metric - target) > 0) a = mid;
+      else b = mid;
+      if (miss(mid, target) < miss(best, target)) best = mid;
+    }
+    if (best.violations.length === 0 && miss(best, target) <= TARGET_TOLERANCE) {
+      return { best, onTarget: true, points };
+    }
+  }
+
+  // Target out of reach: closest feasible design, least fluid on ties
+  const feasible = points.filter(p => p.violations.length === 0);
+  const closest = feasible.sort((x, y) => miss(x, target) - miss(y, target) || x.volume - y.volume)[0] ?? null;
+  return { best: closest, onTarget: closest !== null && miss(closest, target) <= TARGET_TOLERANCE, points };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { optimumFCD } from './productionService';
+
+describe('optimumFCD', () => {
+  it('is 1.6 at low proppant numbers', () => {
+    [0.001, 0.01, 0.1].forEach(Np => expect(optimumFCD(Np)).toBe(1.6));
+  });
+
+  it('follows the Economides table above N_p = 0.1', () => {
+    expect(optimumFCD(0.1001)).toBeCloseTo(1.6, 2);
+    expect(optimumFCD(1)).toBeCloseTo(1.6 + Math.exp(-0.583), 9);
+    expect(optimumFCD(10)).toBeCloseTo(10, 1);
+  });
+
+  it('rises with the proppant number', () => {
+    const values = [0.2, 0.5, 1, 2, 5, 10].map(optimumFCD);
+    values.slice(1).forEach((v, i) => expect(v).toBeGreaterThan(values[i]));
+  });
+
+  it('spans the drainage area at N_p = 10', () => {
+    // Penetration I_x = sqrt(N_p / FCD_opt) reaches 1
+    expect(Math.sqrt(10 / optimumFCD(10))).toBeCloseTo(1, 3);
+    expect(Math.sqrt(1 / optimumFCD(1))).toBeLessThan(1);
+  });
+});
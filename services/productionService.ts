@@ -0,0 +1,226 @@
+import { ForecastPoint, ModelResult, ProductionResult, ReservoirInputs, UfdResult } from "../types";
+
+const P_SC = 101325; // Pa, standard pressure
+const T_SC = 288.71; // K, standard temperature (60 °F)
+const KELVIN = 273.15;
+const DAY = 86400;
+const YEAR = 365.25 * DAY;
+const STEPS = 100; // Log-spaced forecast steps from one day to the horizon
+
+// Cinco-Ley & Samaniego (1981) fit: ln(x_f / r_w') as a function of
+// dimensionless conductivity, valid for 0.1 <= FCD <= 1000
+export const cincoLeyF = (FCD: number): number => {
+  const u = Math.log(Math.min(1000, Math.max(0.1, FCD)));
+  return (1.65 - 0.328 * u + 0.116 * u * u) / (1 + 0.18 * u + 0.064 * u * u + 0.005 * u * u * u);
+};
+
+export const effectiveWellboreRadius = (xf: number, FCD: number): number => xf * Math.exp(-cincoLeyF(FCD));
+
+// Propped half-length and conductivity of the designed fracture; null when no
+// proppant was pumped (the caller has to supply a conductivity)
+export const proppedFracture = (result: ModelResult): { xf: number, conductivity: number } | null =>
+  result.proppant ? { xf: result.proppant.propped_length, conductivity: result.proppant.conductivity } : null;
+
+// Dimensionless pressure at time t for a well of effective radius r: early
+// linear flow from the fracture faces (xf > 0), then infinite-acting radial
+// flow, capped by the pseudo-steady state of the closed drainage area
+const pressureDrop = (res: ReservoirInputs, r: number, xf: number, pss: number) => (t: number): number => {
+  const diffusivity = res.k / (res.phi * res.mu * res.ct);
+  const radial = 0.5 * (Math.log((diffusivity * t) / (r * r)) + 0.80907);
+  const linear = xf > 0 ? Math.sqrt((Math.PI * diffusivity * t) / (xf * xf)) : 0;
+  return Math.max(0.1, Math.min(Math.max(radial, linear), pss));
+};
+
+// Rate and cumulative at constant flowing pressure from a closed tank. Oil
+// depletes exponentially within a step; gas follows p/z material balance
+// with constant z, integrated exactly for dp/dt = -a (p^2 - p_wf^2).
+const simulateWell = (res: ReservoirInputs, r: number, xf: number, times: number[]) => {
+  const re = Math.sqrt(res.area / Math.PI);
+  const pss = Math.log(re / r) - 0.75;
+  const pD = pressureDrop(res, r, xf, pss);
+  const Vp = res.area * res.h * res.phi;
+  const T = res.T + KELVIN;
+  const G = (Vp * res.p_res * T_SC) / (P_SC * res.z * T); // Gas in place at standard conditions
+  const C = (Math.PI * res.k * res.h * T_SC) / (P_SC * T * res.mu * res.z);
+  const rateAt = (p: number, t: number) => (res.fluid === 'gas'
+    ? (C * Math.max(0, p * p - res.p_wf * res.p_wf)) / pD(t)
+    : (2 * Math.PI * res.k * res.h * Math.max(0, p - res.p_wf)) / (res.mu * res.B * pD(t)));
+
+  let p = res.p_res;
+  let cumulative = 0;
+  let t0 = 0;
+  return times.map(t => {
+    const dt = t - t0;
+    const pDm = pD(t0 > 0 ? Math.sqrt(t0 * t) : t / 2);
+    let next = p;
+    if (p > res.p_wf) {
+      if (res.fluid === 'gas') {
+        const a = (C * res.p_res) / (G * pDm);
+        if (res.p_wf > 0) {
+          const y = 0.5 * Math.log((p / res.p_wf + 1) / (p / res.p_wf - 1)) + a * res.p_wf * dt;
+          next = res.p_wf * (1 + 2 / (Math.exp(2 * y) - 1)); // p_wf coth(y)
+        } else {
+          next = p / (1 + a * p * dt);
+        }
+        cumulative += (G * (p - next)) / res.p_res;
+      } else {
+        const tau = (res.mu * pDm * Vp * res.ct) / (2 * Math.PI * res.k * res.h);
+        next = res.p_wf + (p - res.p_wf) * Math.exp(-dt / tau);
+        cumulative += (Vp * res.ct * (p - next)) / res.B;
+      }
+    }
+    p = next;
+    t0 = t;
+    return { rate: rateAt(p, t), cumulative };
+  });
+};
+
+// Forecast for the fractured well and the same well unfractured. The fracture
+// enters through the Cinco-Ley effective wellbore radius; the productivity
+// ratio is taken at pseudo-steady state. Inputs in SI.
+export const forecastProduction = (
+  reservoir: ReservoirInputs,
+  xf: number,
+  conductivity: number,
+  years: number
+): ProductionResult => {
+  if (!(reservoir.k > 0) || !(reservoir.h > 0) || !(reservoir.phi > 0) || !(reservoir.area > 0)) {
+    throw new Error('Permeability, thickness, porosity and drainage area must be positive.');
+  }
+  if (!(reservoir.p_res > reservoir.p_wf)) throw new Error('Reservoir pressure must exceed the flowing pressure.');
+  if (!(xf > 0) || !(conductivity > 0)) throw new Error('The fracture needs a positive half-length and conductivity.');
+  if (!(years > 0)) throw new Error('Forecast horizon must be positive.');
+
+  const warnings: string[] = [];
+  const re = Math.sqrt(reservoir.area / Math.PI);
+  if (xf >= re) warnings.push('Propped half-length reaches the drainage radius: the radial drainage assumption no longer holds.');
+  const FCD = conductivity / (reservoir.k * xf);
+  if (FCD < 0.1 || FCD > 1000) warnings.push(`FCD ${FCD.toPrecision(3)} is outside the Cinco-Ley correlation range (0.1 to 1000).`);
+  if (FCD < 1.6) warnings.push('Fracture is conductivity-limited (FCD < 1.6): more or stronger proppant adds more than length.');
+  else if (FCD > 10) warnings.push('Fracture is length-limited (FCD > 10): a longer fracture with the same proppant adds more.');
+
+  const rw_eff = effectiveWellboreRadius(xf, FCD);
+  const folds = (Math.log(re / reservoir.rw) - 0.75) / (Math.log(re / rw_eff) - 0.75);
+
+  const horizon = years * YEAR;
+  const times = Array.from({ length: STEPS }, (_, i) => DAY * Math.pow(horizon / DAY, i / (STEPS - 1)));
+  const fractured = simulateWell(reservoir, rw_eff, xf, times);
+  const base = simulateWell(reservoir, reservoir.rw, 0, times);
+  const points: ForecastPoint[] = times.map((time, i) => ({
+    time,
+    rate: fractured[i].rate,
+    cumulative: fractured[i].cumulative,
+    rate_base: base[i].rate,
+    cumulative_base: base[i].cumulative
+  }));
+
+  return {
+    xf,
+    conductivity,
+    FCD,
+    rw_eff,
+    skin: Math.log(reservoir.rw / rw_eff),
+    folds,
+    points,
+    warnings
+  };
+};
+
+// Pseudo-steady dimensionless productivity index of a fractured well in a
+// circular drainage area, through the Cinco-Ley effective wellbore radius.
+// Capped at 6/pi, linear flow to a fully penetrating infinite-conductivity fracture.
+const productivityIndex = (re: number, xf: number, FCD: number): number => {
+  const radial = Math.log(re / effectiveWellboreRadius(xf, FCD)) - 0.75;
+  return radial > Math.PI / 6 ? 1 / radial : 6 / Math.PI;
+};
+
+// Optimum FCD for a proppant number (Economides et al., 2002): 1.6 in low
+// proppant numbers, rising as the fracture approaches the drainage boundary.
+// The fit holds up to N_p = 10, where the optimum already spans the area.
+export const optimumFCD = (Np: number): number => {
+  if (Np <= 0.1) return 1.6;
+  const u = Math.log(Np);
+  return 1.6 + Math.exp((-0.583 + 1.48 * u) / (1 + 0.142 * u));
+};
+
+// Optimum propped geometry for a proppant mass and how far the modelled
+// fracture is from it. Only the pack inside the pay counts. Inputs in SI;
+// k_f is the pack permeability.
+export const unifiedFractureDesign = (
+  reservoir: ReservoirInputs,
+  result: ModelResult,
+  mass: number,
+  kf: number,
+  rho_p: number,
+  phi_pack: number
+): UfdResult => {
+  if (!(reservoir.k > 0) || !(reservoir.h > 0) || !(reservoir.area > 0)) {
+    throw new Error('Permeability, thickness and drainage area must be positive.');
+  }
+  if (!(mass > 0)) throw new Error('Proppant mass must be positive.');
+  if (!(kf > 0) || !(rho_p > 0) || !(phi_pack >= 0 && phi_pack < 1)) {
+    throw new Error('Pack permeability and proppant density must be positive, pack porosity between 0 and 1.');
+  }
+
+  const k = reservoir.k;
+  const h = reservoir.h;
+  const re = Math.sqrt(reservoir.area / Math.PI);
+  const proppedHeight = result.proppant?.propped_height ?? result.height;
+  const pay_fraction = proppedHeight > 0 ? Math.min(1, h / proppedHeight) : 1;
+  const Vp = (mass / (rho_p * (1 - phi_pack))) * pay_fraction; // Pack volume in the pay, both wings
+  const proppant_number = (2 * kf * Vp) / (k * reservoir.area * h);
+
+  // Penetration ratio I_x = 2 x_f / x_e in the equivalent square; once the
+  // optimum would pass the boundary, the fracture is cut at I_x = 1
+  const Ix = Math.min(1, Math.sqrt(proppant_number / optimumFCD(proppant_number)));
+  const FCD_opt = proppant_number / (Ix * Ix);
+  const xf_opt = 0.5 * Ix * Math.sqrt(reservoir.area);
+  const w_opt = Vp / (2 * xf_opt * h);
+  const JD_opt = productivityIndex(re, xf_opt, FCD_opt);
+
+  const propped = proppedFracture(result);
+  const FCD = propped && propped.xf > 0 ? propped.conductivity / (k * propped.xf) : null;
+  const JD = propped && FCD !== null ? productivityIndex(re, propped.xf, FCD) : null;
+  const length_ratio = result.length / xf_opt;
+  const width_ratio = result.width_avg / w_opt;
+
+  const guidance: string[] = [];
+  if (length_ratio < 0.8) {
+    guidance.push(`Half-length is ${(length_ratio * 100).toFixed(0)}% of the optimum: the proppant is packed too short and wide. Pump a larger pad or longer, or use a thinner fluid (lower viscosity or K'), to spread the same mass over more length.`);
+  } else if (length_ratio > 1.25) {
+    guidance.push(`Half-length is ${(length_ratio * 100).toFixed(0)}% of the optimum: the pack is too narrow to carry the flow. Build width with a higher proppant concentration, a more viscous fluid or a shorter pad, or raise pack permeability with a coarser proppant.`);
+  } else {
+    guidance.push('Half-length is within 20% of the optimum for this proppant mass.');
+  }
+  if (FCD !== null && (FCD < 0.5 * FCD_opt || FCD > 2 * FCD_opt)) {
+    guidance.push(`Propped FCD ${FCD.toFixed(2)} against an optimum of ${FCD_opt.toFixed(2)}: ${FCD < FCD_opt ? 'conductivity' : 'length'} limits the well.`);
+  }
+  if (JD !== null) {
+    guidance.push(`The design reaches ${(JD / JD_opt * 100).toFixed(0)}% of the maximum productivity for this proppant mass.`);
+  } else {
+    guidance.push('The design pumps no proppant: the comparison uses the hydraulic length and width only.');
+  }
+  if (pay_fraction < 0.7) {
+    guidance.push(`Only ${(pay_fraction * 100).toFixed(0)}% of the propped height is in the pay. Contain height (lower rate or viscosity) before adding proppant.`);
+  }
+  if (Ix >= 1) {
+    guidance.push(`Proppant number ${proppant_number.toFixed(2)}: the optimum fracture reaches the drainage boundary, so more proppant only buys conductivity.`);
+  } else if (proppant_number > 1) {
+    guidance.push(`Proppant number ${proppant_number.toFixed(2)}: the optimum fracture reaches toward the drainage boundary and wants FCD above 1.6.`);
+  }
+
+  return {
+    mass,
+    pay_fraction,
+    proppant_number,
+    FCD_opt,
+    xf_opt,
+    w_opt,
+    JD_opt,
+    FCD,
+    JD,
+    length_ratio,
+    width_ratio,
+    guidance
+  };
+};
@@ -0,0 +1,234 @@
+import { FracInputs, ModelResult, ModelType, PermeabilityPoint, ProppantPoint, ProppantResult, ProppantStageResult, PumpSchedule, RheologyType } from "../types";
+import { curveFactor } from "./fluidService";
+import { particleSettlingVelocity } from "./rheologyService";
+
+const HINDERED_EXPONENT = 4.65; // Richardson-Zaki, low particle Reynolds number
+const BRIDGING_RATIO = 3; // Average width must exceed ~3 grain diameters
+
+// Hydraulic geometry the proppant model sits on
+export type ProppantGeometry = Pick<
+  ModelResult,
+  'type' | 'length' | 'width_avg' | 'efficiency' | 'volume_injected' | 'profile' | 'closure'
+>;
+
+// Richardson-Zaki hindered-settling correction for the solids fraction of the slurry
+export const hinderedSettling = (v_single: number, volumeFraction: number): number =>
+  Math.max(0, v_single * Math.pow(Math.max(0, 1 - volumeFraction), HINDERED_EXPONENT));
+
+// Kozeny-Carman permeability of an unstressed pack of uniform grains
+export const packPermeability = (d_p: number, phi: number): number =>
+  (d_p * d_p * Math.pow(phi, 3)) / (180 * Math.pow(1 - phi, 2));
+
+// Pack permeability at a closure stress from a measured curve, interpolated
+// in log(permeability) and flat beyond the measured stresses
+export const permeabilityAtStress = (curve: PermeabilityPoint[], stress: number): number =>
+  curveFactor(curve.map(p => ({ x: p.stress, factor: p.permeability })), stress);
+
+// Fraction of fluid pumped at time tau still in the fracture at tp.
+// Older fluid has been exposed longer: f = 1 - beta * sqrt((tp - tau) / tp).
+const remainingFraction = (tau: number, tp: number, beta: number) =>
+  Math.max(0, 1 - beta * Math.sqrt(Math.max(0, tp - tau) / tp));
+
+// Fluid volume of each stage left in the fracture at shut-in, with beta chosen
+// so the total matches the fracture volume (efficiency * injected volume)
+const stageRemainingVolumes = (schedule: PumpSchedule, efficiency: number): number[] => {
+  const tp = schedule.reduce((sum, s) => sum + s.duration, 0);
+  const sub = 10;
+  const volumesFor = (beta: number) => {
+    let start = 0;
+    return schedule.map(s => {
+      let V = 0;
+      for (let j = 0; j < sub; j++) {
+        const tau = start + ((j + 0.5) / sub) * s.duration;
+        V += (s.q * s.duration / sub) * remainingFraction(tau, tp, beta);
+      }
+      start += s.duration;
+      return V;
+    });
+  };
+  const total = schedule.reduce((sum, s) => sum + s.q * s.duration, 0);
+  const target = Math.min(1, efficiency) * total;
+  let lo = 0;
+  let hi = 1e3;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    const V = volumesFor(mid).reduce((a, b) => a + b, 0);
+    if (V > target) lo = mid;
+    else hi = mid;
+  }
+  return volumesFor((lo + hi) / 2);
+};
+
+// Proppant placement, settling and final propped geometry.
+// Stages stack from the tip (first pumped) back to the wellbore (last pumped);
+// proppant stays behind as the carrier fluid leaks off, then settles until closure.
+export const calculateProppant = (
+  geometry: ProppantGeometry,
+  inputs: FracInputs,
+  schedule: PumpSchedule,
+  rheology: RheologyType = RheologyType.NEWTONIAN,
+  packCurve: PermeabilityPoint[] = []
+): ProppantResult | null => {
+  const { rho_f, rho_p, d_p, phi_pack } = inputs;
+  const masses = schedule.map(s => s.proppant * s.q * s.duration);
+  const mass_total = masses.reduce((a, b) => a + b, 0);
+  if (mass_total <= 0) return null;
+
+  const warnings: string[] = [];
+  const radial = geometry.type === ModelType.RADIAL;
+  const H = geometry.closure.height;
+  const L = geometry.length;
+  const tp = schedule.reduce((sum, s) => sum + s.duration, 0);
+  const maxVolumeFraction = 1 - phi_pack;
+
+  // Cumulative fracture volume from the wellbore along the width profile
+  const weight = (x: number, w: number) => (radial ? 2 * Math.PI * x * w : w);
+  const cumulative: number[] = [0];
+  for (let i = 1; i < geometry.profile.length; i++) {
+    const a = geometry.profile[i - 1];
+    const b = geometry.profile[i];
+    const dV = 0.5 * (weight(a.position, a.width) + weight(b.position, b.width)) * (b.position - a.position);
+    cumulative.push(cumulative[i - 1] + dV);
+  }
+  const totalWeight = cumulative[cumulative.length - 1] || 1;
+  const positionAtFraction = (f: number): number => {
+    const target = Math.min(1, Math.max(0, f)) * totalWeight;
+    for (let i = 1; i < cumulative.length; i++) {
+      if (cumulative[i] >= target) {
+        const span = cumulative[i] - cumulative[i - 1];
+        const r = span > 0 ? (target - cumulative[i - 1]) / span : 0;
+        const a = geometry.profile[i - 1].position;
+        const b = geometry.profile[i].position;
+        return a + r * (b - a);
+      }
+    }
+    return L;
+  };
+  const widthAt = (x: number): number => {
+    const p = geometry.profile;
+    for (let i = 1; i < p.length; i++) {
+      if (p[i].position >= x) return p[i - 1].width;
+    }
+    return 0;
+  };
+
+  // A stage cannot dehydrate past the packed state: pore fluid stays with the pack
+  const fluidLeft = stageRemainingVolumes(schedule, geometry.efficiency)
+    .map((V, i) => Math.max(V, (masses[i] / rho_p) * phi_pack / (1 - phi_pack)));
+  const slurryLeft = fluidLeft.map((V, i) => V + masses[i] / rho_p);
+  const slurryTotal = slurryLeft.reduce((a, b) => a + b, 0) || 1;
+
+  // Settling continues through shut-in until the faces close
+  const closureTime = geometry.closure.time !== null ? geometry.closure.time : inputs.t_shutin;
+
+  let screenoutStage: string | null = null;
+  let fromWellbore = 0; // Slurry volume between the wellbore and this stage
+  const placed: { stage: ProppantStageResult, packVolume: number, proppedHeight: number, proppedArea: number }[] = [];
+  let startTime = tp;
+
+  // Walk stages from the last pumped (at the wellbore) to the first (at the tip)
+  for (let k = schedule.length - 1; k >= 0; k--) {
+    const s = schedule[k];
+    startTime -= s.duration;
+    const x_start = positionAtFraction(fromWellbore / slurryTotal);
+    fromWellbore += slurryLeft[k];
+    const x_end = positionAtFraction(fromWellbore / slurryTotal);
+
+    const solids = masses[k] / rho_p;
+    const volume_fraction = slurryLeft[k] > 0 ? solids / slurryLeft[k] : 0;
+    const concentration_frac = fluidLeft[k] > 0 ? masses[k] / fluidLeft[k] : 0;
+
+    const w_local = widthAt((x_start + x_end) / 2);
+    if (masses[k] > 0) {
+      if (volume_fraction >= 0.95 * maxVolumeFraction && screenoutStage === null) {
+        screenoutStage = s.name;
+        warnings.push(`Screenout: stage "${s.name}" dehydrates to ${(volume_fraction * 100).toFixed(0)}% solids, at the packing limit.`);
+      } else if (w_local < BRIDGING_RATIO * d_p && screenoutStage === null) {
+        screenoutStage = s.name;
+        warnings.push(`Screenout: width at stage "${s.name}" is below ${BRIDGING_RATIO} proppant diameters (bridging).`);
+      }
+    }
+
+    const settleTime = (tp - (startTime + s.duration / 2)) + closureTime;
+    const v = hinderedSettling(particleSettlingVelocity(rheology, s.mu, inputs, d_p, rho_p, rho_f), volume_fraction);
+    const settled_fraction = H > 0 ? Math.min(1, (v * settleTime) / H) : 1;
+
+    // Packed proppant: settled part forms a bank filling the hydraulic width,
+    // the suspended part closes onto the full height
+    const packVolume = solids / (1 - phi_pack);
+    const segLength = Math.max(1e-9, x_end - x_start);
+    const faceArea = radial ? Math.PI * (x_end * x_end - x_start * x_start) : 2 * segLength * H;
+    const bankHeight = Math.min(H, (settled_fraction * packVolume) / Math.max(1e-9, w_local * faceArea / H));
+    const proppedHeight = settled_fraction >= 1 ? bankHeight : H;
+    const proppedArea = faceArea * (proppedHeight / Math.max(1e-9, H));
+
+    placed.push({
+      stage: {
+        name: s.name,
+        mass: masses[k],
+        concentration_in: s.proppant,
+        concentration_frac,
+        volume_fraction,
+        x_start,
+        x_end,
+        settled_fraction
+      },
+      packVolume,
+      proppedHeight,
+      proppedArea
+    });
+  }
+  placed.reverse(); // Back to pumping order
+
+  const withProppant = placed.filter(p => p.stage.mass > 0);
+  const propped_length = Math.max(...withProppant.map(p => p.stage.x_end));
+  const packTotal = withProppant.reduce((sum, p) => sum + p.packVolume, 0);
+  const propped_height = withProppant.reduce((sum, p) => sum + p.proppedHeight * p.packVolume, 0) / packTotal;
+  const proppedArea = withProppant.reduce((sum, p) => sum + p.proppedArea, 0);
+  const propped_width = proppedArea > 0 ? packTotal / proppedArea : 0;
+  // The pack carries the minimum stress once the fracture closes; no credit
+  // is taken for pore pressure, which errs toward the crushed end of the curve
+  const permeability = packCurve.length > 0
+    ? permeabilityAtStress(packCurve, inputs.sigma_min)
+    : packPermeability(d_p, phi_pack);
+  if (packCurve.length > 0 && inputs.sigma_min > Math.max(...packCurve.map(p => p.stress))) {
+    warnings.push('Closure stress is above the highest stress on the proppant permeability curve: the pack is likely crushing faster than the curve shows.');
+  }
+
+  if (propped_length < 0.5 * L) {
+    warnings.push(`Propped length is ${((propped_length / L) * 100).toFixed(0)}% of the hydraulic length: consider a smaller pad.`);
+  }
+  if (withProppant.some(p => p.stage.settled_fraction >= 1)) {
+    warnings.push("Proppant fully settles before closure in at least one stage: expect a bottom bank and reduced propped height.");
+  }
+
+  // Distribution along the fracture for plotting
+  const points = 50;
+  const distribution: ProppantPoint[] = [];
+  for (let i = 0; i <= points; i++) {
+    const x = (L / points) * i;
+    const seg = placed.find(p => x >= p.stage.x_start && x <= p.stage.x_end);
+    const settled = seg ? seg.stage.settled_fraction : 0;
+    const w = widthAt(x);
+    distribution.push({
+      position: x,
+      concentration: seg ? seg.stage.concentration_frac : 0,
+      bank_height: seg && seg.stage.mass > 0 ? (settled >= 1 ? seg.proppedHeight : settled * H) : 0,
+      propped_width: seg && seg.stage.mass > 0 && seg.proppedArea > 0 ? Math.min(w, seg.packVolume / seg.proppedArea) : 0
+    });
+  }
+
+  return {
+    mass_total,
+    stages: placed.map(p => p.stage),
+    distribution,
+    propped_length,
+    propped_height,
+    propped_width,
+    permeability,
+    conductivity: permeability * propped_width,
+    screenout: screenoutStage !== null,
+    screenout_stage: screenoutStage,
+    warnings
+  };
+};
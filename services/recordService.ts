@@ -0,0 +1,237 @@
+import { CatalogSelection, FluidCatalogEntry, FormationLayer, FracInputs, ModelResult, ModelType, PermeabilityPoint, ProppantCatalogEntry, PumpSchedule, RheologyType, SensitivityData, ThermalOptions, UnitSystem, ViscosityCurvePoint } from "../types";
+import { INITIAL_INPUTS, INITIAL_LAYERS } from "../constants";
+import { MODEL_UNITS, convertInputs, convertLayers } from "../utils/unitConversion";
+import { validateFluid, validateProppant } from "./catalogService";
+import { ScenarioData, runScenario } from "./scenarioService";
+
+// Job record written by "Export JSON". Inputs, schedule, layers, fluid
+// temperature and catalog entries are in the record's unit system; the result
+// is always SI.
+export interface JobRecord extends ScenarioData {
+  timestamp: string;
+  result_SI: ModelResult;
+  sensitivity: SensitivityData[];
+}
+
+export const buildJobRecord = (
+  data: ScenarioData,
+  result: ModelResult,
+  sensitivity: SensitivityData[]
+): JobRecord => ({
+  timestamp: new Date().toISOString(),
+  ...data,
+  result_SI: result,
+  sensitivity
+});
+
+export interface ImportedRecord {
+  record: JobRecord;
+  notes: string[]; // Fields filled with defaults (records from older versions)
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Parse and validate an exported record. Throws with a readable message when
+// the file is not a record; fields added after the record was written are
+// filled from the defaults and listed in `notes`.
+export const parseJobRecord = (text: string): ImportedRecord => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isObject(raw)) throw new Error('Record must be a JSON object.');
+
+  const unitSystem = raw.unitSystem;
+  if (!Object.values(UnitSystem).includes(unitSystem)) throw new Error(`Unknown unit system "${unitSystem}".`);
+
+  const result = raw.result_SI;
+  if (!isObject(result)) throw new Error('Record has no result_SI.');
+  if (!Object.values(ModelType).includes(result.type)) throw new Error(`Unknown model "${result.type}" in result_SI.`);
+  for (const key of ['length', 'width_avg', 'width_max', 'p_net', 'efficiency'] as const) {
+    if (!isNumber(result[key])) throw new Error(`result_SI.${key} must be a number.`);
+  }
+  const model: ModelType = Object.values(ModelType).includes(raw.model) ? raw.model : result.type;
+  if (model !== result.type) throw new Error(`Model "${raw.model}" does not match result_SI (${result.type}).`);
+
+  if (!isObject(raw.inputs)) throw new Error('Record has no inputs.');
+  const notes: string[] = [];
+  const defaults = convertInputs(INITIAL_INPUTS, MODEL_UNITS, unitSystem);
+  const inputs = { ...defaults };
+  (Object.keys(defaults) as (keyof FracInputs)[]).forEach(key => {
+    const value = raw.inputs[key];
+    if (value === undefined) {
+      notes.push(`Input ${key} missing, using default ${defaults[key]}.`);
+    } else if (!isNumber(value)) {
+      throw new Error(`Input ${key} must be a number.`);
+    } else {
+      inputs[key] = value;
+    }
+  });
+
+  let schedule: PumpSchedule = [];
+  if (raw.schedule === undefined) {
+    notes.push('No pump schedule stored, using constant rate.');
+  } else if (!Array.isArray(raw.schedule) || !raw.schedule.every((s: unknown) =>
+    isObject(s) && typeof s.name === 'string' && isNumber(s.q) && isNumber(s.mu) && isNumber(s.duration) && isNumber(s.proppant))) {
+    throw new Error('Pump schedule must be a list of stages with name, q, mu, duration and proppant.');
+  } else {
+    schedule = raw.schedule.map((s: Record<string, any>) => ({
+      name: s.name, q: s.q, mu: s.mu, duration: s.duration, proppant: s.proppant
+    }));
+  }
+
+  let rheology = RheologyType.NEWTONIAN;
+  if (raw.rheology === undefined) {
+    notes.push('No rheology stored, using Newtonian.');
+  } else if (!Object.values(RheologyType).includes(raw.rheology)) {
+    throw new Error(`Unknown rheology "${raw.rheology}".`);
+  } else {
+    rheology = raw.rheology;
+  }
+
+  let layers: FormationLayer[] = convertLayers(INITIAL_LAYERS, MODEL_UNITS, unitSystem);
+  if (raw.layers === undefined) {
+    if (model === ModelType.P3D) notes.push('No formation layers stored, using the default layer set.');
+  } else if (!Array.isArray(raw.layers) || !raw.layers.every((l: unknown) =>
+    isObject(l) && typeof l.name === 'string' && ['top', 'stress', 'E', 'K_IC', 'CL'].every(k => isNumber(l[k])))) {
+    throw new Error('Formation layers must have name, top, stress, E, K_IC and CL.');
+  } else {
+    layers = raw.layers.map((l: Record<string, any>) => ({
+      name: l.name, top: l.top, stress: l.stress, E: l.E, K_IC: l.K_IC, CL: l.CL
+    }));
+  }
+
+  const isCurve = (c: unknown): c is ViscosityCurvePoint[] =>
+    Array.isArray(c) && c.every(p => isObject(p) && isNumber(p.x) && isNumber(p.factor) && p.factor > 0);
+  const readCurve = (c: ViscosityCurvePoint[]) => c.map(p => ({ x: p.x, factor: p.factor }));
+
+  let thermal: ThermalOptions | null = null;
+  if (raw.thermal !== undefined && raw.thermal !== null) {
+    const t = raw.thermal;
+    if (!isObject(t) || !['T_inj', 'T_bh', 'heatup'].every(k => isNumber(t[k])) || !isObject(t.fluid)
+      || typeof t.fluid.name !== 'string' || !isCurve(t.fluid.temperature) || !isCurve(t.fluid.degradation)) {
+      throw new Error('Fluid temperature must have T_inj, T_bh, heatup and a fluid with temperature and degradation curves.');
+    }
+    thermal = {
+      fluid: {
+        name: t.fluid.name,
+        temperature: readCurve(t.fluid.temperature),
+        degradation: readCurve(t.fluid.degradation)
+      },
+      T_inj: t.T_inj,
+      T_bh: t.T_bh,
+      heatup: t.heatup
+    };
+  }
+
+  // Catalog entries are informational: the values they filled are in the inputs
+  let catalog: CatalogSelection | null = null;
+  if (raw.catalog !== undefined && raw.catalog !== null) {
+    const c = raw.catalog;
+    if (!isObject(c)) throw new Error('Catalog selection must be an object.');
+    const readFluid = (f: unknown): FluidCatalogEntry | null => {
+      if (f === null || f === undefined) return null;
+      if (!isObject(f) || typeof f.name !== 'string' || !isCurve(f.temperature) || !isCurve(f.degradation)
+        || !['rho_f', 'mu', 'n_prime', 'K_prime', 'tau_y'].every(k => isNumber(f[k]))) {
+        throw new Error('Catalog fluid must have name, rheology, rho_f, mu, n_prime, K_prime, tau_y and viscosity curves.');
+      }
+      const fluid: FluidCatalogEntry = {
+        id: typeof f.id === 'string' ? f.id : '',
+        name: f.name,
+        rheology: f.rheology,
+        rho_f: f.rho_f,
+        mu: f.mu,
+        n_prime: f.n_prime,
+        K_prime: f.K_prime,
+        tau_y: f.tau_y,
+        temperature: readCurve(f.temperature),
+        degradation: readCurve(f.degradation)
+      };
+      validateFluid(fluid);
+      return fluid;
+    };
+    const readProppant = (p: unknown): ProppantCatalogEntry | null => {
+      if (p === null || p === undefined) return null;
+      if (!isObject(p) || typeof p.name !== 'string' || !['specific_gravity', 'd_p', 'phi_pack'].every(k => isNumber(p[k]))
+        || !Array.isArray(p.permeability) || !p.permeability.every((pt: unknown) => isObject(pt) && isNumber(pt.stress) && isNumber(pt.permeability))) {
+        throw new Error('Catalog proppant must have name, specific_gravity, d_p, phi_pack and a permeability curve.');
+      }
+      const proppant: ProppantCatalogEntry = {
+        id: typeof p.id === 'string' ? p.id : '',
+        name: p.name,
+        specific_gravity: p.specific_gravity,
+        d_p: p.d_p,
+        phi_pack: p.phi_pack,
+        permeability: p.permeability.map((pt: PermeabilityPoint) => ({ stress: pt.stress, permeability: pt.permeability }))
+      };
+      validateProppant(proppant);
+      return proppant;
+    };
+    catalog = { fluid: readFluid(c.fluid), proppant: readProppant(c.proppant) };
+  }
+
+  return {
+    record: {
+      timestamp: typeof raw.timestamp === 'string' ? raw.timestamp : '',
+      model,
+      unitSystem,
+      inputs,
+      schedule,
+      rheology,
+      layers,
+      thermal,
+      catalog,
+      result_SI: result as ModelResult,
+      sensitivity: Array.isArray(raw.sensitivity) ? raw.sensitivity : []
+    },
+    notes
+  };
+};
+
+export interface RecordMismatch {
+  label: string;
+  category: 'length' | 'width' | 'pressure' | 'time' | 'dimensionless';
+  stored: number; // SI
+  recomputed: number; // SI
+}
+
+// Relative change above which a recomputed value counts as different
+const RECORD_TOLERANCE = 1e-3;
+
+// Re-run the record's inputs through the current models and list the key
+// results that moved (e.g. after a model change since the record was written)
+export const checkJobRecord = (record: JobRecord): { result: ModelResult, mismatches: RecordMismatch[] } => {
+  const result = runScenario(record);
+  const stored = record.result_SI;
+  const fields: { label: string, category: RecordMismatch['category'], get: (r: ModelResult) => unknown }[] = [
+    { label: 'Length (or Radius)', category: 'length', get: r => r.length },
+    { label: 'Height', category: 'length', get: r => r.height },
+    { label: 'Max Width', category: 'width', get: r => r.width_max },
+    { label: 'Avg Width', category: 'width', get: r => r.width_avg },
+    { label: 'Net Pressure', category: 'pressure', get: r => r.p_net },
+    { label: 'Max Surface Pressure', category: 'pressure', get: r => r.p_surface_max },
+    { label: 'Efficiency', category: 'dimensionless', get: r => r.efficiency },
+    { label: 'Closure Time', category: 'time', get: r => r.closure?.time }
+  ];
+  const mismatches = fields.flatMap(({ label, category, get }) => {
+    const a = get(stored);
+    const b = get(result) as number;
+    // Fields an older record did not have are not flagged
+    if (!isNumber(a)) return [];
+    const scale = Math.max(Math.abs(a), Math.abs(b), 1e-30);
+    return Math.abs(b - a) / scale > RECORD_TOLERANCE ? [{ label, category, stored: a, recomputed: b }] : [];
+  });
+  return { result, mismatches };
+};
+
+// Outcome of importing a record file, shown alongside the restored results
+export interface ImportStatus {
+  fileName: string;
+  timestamp: string;
+  error: string | null; // Set when the file was rejected and nothing was restored
+  notes: string[];
+  mismatches: RecordMismatch[];
+}
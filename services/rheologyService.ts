@@ -0,0 +1,79 @@
+import { FracInputs, RheologyType } from "../types";
+
+const GRAVITY = 9.81;
+const MIN_SHEAR_RATE = 1e-3; // 1/s, keeps power-law viscosity finite at rest
+const YIELD_SUSPENSION = 0.06; // Critical tau_y / (g d (rho_p - rho_f)) for static suspension
+
+export type RheologyInputs = Pick<FracInputs, 'n_prime' | 'K_prime' | 'tau_y'>;
+
+// Wall shear rate for flow rate q through a slot of height h and width w,
+// with the Rabinowitsch correction for a power-law fluid
+export const slotShearRate = (q: number, h: number, w: number, n: number): number =>
+  w > 0 && h > 0 ? ((6 * q) / (h * w * w)) * ((2 * n + 1) / (3 * n)) : MIN_SHEAR_RATE;
+
+// Apparent (Newtonian-equivalent) viscosity at a given shear rate
+export const apparentViscosity = (
+  type: RheologyType,
+  mu: number,
+  props: RheologyInputs,
+  shearRate: number
+): number => {
+  const gamma = Math.max(MIN_SHEAR_RATE, shearRate);
+  switch (type) {
+    case RheologyType.POWER_LAW:
+      return props.K_prime * Math.pow(gamma, props.n_prime - 1);
+    case RheologyType.HERSCHEL_BULKLEY:
+      return props.tau_y / gamma + props.K_prime * Math.pow(gamma, props.n_prime - 1);
+    case RheologyType.NEWTONIAN:
+    default:
+      return mu;
+  }
+};
+
+// Equivalent Newtonian viscosity of the fracture flow. Width depends on viscosity
+// and the shear rate on width, so iterate to a fixed point (geometric damping).
+export const equivalentViscosity = <T extends { w: number }>(
+  type: RheologyType,
+  mu: number,
+  props: RheologyInputs,
+  q: number, // Flow rate through the slot
+  slotHeight: (res: T) => number,
+  solveWith: (mu: number) => T
+): { mu: number, res: T } => {
+  if (type === RheologyType.NEWTONIAN) return { mu, res: solveWith(mu) };
+  let mu_eq = props.K_prime;
+  let res = solveWith(mu_eq);
+  for (let i = 0; i < 30; i++) {
+    const w_avg = (Math.PI / 4) * res.w;
+    const next = apparentViscosity(type, mu, props, slotShearRate(q, slotHeight(res), w_avg, props.n_prime));
+    const damped = Math.sqrt(mu_eq * next);
+    const converged = Math.abs(damped - mu_eq) < 1e-4 * mu_eq;
+    mu_eq = damped;
+    res = solveWith(mu_eq);
+    if (converged) break;
+  }
+  return { mu: mu_eq, res };
+};
+
+// Terminal settling velocity of a single grain. Newtonian: Stokes; power-law:
+// the generalized Stokes law; Herschel-Bulkley: zero if the yield stress holds
+// the grain in static suspension, otherwise power-law settling.
+export const particleSettlingVelocity = (
+  type: RheologyType,
+  mu: number,
+  props: RheologyInputs,
+  d_p: number,
+  rho_p: number,
+  rho_f: number
+): number => {
+  const drive = GRAVITY * (rho_p - rho_f);
+  if (drive <= 0) return 0;
+  if (type === RheologyType.NEWTONIAN) {
+    return (drive * d_p * d_p) / (18 * mu);
+  }
+  if (type === RheologyType.HERSCHEL_BULKLEY && props.tau_y / (drive * d_p) > YIELD_SUSPENSION) {
+    return 0;
+  }
+  const n = props.n_prime;
+  return Math.pow((drive * Math.pow(d_p, n + 1)) / (18 * props.K_prime * Math.pow(3, n - 1)), 1 / n);
+};
@@ -0,0 +1,166 @@
+import { CatalogSelection, FormationLayer, FracInputs, ModelResult, ModelType, PumpSchedule, RheologyType, ThermalOptions, UnitSystem } from "../types";
+import { MODEL_UNITS, convertInputs, convertLayers, convertPermeabilityCurve, convertSchedule, convertThermal } from "../utils/unitConversion";
+import { runModel } from "./fractureService";
+import { STORES, newId, withStore } from "./storageService";
+
+// A named, self-contained set of model inputs. Values are stored in the
+// scenario's own unit system, exactly as they were entered.
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  model: ModelType;
+  unitSystem: UnitSystem;
+  inputs: FracInputs;
+  schedule: PumpSchedule;
+  rheology: RheologyType;
+  layers: FormationLayer[];
+  thermal?: ThermalOptions | null; // Missing in scenarios saved before fluid temperature existed
+  catalog?: CatalogSelection | null; // Missing in scenarios saved before the fluid and proppant catalog existed
+}
+
+export type ScenarioData = Omit<Scenario, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
+export const listScenarios = async (): Promise<Scenario[]> => {
+  const all = await withStore<Scenario[]>(STORES.scenarios, 'readonly', store => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveScenario = async (scenario: Scenario): Promise<Scenario> => {
+  const saved = { ...scenario, updatedAt: Date.now() };
+  await withStore(STORES.scenarios, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const createScenario = (name: string, data: ScenarioData): Promise<Scenario> => {
+  const now = Date.now();
+  return saveScenario({ ...data, id: newId(), name, createdAt: now, updatedAt: now });
+};
+
+export const cloneScenario = (source: Scenario, name = `${source.name} (copy)`): Promise<Scenario> =>
+  createScenario(name, {
+    model: source.model,
+    unitSystem: source.unitSystem,
+    inputs: { ...source.inputs },
+    schedule: source.schedule.map(s => ({ ...s })),
+    rheology: source.rheology,
+    layers: source.layers.map(l => ({ ...l })),
+    thermal: source.thermal ?? null,
+    catalog: source.catalog ?? null
+  });
+
+export const renameScenario = (scenario: Scenario, name: string): Promise<Scenario> =>
+  saveScenario({ ...scenario, name });
+
+export const deleteScenario = async (id: string): Promise<void> => {
+  await withStore(STORES.scenarios, 'readwrite', store => store.delete(id));
+};
+
+// Scenario converted to SI and run through its model
+export const scenarioToSI = (scenario: ScenarioData) => ({
+  inputs: convertInputs(scenario.inputs, scenario.unitSystem, MODEL_UNITS),
+  options: {
+    schedule: convertSchedule(scenario.schedule, scenario.unitSystem, MODEL_UNITS),
+    rheology: scenario.rheology,
+    layers: convertLayers(scenario.layers, scenario.unitSystem, MODEL_UNITS),
+    thermal: scenario.thermal ? convertThermal(scenario.thermal, scenario.unitSystem, MODEL_UNITS) : undefined,
+    packPermeability: scenario.catalog?.proppant
+      ? convertPermeabilityCurve(scenario.catalog.proppant.permeability, scenario.unitSystem, MODEL_UNITS)
+      : undefined
+  }
+});
+
+export const runScenario = (scenario: ScenarioData): ModelResult => {
+  const { inputs, options } = scenarioToSI(scenario);
+  return runModel(scenario.model, inputs, options);
+};
+
+export interface InputDiff {
+  field: keyof FracInputs;
+  a: number; // SI
+  b: number; // SI
+}
+
+export interface MetricDiff {
+  label: string;
+  category: 'length' | 'width' | 'pressure' | 'time' | 'dimensionless';
+  a: number | null; // SI
+  b: number | null; // SI
+}
+
+export interface ScenarioDiff {
+  inputs: InputDiff[]; // Only fields that differ
+  settings: { label: string, a: string, b: string }[]; // Model, rheology, schedule, layers, fluid temperature
+  metrics: MetricDiff[];
+}
+
+const sameNumber = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(Math.abs(a), Math.abs(b), 1e-30);
+
+// Field-by-field difference in SI (so scenarios saved in different unit
+// systems compare correctly) plus the difference in key results
+export const diffScenarios = (a: Scenario, b: Scenario): ScenarioDiff => {
+  const siA = scenarioToSI(a);
+  const siB = scenarioToSI(b);
+  const inputs = (Object.keys(siA.inputs) as (keyof FracInputs)[])
+    .filter(field => !sameNumber(siA.inputs[field], siB.inputs[field]))
+    .map(field => ({ field, a: siA.inputs[field], b: siB.inputs[field] }));
+
+  const describeSchedule = (s: PumpSchedule) =>
+    s.length === 0 ? 'Constant rate' : s.map(st => st.name).join(' → ');
+  const describeLayers = (l: FormationLayer[]) =>
+    l.length === 0 ? 'None' : l.map(layer => layer.name).join(', ');
+  const describeThermal = (t?: ThermalOptions) =>
+    t ? `${t.fluid.name}, ${t.T_inj.toFixed(0)} → ${t.T_bh.toFixed(0)} °C` : 'Constant viscosity';
+  const settings = [
+    { label: 'Model', a: a.model, b: b.model, same: a.model === b.model },
+    { label: 'Rheology', a: a.rheology, b: b.rheology, same: a.rheology === b.rheology },
+    {
+      label: 'Pump Schedule',
+      a: describeSchedule(a.schedule),
+      b: describeSchedule(b.schedule),
+      same: JSON.stringify(siA.options.schedule) === JSON.stringify(siB.options.schedule)
+    },
+    {
+      label: 'Formation Layers',
+      a: describeLayers(a.layers),
+      b: describeLayers(b.layers),
+      same: JSON.stringify(siA.options.layers) === JSON.stringify(siB.options.layers)
+    },
+    {
+      label: 'Fluid Temperature',
+      a: describeThermal(siA.options.thermal),
+      b: describeThermal(siB.options.thermal),
+      same: JSON.stringify(siA.options.thermal) === JSON.stringify(siB.options.thermal)
+    },
+    {
+      label: 'Catalog Fluid',
+      a: a.catalog?.fluid?.name ?? 'None',
+      b: b.catalog?.fluid?.name ?? 'None',
+      same: a.catalog?.fluid?.name === b.catalog?.fluid?.name
+    },
+    {
+      label: 'Catalog Proppant',
+      a: a.catalog?.proppant?.name ?? 'None',
+      b: b.catalog?.proppant?.name ?? 'None',
+      same: JSON.stringify(siA.options.packPermeability) === JSON.stringify(siB.options.packPermeability)
+    }
+  ].filter(s => !s.same).map(({ label, a, b }) => ({ label, a: String(a), b: String(b) }));
+
+  const resA = runScenario(a);
+  const resB = runScenario(b);
+  const metric = (label: string, category: MetricDiff['category'], get: (r: ModelResult) => number | null): MetricDiff =>
+    ({ label, category, a: get(resA), b: get(resB) });
+  const metrics = [
+    metric('Length (or Radius)', 'length', r => r.length),
+    metric('Height', 'length', r => r.height),
+    metric('Avg Width', 'width', r => r.width_avg),
+    metric('Net Pressure', 'pressure', r => r.p_net),
+    metric('Max Surface Pressure', 'pressure', r => r.p_surface_max),
+    metric('Efficiency', 'dimensionless', r => r.efficiency),
+    metric('Closure Time', 'time', r => r.closure.time),
+    metric('Propped Length', 'length', r => r.proppant ? r.proppant.propped_length : null)
+  ];
+
+  return { inputs, settings, metrics };
+};
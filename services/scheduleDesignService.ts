@@ -0,0 +1,137 @@
+import { DesignedStage, PumpSchedule, ScheduleDesign, UnitSystem } from "../types";
+import { MODEL_UNITS, UNIT_CONFIG, convertValue } from "../utils/unitConversion";
+import { detectUnitSystem, parseFieldTable } from "./fieldDataService";
+
+type UnitCategory = keyof typeof UNIT_CONFIG['SI'];
+
+export interface ScheduleDesignInputs {
+  efficiency: number; // Fluid efficiency of the treatment
+  volume: number; // SI (m3) clean fluid into the fracture, pad included
+  q: number; // SI (m3/s)
+  mu: number; // SI (Pa.s)
+  c_end: number; // SI (kg/m3) concentration of the last proppant stage
+  stages: number; // Proppant stages the ramp is cut into
+  flush: number; // SI (m3) wellbore volume displaced after the last stage, 0 for none
+  rho_p: number; // SI (kg/m3)
+}
+
+// Columns of the exported stage table, in order, after the stage name
+const STAGE_COLUMNS: { key: Exclude<keyof DesignedStage, 'name'>, label: string, category: UnitCategory }[] = [
+  { key: 'q', label: 'Rate', category: 'rate' },
+  { key: 'mu', label: 'Viscosity', category: 'viscosity' },
+  { key: 'duration', label: 'Duration', category: 'time' },
+  { key: 'proppant', label: 'Proppant', category: 'concentration' },
+  { key: 'clean_volume', label: 'Clean Volume', category: 'volume' },
+  { key: 'slurry_volume', label: 'Slurry Volume', category: 'volume' },
+  { key: 'mass', label: 'Proppant Mass', category: 'mass' }
+];
+
+const MAX_SOLIDS_FRACTION = 0.4; // Slurry solids volume fraction treated as hard to pump
+
+// Nolte (1986): the pad fraction that has the pad leak off just as the last
+// proppant reaches the tip, also the exponent of the proppant ramp
+export const noltePadFraction = (efficiency: number): number => (1 - efficiency) / (1 + efficiency);
+
+// Volumes and proppant mass moved by each stage of a schedule (SI)
+export const describeSchedule = (schedule: PumpSchedule, rho_p: number): DesignedStage[] => schedule.map(s => {
+  const clean_volume = s.q * s.duration;
+  const mass = s.proppant * clean_volume;
+  return { ...s, clean_volume, slurry_volume: clean_volume + mass / rho_p, mass };
+});
+
+// Pad, proppant stages stepping up the Nolte ramp to the end concentration,
+// and an optional flush. Each proppant stage carries the ramp value at its end,
+// so the last stage pumps exactly c_end. Inputs in SI.
+export const designSchedule = (d: ScheduleDesignInputs): ScheduleDesign => {
+  if (!(d.efficiency > 0 && d.efficiency < 1)) throw new Error('Fluid efficiency must be between 0 and 1.');
+  if (!(d.volume > 0) || !(d.q > 0) || !(d.mu > 0)) throw new Error('Volume, rate and viscosity must be positive.');
+  if (!(d.c_end > 0)) throw new Error('End-of-job concentration must be positive.');
+  if (!(d.rho_p > 0)) throw new Error('Proppant density must be positive.');
+  const n = Math.round(d.stages);
+  if (!(n >= 1)) throw new Error('Use at least one proppant stage.');
+
+  const pad_fraction = noltePadFraction(d.efficiency);
+  const ramp_exponent = pad_fraction;
+  const padVolume = pad_fraction * d.volume;
+  const stageVolume = (d.volume - padVolume) / n;
+
+  const schedule: PumpSchedule = [{ name: 'Pad', q: d.q, mu: d.mu, duration: padVolume / d.q, proppant: 0 }];
+  for (let k = 1; k <= n; k++) {
+    schedule.push({
+      name: `Proppant ${k}`,
+      q: d.q,
+      mu: d.mu,
+      duration: stageVolume / d.q,
+      proppant: d.c_end * Math.pow(k / n, ramp_exponent)
+    });
+  }
+  if (d.flush > 0) schedule.push({ name: 'Flush', q: d.q, mu: d.mu, duration: d.flush / d.q, proppant: 0 });
+
+  const stages = describeSchedule(schedule, d.rho_p);
+  const warnings: string[] = [];
+  if (d.efficiency < 0.2) {
+    warnings.push(`Efficiency ${(d.efficiency * 100).toFixed(0)}%: the pad takes ${(pad_fraction * 100).toFixed(0)}% of the job. A fluid-loss additive or a more viscous fluid would cut it.`);
+  } else if (d.efficiency > 0.8) {
+    warnings.push(`Efficiency ${(d.efficiency * 100).toFixed(0)}%: the pad is small and the ramp starts close to the end concentration. Check the width at the first proppant stage.`);
+  }
+  const solids = d.c_end / d.rho_p;
+  if (solids / (1 + solids) > MAX_SOLIDS_FRACTION) {
+    warnings.push(`End concentration puts ${(solids / (1 + solids) * 100).toFixed(0)}% solids by volume in the slurry, above the ${MAX_SOLIDS_FRACTION * 100}% that is practical to pump.`);
+  }
+
+  return {
+    efficiency: d.efficiency,
+    pad_fraction,
+    ramp_exponent,
+    stages,
+    mass_total: stages.reduce((sum, s) => sum + s.mass, 0),
+    warnings
+  };
+};
+
+// Stage table as CSV in the given unit system, units in "Name (unit)" headers
+export const stageTableCsv = (stages: DesignedStage[], system: UnitSystem): string => {
+  const header = ['Stage', ...STAGE_COLUMNS.map(c => `${c.label} (${UNIT_CONFIG[system][c.category].label})`)];
+  const rows = stages.map(s => [
+    s.name.replace(/,/g, ' '),
+    ...STAGE_COLUMNS.map(c => parseFloat(convertValue(s[c.key], c.category, MODEL_UNITS, system).toPrecision(6)).toString())
+  ]);
+  return [header, ...rows].map(r => r.join(',')).join('\n');
+};
+
+// Read a stage table back into a schedule (SI). Rate is required, with either
+// Duration or Clean Volume; Viscosity defaults to `mu` (SI) and Proppant to 0.
+// Each column's unit comes from its header, else from `fallback`.
+export const parseStageTable = (text: string, fallback: UnitSystem, mu: number): PumpSchedule => {
+  const table = parseFieldTable(text);
+  const col = (label: string) => table.headers.findIndex(h => h.trim().toLowerCase() === label.toLowerCase());
+  const read = (row: string[], key: Exclude<keyof DesignedStage, 'name'>): number | null => {
+    const c = STAGE_COLUMNS.find(s => s.key === key)!;
+    const i = col(c.label);
+    if (i < 0) return null;
+    const v = parseFloat(row[i]);
+    const system = detectUnitSystem(table.units[i], c.category) ?? fallback;
+    return Number.isFinite(v) ? convertValue(v, c.category, system, MODEL_UNITS) : null;
+  };
+  if (col('Rate') < 0) throw new Error('The stage table needs a Rate column.');
+  if (col('Duration') < 0 && col('Clean Volume') < 0) throw new Error('The stage table needs a Duration or Clean Volume column.');
+
+  const nameCol = col('Stage');
+  const schedule = table.rows.map((row, i) => {
+    const q = read(row, 'q');
+    const volume = read(row, 'clean_volume');
+    const duration = read(row, 'duration') ?? (q && volume !== null ? volume / q : null);
+    if (!q || !(q > 0) || duration === null || !(duration > 0)) {
+      throw new Error(`Row ${i + 1} needs a positive rate and duration (or clean volume).`);
+    }
+    return {
+      name: (nameCol >= 0 && row[nameCol]) || `Stage ${i + 1}`,
+      q,
+      mu: read(row, 'mu') ?? mu,
+      duration,
+      proppant: Math.max(0, read(row, 'proppant') ?? 0)
+    };
+  });
+  if (schedule.length === 0) throw new Error('The stage table has no rows.');
+  return schedule;
+};
@@ -0,0 +1,27 @@
+import { FracInputs, ModelType, SensitivityData, SensitivityRange, SimulationOptions } from "../types";
+import { runModel } from "./fractureService";
+import { runSensitivity } from "./sensitivityService";
+
+// Messages exchanged with the sensitivity worker; everything is SI
+export interface SensitivityRequest {
+  type: ModelType;
+  inputs: FracInputs;
+  options: SimulationOptions;
+  ranges?: SensitivityRange[]; // Quick ±20% set when omitted
+}
+
+export type SensitivityMessage =
+  | { kind: 'done', rows: SensitivityData[] }
+  | { kind: 'error', message: string };
+
+const post = (message: SensitivityMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<SensitivityRequest>) => {
+  const req = e.data;
+  try {
+    const rows = runSensitivity(req.inputs, runModel(req.type, req.inputs, req.options), req.options, req.ranges);
+    post({ kind: 'done', rows });
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
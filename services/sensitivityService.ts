@@ -0,0 +1,109 @@
+import { FracInputs, ModelResult, ModelType, RheologyType, SensitivityData, SensitivityRange, SimulationOptions } from "../types";
+import { runModel } from "./fractureService";
+
+// Inputs with a physical upper limit (Poisson's ratio, fractions)
+const UPPER_BOUNDS: Partial<Record<keyof FracInputs, number>> = {
+  nu: 0.49,
+  phi_pack: 0.99,
+  friction_reduction: 0.99,
+  perf_cd: 1
+};
+
+// Halving and doubling of the inputs that dominate the fracture response.
+// Used for the quick table on the results dashboard.
+export const quickSensitivityRanges = (
+  inputs: FracInputs,
+  type: ModelType,
+  options: SimulationOptions = {}
+): SensitivityRange[] => {
+  // Non-Newtonian fluids are described by n' and K' instead of a single viscosity
+  const nonNewtonian = options.rheology !== undefined && options.rheology !== RheologyType.NEWTONIAN;
+  // With a layered profile the P3D model takes stress and leak-off from the layers
+  const layered = type === ModelType.P3D && !!options.layers && options.layers.length > 0;
+  const params = (nonNewtonian
+    ? ['n_prime', 'K_prime', 'q', 'sigma_min', 'CL']
+    : ['mu', 'q', 'sigma_min', 'CL']
+  ).filter(p => !layered || (p !== 'sigma_min' && p !== 'CL')) as (keyof FracInputs)[];
+  return params.map(parameter => ({
+    parameter,
+    low: inputs[parameter] * 0.5,
+    high: Math.min(inputs[parameter] * 2, UPPER_BOUNDS[parameter] ?? Infinity)
+  }));
+};
+
+// Every input moved by +/- spread around its current value
+export const fullSensitivityRanges = (inputs: FracInputs, spread = 0.2): SensitivityRange[] =>
+  (Object.keys(inputs) as (keyof FracInputs)[]).map(parameter => ({
+    parameter,
+    low: inputs[parameter] * (1 - spread),
+    high: Math.min(inputs[parameter] * (1 + spread), UPPER_BOUNDS[parameter] ?? Infinity)
+  }));
+
+// Re-run the model with each input at its low and high value (SI).
+// Ranges with low = high are skipped.
+export const runSensitivity = (
+  inputs: FracInputs,
+  baseResult: ModelResult,
+  options: SimulationOptions = {},
+  ranges: SensitivityRange[] = quickSensitivityRanges(inputs, baseResult.type, options)
+): SensitivityData[] => {
+  const results: SensitivityData[] = [];
+  const change = (value: number, base: number) => ((value - base) / base) * 100;
+
+  ranges.filter(r => r.low !== r.high).forEach(({ parameter: param, low, high }) => {
+    [low, high].forEach(value => {
+      const factor = value / inputs[param];
+      const newInputs = { ...inputs, [param]: value };
+      // Rate and viscosity live on the stages when a schedule is active
+      const newOptions = (param === 'q' || param === 'mu') && options.schedule
+        ? { ...options, schedule: options.schedule.map(s => ({ ...s, [param]: s[param] * factor })) }
+        : options;
+      const res = runModel(baseResult.type, newInputs, newOptions);
+
+      results.push({
+        parameter: param,
+        factor,
+        value,
+        L_change: change(res.length, baseResult.length),
+        w_change: change(res.width_avg, baseResult.width_avg),
+        p_change: change(res.p_net, baseResult.p_net),
+        eff_change: change(res.efficiency, baseResult.efficiency)
+      });
+    });
+  });
+
+  return results;
+};
+
+export type SensitivityOutput = 'L_change' | 'w_change' | 'p_change' | 'eff_change';
+
+export interface TornadoBar {
+  parameter: string;
+  low: number; // % change in the output with the input at its low value
+  high: number; // % change with the input at its high value
+  swing: number; // |high - low|, the ranking key
+  elasticity: number | null; // (dY/Y) / (dX/X) across the range; null when the base input is zero
+}
+
+// Rank inputs by the swing they cause in one output (largest first)
+export const tornadoBars = (
+  rows: SensitivityData[],
+  inputs: FracInputs,
+  output: SensitivityOutput
+): TornadoBar[] => {
+  const bars: TornadoBar[] = [];
+  for (let i = 0; i + 1 < rows.length; i += 2) {
+    const lo = rows[i];
+    const hi = rows[i + 1];
+    const base = inputs[lo.parameter as keyof FracInputs];
+    const dX = (hi.value - lo.value) / base;
+    bars.push({
+      parameter: lo.parameter,
+      low: lo[output],
+      high: hi[output],
+      swing: Math.abs(hi[output] - lo[output]),
+      elasticity: base !== 0 && Number.isFinite(dX) ? (hi[output] - lo[output]) / 100 / dX : null
+    });
+  }
+  return bars.sort((a, b) => (Number.isFinite(b.swing) ? b.swing : -1) - (Number.isFinite(a.swing) ? a.swing : -1));
+};
@@ -0,0 +1,41 @@
+const DB_NAME = 'fracsim';
+const DB_VERSION = 2; // 2: catalog stores
+export const STORES = {
+  scenarios: 'scenarios',
+  fluids: 'fluids',
+  proppants: 'proppants'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    Object.values(STORES).forEach(store => {
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+    });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one request against a store and close the connection
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,79 @@
+import { FracInputs, PressureBreakdown, RheologyType } from "../types";
+import { apparentViscosity } from "./rheologyService";
+
+const GRAVITY = 9.81;
+const LAMINAR_LIMIT = 2100; // Reynolds number
+const MAX_PIPE_ID = 0.5; // m, larger than any treating string
+const MAX_PERF_DIAMETER = 0.05; // m, larger than any perforation hole
+
+// Hydrostatic head of the fluid column to true vertical depth
+export const hydrostaticPressure = (rho_f: number, depth: number): number =>
+  rho_f * GRAVITY * depth;
+
+// Fanning-friction pressure loss in the tubulars: laminar 16/Re, turbulent
+// Blasius (smooth pipe), reduced by the friction reducer efficiency.
+// Non-Newtonian fluids use the apparent viscosity at the pipe wall shear rate.
+export const pipeFriction = (
+  q: number,
+  mu: number,
+  inputs: FracInputs,
+  rheology: RheologyType
+): number => {
+  const { pipe_id: D, pipe_length, rho_f, friction_reduction } = inputs;
+  if (q <= 0 || D <= 0) return 0;
+  const v = q / (Math.PI * D * D / 4);
+  const n = rheology === RheologyType.NEWTONIAN ? 1 : inputs.n_prime;
+  const wallShear = ((8 * v) / D) * ((3 * n + 1) / (4 * n));
+  const mu_a = apparentViscosity(rheology, mu, inputs, wallShear);
+  const Re = (rho_f * v * D) / mu_a;
+  const f = Re < LAMINAR_LIMIT ? 16 / Re : 0.0791 * Math.pow(Re, -0.25);
+  const dp = (2 * f * rho_f * v * v * pipe_length) / D;
+  // Friction reducers only act on turbulent flow
+  return Re < LAMINAR_LIMIT ? dp : dp * (1 - Math.min(1, Math.max(0, friction_reduction)));
+};
+
+// Orifice pressure drop across the perforations: 8 rho q^2 / (pi^2 Cd^2 n^2 d^4)
+export const perforationFriction = (
+  q: number,
+  rho_f: number,
+  n_perfs: number,
+  perf_diameter: number,
+  perf_cd: number
+): number => {
+  if (q <= 0 || n_perfs <= 0 || perf_diameter <= 0 || perf_cd <= 0) return 0;
+  return (8 * rho_f * q * q) / (Math.PI * Math.PI * perf_cd * perf_cd * n_perfs * n_perfs * Math.pow(perf_diameter, 4));
+};
+
+// Surface treating pressure from bottomhole treating pressure at rate q
+// (q = 0 gives the static surface pressure, e.g. after shut-in)
+export const surfacePressureBreakdown = (
+  bhtp: number,
+  q: number,
+  mu: number,
+  inputs: FracInputs,
+  rheology: RheologyType
+): PressureBreakdown => {
+  const hydrostatic = hydrostaticPressure(inputs.rho_f, inputs.depth);
+  const pipe_friction = pipeFriction(q, mu, inputs, rheology);
+  const perf_friction = perforationFriction(q, inputs.rho_f, inputs.n_perfs, inputs.perf_diameter, inputs.perf_cd);
+  return {
+    bhtp,
+    hydrostatic,
+    pipe_friction,
+    perf_friction,
+    surface: bhtp - hydrostatic + pipe_friction + perf_friction
+  };
+};
+
+// Sizes beyond any real completion are almost always a unit slip, and they
+// take the friction to zero without any other sign
+export const wellboreWarnings = (inputs: FracInputs): string[] => {
+  const warnings: string[] = [];
+  if (inputs.pipe_id > MAX_PIPE_ID) {
+    warnings.push(`Pipe ID of ${inputs.pipe_id.toFixed(2)} m is larger than any treating string: pipe friction is negligible. Check the units.`);
+  }
+  if (inputs.perf_diameter > MAX_PERF_DIAMETER) {
+    warnings.push(`Perforation diameter of ${(inputs.perf_diameter * 1000).toFixed(0)} mm is larger than any perforation hole: perforation friction is negligible. Check the units.`);
+  }
+  return warnings;
+};
@@ -3,6 +3,7 @@ export interface FracInputs {
   nu: number; // Poisson's Ratio
   sigma_min: number; // Min Horizontal Stress
   CL: number; // Carter Leakoff Coefficient
+  Sp: number; // Spurt Loss Coefficient (volume per unit face area)
   mu: number; // Viscosity
   q: number; // Injection Rate
   H: number; // Fracture Height
@@ -10,12 +11,33 @@ export interface FracInputs {
   time: number; // Injection Time
   p_limit: number; // Surface/Wellbore Pressure Limit
   depth: number; // TVD - for hydrostatic calc
+  t_shutin: number; // Shut-in (falloff) duration after pumping stops
+  rho_f: number; // Fluid Density
+  rho_p: number; // Proppant Density
+  d_p: number; // Proppant Diameter
+  phi_pack: number; // Proppant Pack Porosity
+  n_prime: number; // Flow Behavior Index (n')
+  K_prime: number; // Consistency Index (K')
+  tau_y: number; // Yield Stress (Herschel-Bulkley)
+  pipe_id: number; // Tubular Inner Diameter
+  pipe_length: number; // Tubular Measured Length
+  friction_reduction: number; // Friction Reducer Efficiency (0-1)
+  n_perfs: number; // Open Perforation Count
+  perf_diameter: number; // Perforation Diameter
+  perf_cd: number; // Perforation Discharge Coefficient
 }
 
 export enum ModelType {
   PKN = 'PKN',
   KGD = 'KGD',
-  RADIAL = 'Radial'
+  RADIAL = 'Radial',
+  P3D = 'P3D'
+}
+
+export enum RheologyType {
+  NEWTONIAN = 'Newtonian',
+  POWER_LAW = 'Power-law',
+  HERSCHEL_BULKLEY = 'Herschel-Bulkley'
 }
 
 export enum UnitSystem {
@@ -23,11 +45,111 @@ export enum UnitSystem {
   FIELD = 'Field'
 }
 
+export interface PumpStage {
+  name: string;
+  q: number; // Injection Rate
+  mu: number; // Viscosity
+  duration: number; // Stage Time
+  proppant: number; // Proppant Concentration (mass per volume of clean fluid)
+}
+
+// Ordered list of stages pumped back to back (pad, proppant stages, flush)
+export type PumpSchedule = PumpStage[];
+
+export interface FormationLayer {
+  name: string;
+  top: number; // Top depth (TVD)
+  stress: number; // Min Horizontal Stress
+  E: number; // Young's Modulus
+  K_IC: number; // Fracture Toughness
+  CL: number; // Carter Leakoff Coefficient
+}
+
+// Viscosity multiplier against temperature or time in the fracture
+export interface ViscosityCurvePoint {
+  x: number; // Temperature, or time since the fluid entered the fracture
+  factor: number; // Multiplier on the viscosity as pumped
+}
+
+// Fluid library entry: how a fluid thins as it heats up and breaks down
+export interface FluidSystem {
+  name: string;
+  temperature: ViscosityCurvePoint[]; // Viscosity ratio against fluid temperature
+  degradation: ViscosityCurvePoint[]; // Retained viscosity against time at bottomhole temperature
+}
+
+// Fluid heating and breakdown in the fracture. Stage viscosities (and K') are
+// taken as pumped at the injection temperature.
+export interface ThermalOptions {
+  fluid: FluidSystem;
+  T_inj: number; // Fluid temperature at the perforations
+  T_bh: number; // Bottomhole static temperature
+  heatup: number; // Time constant for fluid in the fracture to approach T_bh
+}
+
+// Fluid catalog entry: what selecting it fills into FracInputs and the rheology,
+// plus the temperature and breakdown curves used by ThermalOptions
+export interface FluidCatalogEntry extends FluidSystem {
+  id: string;
+  rheology: RheologyType;
+  rho_f: number; // Fluid Density
+  mu: number; // Viscosity (Newtonian, or apparent for the pump schedule)
+  n_prime: number; // Flow Behavior Index (n')
+  K_prime: number; // Consistency Index (K')
+  tau_y: number; // Yield Stress (Herschel-Bulkley)
+}
+
+// Pack permeability under a closure stress, as measured in a conductivity cell
+export interface PermeabilityPoint {
+  stress: number; // Closure stress on the pack
+  permeability: number;
+}
+
+export interface ProppantCatalogEntry {
+  id: string;
+  name: string;
+  specific_gravity: number; // Apparent grain density relative to water
+  d_p: number; // Median grain diameter
+  phi_pack: number; // Pack porosity
+  permeability: PermeabilityPoint[]; // Pack permeability against closure stress
+}
+
+// Catalog entries the current inputs were filled from, copied whole so a
+// scenario or record still describes them after the catalog is edited
+export interface CatalogSelection {
+  fluid: FluidCatalogEntry | null;
+  proppant: ProppantCatalogEntry | null;
+}
+
+// Non-scalar model inputs that cannot live in the all-numeric FracInputs
+export interface SimulationOptions {
+  schedule?: PumpSchedule; // Empty/undefined = single constant-rate stage from FracInputs
+  rheology?: RheologyType; // Undefined = Newtonian with FracInputs.mu / stage viscosity
+  layers?: FormationLayer[]; // P3D only; empty/undefined = single layer from FracInputs
+  thermal?: ThermalOptions; // Undefined = viscosity constant through the fracture
+  packPermeability?: PermeabilityPoint[]; // Undefined/empty = Kozeny-Carman from grain size and porosity
+}
+
 export interface TimeStep {
   time: number;
   length: number;
   width: number;
   pressure: number;
+  stage: number; // Index into the pump schedule
+  phase: 'pumping' | 'shut-in';
+  surface_pressure: number; // Surface treating pressure
+  height: number; // Fracture height at the wellbore
+  viscosity?: number; // Effective viscosity of the fracture fluid (pumping only)
+}
+
+export interface StageResult {
+  name: string;
+  startTime: number; // SI (s)
+  endTime: number; // SI (s)
+  length: number; // SI (m) at end of stage
+  width: number; // SI (m) at end of stage
+  pressure: number; // SI (Pa) at end of stage
+  volume: number; // SI (m3) cumulative injected at end of stage
 }
 
 export interface ProfilePoint {
@@ -35,28 +157,421 @@ export interface ProfilePoint {
   width: number;
 }
 
+export interface VerticalPoint {
+  depth: number; // SI (m) TVD
+  width: number; // SI (m) at the wellbore
+  stress: number; // SI (Pa) closure stress of the layer at this depth
+}
+
+export interface VerticalProfile {
+  top: number; // SI (m) TVD of the upper tip
+  bottom: number; // SI (m) TVD of the lower tip
+  contained: boolean; // False if height growth hit the runaway limit
+  points: VerticalPoint[];
+}
+
+export interface PressureBreakdown {
+  bhtp: number; // SI (Pa) bottomhole treating pressure
+  hydrostatic: number; // SI (Pa) fluid column, subtracted at surface
+  pipe_friction: number; // SI (Pa)
+  perf_friction: number; // SI (Pa)
+  surface: number; // SI (Pa) bhtp - hydrostatic + pipe friction + perf friction
+}
+
+export interface ClosureResult {
+  closed: boolean; // False if still open at the end of the simulated shut-in
+  time: number | null; // SI (s) after shut-in; null if it never closes (no leak-off)
+  G: number | null; // Nolte G-function value at closure
+  alpha: number; // Area growth exponent used for the G-function
+  pressure: number; // SI (Pa), closure pressure = sigma_min
+  length: number; // SI (m) closed fracture length (or radius)
+  height: number; // SI (m) closed fracture height
+  width: number; // SI (m) residual width after closure
+  efficiency: number; // Fluid efficiency implied by G at closure
+}
+
+export interface ProppantStageResult {
+  name: string;
+  mass: number; // SI (kg)
+  concentration_in: number; // SI (kg/m3) as pumped
+  concentration_frac: number; // SI (kg/m3) after dehydration by leak-off
+  volume_fraction: number; // Solids volume fraction of the slurry in the fracture
+  x_start: number; // SI (m) from wellbore
+  x_end: number; // SI (m) from wellbore
+  settled_fraction: number; // Fraction of the stage's proppant settled into the bank
+}
+
+export interface ProppantPoint {
+  position: number; // SI (m)
+  concentration: number; // SI (kg/m3) in-fracture concentration at shut-in
+  bank_height: number; // SI (m) settled bank height at closure
+  propped_width: number; // SI (m) pack width after closure
+}
+
+export interface ProppantResult {
+  mass_total: number; // SI (kg)
+  stages: ProppantStageResult[];
+  distribution: ProppantPoint[];
+  propped_length: number; // SI (m)
+  propped_height: number; // SI (m)
+  propped_width: number; // SI (m) average pack width
+  permeability: number; // SI (m2) pack permeability
+  conductivity: number; // SI (m3) permeability * propped width
+  screenout: boolean;
+  screenout_stage: string | null;
+  warnings: string[];
+}
+
+// Vertices of the hydraulic fracture parametric space: viscosity (M) or
+// toughness (K) dominated, with storage or leak-off (~) dominated fluid balance
+export type RegimeVertex = 'M' | 'K' | 'M~' | 'K~';
+
+export interface RegimePoint {
+  time: number; // SI (s)
+  K_m: number; // Dimensionless toughness
+  C_m: number; // Dimensionless leak-off
+  vertex: RegimeVertex; // Nearest vertex
+}
+
+// Viscosity- and toughness-dominated net pressures behind a transition solution
+export interface AsymptoteResult {
+  nearest: 'Viscosity' | 'Toughness';
+  p_viscosity: number; // SI (Pa) zero-toughness asymptote
+  p_toughness: number; // SI (Pa) zero-viscosity asymptote
+}
+
 export interface ModelResult {
   type: ModelType;
   length: number; // Always SI (m)
   width_avg: number; // Always SI (m)
   width_max: number; // Always SI (m)
+  height: number; // Always SI (m), fracture height at end of pumping
   p_net: number; // Always SI (Pa)
   p_well: number; // Always SI (Pa)
+  p_surface_max: number; // Always SI (Pa), peak surface treating pressure while pumping
+  pressure_breakdown: PressureBreakdown; // Always SI, at end of pumping
   efficiency: number; // Dimensionless
   volume_injected: number; // SI (m3)
   volume_leakoff: number; // SI (m3)
   regime: 'Viscosity' | 'Toughness' | 'Leakoff-Dominated';
+  regime_vertex: RegimeVertex; // At end of pumping
+  regimeTrajectory: RegimePoint[]; // K_m, C_m over the pumping history
+  asymptote: AsymptoteResult | null; // KGD and Radial only, at end of pumping
   warnings: string[];
   timeSeries: TimeStep[]; // Always SI
   profile: ProfilePoint[]; // Always SI
+  stages: StageResult[]; // Always SI
+  closure: ClosureResult;
+  proppant: ProppantResult | null; // Null when no proppant is pumped
+  vertical: VerticalProfile | null; // P3D only: cross-section at the wellbore
+}
+
+export interface DfitPoint {
+  dt: number; // SI (s) since shut-in
+  pressure: number; // SI (Pa) bottomhole pressure
+}
+
+export interface DfitDiagnosticPoint {
+  dt: number; // SI (s) since shut-in
+  G: number; // Nolte G-function
+  sqrtT: number; // sqrt of time since shut-in (s^0.5)
+  pressure: number; // SI (Pa)
+  dPdG: number; // -dP/dG, SI (Pa)
+  GdPdG: number; // G * (-dP/dG), SI (Pa)
+  dPdSqrtT: number; // -dP/d(sqrt t), SI (Pa/s^0.5)
+}
+
+export interface DfitResult {
+  isip: number; // SI (Pa) instantaneous shut-in pressure
+  closurePressure: number | null; // SI (Pa) from the G-function tangent
+  closureTime: number | null; // SI (s) since shut-in
+  closureG: number | null;
+  sqrtTClosurePressure: number | null; // SI (Pa) from the sqrt-time inflection
+  sqrtTClosureTime: number | null; // SI (s) since shut-in
+  tangentSlope: number; // SI (Pa) slope of the G*dP/dG line through the origin
+  efficiency: number | null;
+  CL: number | null; // SI (m/s^0.5)
+  netPressure: number | null; // SI (Pa) ISIP - closure pressure
+  points: DfitDiagnosticPoint[];
+  warnings: string[];
 }
 
 export interface SensitivityData {
   parameter: string;
-  factor: number;
+  factor: number; // Perturbed / base value of the input
+  value: number; // Perturbed input value, SI
   L_change: number; // % change
   w_change: number; // % change
   p_change: number; // % change
+  eff_change: number; // % change in fluid efficiency
+}
+
+// Low and high values (SI) an input is moved to for the sensitivity runs
+export interface SensitivityRange {
+  parameter: keyof FracInputs;
+  low: number;
+  high: number;
+}
+
+export enum DistributionType {
+  UNIFORM = 'Uniform',
+  NORMAL = 'Normal',
+  LOGNORMAL = 'Lognormal',
+  TRIANGULAR = 'Triangular'
+}
+
+// Uncertainty on one input, parameters in the input's units:
+// uniform (a = min, b = max), normal and lognormal (a = mean, b = std dev),
+// triangular (a = min, b = mode, c = max)
+export interface InputDistribution {
+  field: keyof FracInputs;
+  type: DistributionType;
+  a: number;
+  b: number;
+  c: number;
+}
+
+// Correlation between the normal scores of two uncertain inputs (Gaussian copula)
+export interface InputCorrelation {
+  a: keyof FracInputs;
+  b: keyof FracInputs;
+  rho: number;
+}
+
+// Percentiles use the exceedance convention: P90 is exceeded by 90% of realizations
+export interface OutputStats {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  samples: number[]; // Sorted ascending
+}
+
+export interface MonteCarloResult {
+  type: ModelType;
+  realizations: number; // Valid runs behind the statistics
+  rejected: number; // Draws with non-physical inputs or results
+  length: OutputStats; // SI (m)
+  width: OutputStats; // SI (m), max width
+  p_net: OutputStats; // SI (Pa)
+  p_surface: OutputStats; // SI (Pa), peak surface pressure
+  p_exceed: number; // Fraction of realizations above p_limit
+}
+
+export type DesignMetric = 'length' | 'width' | 'conductivity';
+
+// Optimizer goal and limits, SI
+export interface DesignConstraints {
+  metric: DesignMetric; // Half-length (or radius), average width, or propped conductivity
+  target: number;
+  p_limit: number; // Max surface treating pressure
+  q_max: number; // Max pump rate
+  volume_max: number; // Max fluid volume
+  efficiency_min: number; // Minimum fluid efficiency (0-1)
+}
+
+// One evaluated design. Factors scale the current rate, pump time and
+// viscosity (K' for non-Newtonian fluids); the absolute values are SI.
+export interface DesignPoint {
+  q_factor: number;
+  time_factor: number;
+  mu_factor: number;
+  q: number; // Peak pump rate
+  time: number; // Total pump time
+  mu: number; // Newtonian viscosity or K'
+  metric: number | null; // Null when the metric is unavailable (no proppant)
+  p_surface: number;
+  volume: number;
+  efficiency: number;
+  violations: string[]; // Empty when all constraints hold
+}
+
+export interface DesignResult {
+  best: DesignPoint | null; // Cheapest feasible design on target, else the feasible design closest to it
+  onTarget: boolean; // Best design is within tolerance of the target
+  points: DesignPoint[]; // Search grid, the feasible region is the points without violations
+}
+
+// Which pressure an observed record measures
+export type PressureKind = 'net' | 'bottomhole' | 'surface';
+
+export interface ObservedPressure {
+  time: number; // SI (s) since start of pumping
+  pressure: number; // SI (Pa)
+}
+
+// Input adjusted by the history match, with its search bounds (SI)
+export interface MatchParameter {
+  field: keyof FracInputs;
+  lower: number;
+  upper: number;
+}
+
+export interface FittedParameter {
+  field: keyof FracInputs;
+  initial: number; // SI
+  value: number; // SI best fit
+  stdError: number | null; // SI, null when the data do not resolve it
+  ci_low: number | null; // SI, 95% confidence interval
+  ci_high: number | null;
+  atBound: boolean; // Best fit sits on a search bound
+}
+
+export interface MatchResidual {
+  time: number; // SI (s)
+  observed: number; // SI (Pa)
+  initial: number; // SI (Pa) model before the match
+  model: number; // SI (Pa) best-fit model
+}
+
+export interface HistoryMatchResult {
+  parameters: FittedParameter[];
+  residuals: MatchResidual[];
+  rms_initial: number; // SI (Pa)
+  rms: number; // SI (Pa)
+  iterations: number;
+  converged: boolean;
+  warnings: string[];
+}
+
+// Nolte-Smith pumping modes, by log-log slope of net pressure against time:
+// I small positive (confined extension), II zero (stable height growth or
+// fissure opening), III near unit (restricted tip extension or screenout),
+// IV negative (unstable height growth)
+export type NolteSmithMode = 'I' | 'II' | 'III' | 'IV';
+
+export interface NolteSmithSegment {
+  start: number; // SI (s) since start of pumping
+  end: number; // SI (s)
+  slope: number; // d ln(p_net) / d ln(t)
+  mode: NolteSmithMode;
+  interpretation: string;
+  problem: boolean; // Slope points to a treatment problem for the selected geometry
+}
+
+// Measured channels of a treatment data file
+export type FieldChannel = 'time' | 'rate' | 'surface_pressure' | 'bottomhole_pressure' | 'proppant' | 'density';
+
+// How one file column is read: which channel it holds and in which unit system
+export interface FieldColumnMapping {
+  channel: FieldChannel | null; // Null = ignored
+  unitSystem: UnitSystem;
+  detected: boolean; // Unit recognised from the header rather than assumed
+}
+
+export interface FieldSample {
+  time: number; // SI (s) since start of pumping
+  rate: number | null; // SI (m3/s); null when the channel is not in the file
+  surface_pressure: number | null; // SI (Pa)
+  bottomhole_pressure: number | null; // SI (Pa)
+  proppant: number | null; // SI (kg/m3)
+  density: number | null; // SI (kg/m3)
+}
+
+export interface FieldTrace {
+  fileName: string;
+  channels: FieldChannel[]; // Channels present, besides time
+  samples: FieldSample[];
+}
+
+// Perforation clusters of one stage, evenly spaced along the lateral
+export interface ClusterDesign {
+  spacing: number; // SI (m) between neighbouring clusters
+  perfs: number[]; // Perforations per cluster, heel to toe
+}
+
+export interface ClusterResult {
+  index: number; // 0 = heel-side cluster
+  position: number; // SI (m) from the heel-side cluster
+  n_perfs: number;
+  q: number; // SI (m3/s) rate taken by the cluster
+  fraction: number; // Share of the stage rate
+  stress_shadow: number; // SI (Pa) closure stress added by the neighbouring fractures
+  perf_friction: number; // SI (Pa)
+  result: ModelResult; // Single-fracture model at the cluster rate and shadowed stress
+}
+
+export interface MultiClusterResult {
+  clusters: ClusterResult[];
+  p_wellbore: number; // SI (Pa) bottomhole treating pressure shared by all clusters
+  p_surface: number; // SI (Pa) at the stage rate
+  rate_cv: number; // Coefficient of variation of the cluster rates (0 = uniform)
+  iterations: number;
+  converged: boolean;
+  warnings: string[];
+}
+
+export type ReservoirFluid = 'oil' | 'gas';
+
+// Drainage area around the fractured well. Like FracInputs, held in display
+// units by the app and converted to SI for the calculations.
+export interface ReservoirInputs {
+  fluid: ReservoirFluid;
+  k: number; // Permeability
+  h: number; // Net pay thickness
+  phi: number; // Porosity
+  p_res: number; // Initial reservoir pressure
+  p_wf: number; // Flowing bottomhole pressure
+  area: number; // Drainage area
+  rw: number; // Wellbore radius
+  mu: number; // Reservoir fluid viscosity
+  B: number; // Oil formation volume factor (reservoir / stock-tank volume)
+  z: number; // Gas deviation factor
+  T: number; // Reservoir temperature
+  ct: number; // Total compressibility
+}
+
+export interface ForecastPoint {
+  time: number; // SI (s) on production
+  rate: number; // SI (m3/s) at standard conditions for gas
+  cumulative: number; // SI (m3)
+  rate_base: number; // SI, same well without the fracture
+  cumulative_base: number; // SI
+}
+
+export interface ProductionResult {
+  xf: number; // SI (m) propped half-length used
+  conductivity: number; // SI (m3) k_f * w
+  FCD: number; // Dimensionless fracture conductivity
+  rw_eff: number; // SI (m) Cinco-Ley effective wellbore radius
+  skin: number; // Equivalent fracture skin
+  folds: number; // Pseudo-steady productivity index ratio J / J0
+  points: ForecastPoint[];
+  warnings: string[];
+}
+
+// A pump stage with the volumes and mass it moves, for stage tables
+export interface DesignedStage extends PumpStage {
+  clean_volume: number; // SI (m3)
+  slurry_volume: number; // SI (m3) clean fluid plus proppant solids
+  mass: number; // SI (kg) proppant
+}
+
+// Pad and proppant ramp sized from fluid efficiency (Nolte, 1986)
+export interface ScheduleDesign {
+  efficiency: number;
+  pad_fraction: number; // Pad share of the clean volume pumped into the fracture
+  ramp_exponent: number; // c(V) = c_end ((V - V_pad) / (V - V_pad)_total)^exponent
+  stages: DesignedStage[];
+  mass_total: number; // SI (kg)
+  warnings: string[];
+}
+
+// Unified Fracture Design (Economides & Valko): the proppant number fixes the
+// fracture that maximizes pseudo-steady productivity for the proppant placed
+export interface UfdResult {
+  mass: number; // SI (kg) proppant pumped
+  pay_fraction: number; // Share of the propped height inside the net pay
+  proppant_number: number; // N_p = 2 k_f V_p,pay / (k V_res)
+  FCD_opt: number;
+  xf_opt: number; // SI (m)
+  w_opt: number; // SI (m) propped width
+  JD_opt: number; // Maximum dimensionless productivity index
+  FCD: number | null; // Current design, null when it pumps no proppant
+  JD: number | null;
+  length_ratio: number; // ModelResult.length / xf_opt
+  width_ratio: number; // ModelResult.width_avg / w_opt
+  guidance: string[];
 }
 
 export interface ChatMessage {
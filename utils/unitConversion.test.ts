@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_INPUTS } from '../constants';
+import { FracInputs, UnitSystem } from '../types';
+import { MODEL_UNITS, convertInputs, convertValue, unitConverters } from './unitConversion';
+
+describe('unit conversion', () => {
+  it('round-trips every input through each display system', () => {
+    [UnitSystem.SI, UnitSystem.FIELD].forEach(system => {
+      const back = convertInputs(convertInputs(INITIAL_INPUTS, MODEL_UNITS, system), system, MODEL_UNITS);
+      (Object.keys(INITIAL_INPUTS) as (keyof FracInputs)[]).forEach(key => {
+        expect(Math.abs(back[key] - INITIAL_INPUTS[key])).toBeLessThanOrEqual(1e-12 * Math.abs(INITIAL_INPUTS[key]));
+      });
+    });
+  });
+
+  it('reaches the model with the same value from either system', () => {
+    const typed = (d_p: number, system: UnitSystem) => convertInputs({ ...convertInputs(INITIAL_INPUTS, MODEL_UNITS, system), d_p }, system, MODEL_UNITS).d_p;
+    expect(typed(0.0006, UnitSystem.SI)).toBeCloseTo(0.0006, 10);
+    expect(typed(0.0236, UnitSystem.FIELD)).toBeCloseTo(0.0006, 5);
+    expect(convertValue(6, 'width', UnitSystem.SI, MODEL_UNITS)).toBeCloseTo(0.006, 12);
+    expect(convertValue(6 / 25.4, 'width', UnitSystem.FIELD, MODEL_UNITS)).toBeCloseTo(0.006, 12);
+  });
+
+  it('applies SI display factors other than 1', () => {
+    const { toDisplay, toSI } = unitConverters(UnitSystem.SI);
+    expect(toDisplay(0.005, 'width')).toBeCloseTo(5, 10);
+    expect(toSI(5, 'width')).toBeCloseTo(0.005, 12);
+    expect(toDisplay(4.3e-13, 'conductivity')).toBeCloseTo(435.7, 1);
+    expect(unitConverters(UnitSystem.FIELD).toDisplay(4.3e-13, 'conductivity')).toBeCloseTo(1429.5, 1);
+  });
+});
@@ -1,7 +1,6 @@
-import { FracInputs, UnitSystem } from "../types";
+import { CatalogSelection, FluidCatalogEntry, FluidSystem, FormationLayer, FracInputs, PermeabilityPoint, ProppantCatalogEntry, PumpSchedule, ReservoirInputs, ThermalOptions, UnitSystem } from "../types";
 
-// Conversion Factors: Multiply SI by 'toUnit' to get Display Unit.
-// Multiply Display Unit by 'toSI' to get SI.
+// Conversion Factors: Multiply Display Unit by 'toSI' to get base SI.
 // We store 'toSI' factors. (e.g. 1 ft = 0.3048 m)
 
 export const UNIT_CONFIG = {
@@ -11,9 +10,25 @@ export const UNIT_CONFIG = {
     viscosity: { label: 'Pa.s', toSI: 1 },
     length: { label: 'm', toSI: 1 },
     width: { label: 'mm', toSI: 0.001 }, // Display width in mm usually
+    diameter: { label: 'm', toSI: 1 }, // Grain, pipe and perforation diameters
     toughness: { label: 'Pa.m^0.5', toSI: 1 },
     leakoff: { label: 'm/s^0.5', toSI: 1 },
+    spurt: { label: 'm³/m²', toSI: 1 },
     time: { label: 's', toSI: 1 },
+    volume: { label: 'm³', toSI: 1 },
+    density: { label: 'kg/m³', toSI: 1 },
+    concentration: { label: 'kg/m³', toSI: 1 }, // Proppant mass per clean fluid volume
+    conductivity: { label: 'mD.m', toSI: 9.869233e-16 },
+    consistency: { label: 'Pa.s^n', toSI: 1 },
+    yield: { label: 'Pa', toSI: 1 },
+    permeability: { label: 'mD', toSI: 9.869233e-16 },
+    area: { label: 'ha', toSI: 1e4 },
+    compressibility: { label: '1/Pa', toSI: 1 },
+    temperature: { label: '°C', toSI: 1 },
+    production: { label: 'm³/d', toSI: 1 / 86400 },
+    gas_rate: { label: 'sm³/d', toSI: 1 / 86400 },
+    gas_volume: { label: 'sm³', toSI: 1 },
+    mass: { label: 'kg', toSI: 1 },
     dimensionless: { label: '-', toSI: 1 }
   },
   [UnitSystem.FIELD]: {
@@ -22,48 +37,116 @@ export const UNIT_CONFIG = {
     viscosity: { label: 'cp', toSI: 0.001 }, // 1 cp = 0.001 Pa.s
     length: { label: 'ft', toSI: 0.3048 },
     width: { label: 'in', toSI: 0.0254 },
+    diameter: { label: 'in', toSI: 0.0254 },
     toughness: { label: 'psi.in^0.5', toSI: 1098.84 }, // 1 psi.sqrt(in) approx 1098.8 Pa.sqrt(m)
     leakoff: { label: 'ft/min^0.5', toSI: 0.0393396 }, // ft/min^0.5 -> m/s^0.5 (0.3048 / sqrt(60))
+    spurt: { label: 'gal/100ft²', toSI: 4.0746e-4 }, // 1 gal per 100 ft2 of face = 0.41 L/m2
     time: { label: 'min', toSI: 60 },
+    volume: { label: 'bbl', toSI: 0.158987 },
+    density: { label: 'ppg', toSI: 119.826 }, // 1 lb/gal = 119.826 kg/m3
+    concentration: { label: 'ppa', toSI: 119.826 }, // lb proppant per gal clean fluid
+    conductivity: { label: 'mD.ft', toSI: 3.008142e-16 },
+    consistency: { label: 'lbf.s^n/ft²', toSI: 47.880 },
+    yield: { label: 'lbf/100ft²', toSI: 0.478803 },
+    permeability: { label: 'mD', toSI: 9.869233e-16 },
+    area: { label: 'acre', toSI: 4046.86 },
+    compressibility: { label: '1/psi', toSI: 1 / 6894.76 },
+    temperature: { label: '°F', toSI: 5 / 9 },
+    production: { label: 'bbl/d', toSI: 0.158987 / 86400 },
+    gas_rate: { label: 'Mscf/d', toSI: 28.3168 / 86400 },
+    gas_volume: { label: 'MMscf', toSI: 28316.8 },
+    mass: { label: 'lb', toSI: 0.45359237 },
     dimensionless: { label: '-', toSI: 1 }
   }
 };
 
+// The units the models compute in: base SI (m, Pa, s, m³/s ...) for every
+// category. Convert to and from it, never to UnitSystem.SI, which is a
+// display system and shows some categories scaled (e.g. widths in mm).
+export const MODEL_UNITS = 'Model' as const;
+export type Units = UnitSystem | typeof MODEL_UNITS;
+
+export type UnitCategory = keyof typeof UNIT_CONFIG['SI'];
+
+const toSIFactor = (sys: Units, category: UnitCategory): number =>
+  sys === MODEL_UNITS ? 1 : UNIT_CONFIG[sys][category].toSI;
+
+// Temperature scales do not share a zero: value at 0 °C in each system
+const TEMPERATURE_ZERO = {
+  [UnitSystem.SI]: 0,
+  [UnitSystem.FIELD]: 32
+};
+
+const temperatureZero = (sys: Units): number =>
+  sys === MODEL_UNITS ? 0 : TEMPERATURE_ZERO[sys];
+
 // Map input keys to unit categories
 const PARAM_UNIT_MAP: Record<keyof FracInputs, keyof typeof UNIT_CONFIG['SI']> = {
   E: 'pressure',
   nu: 'dimensionless',
   sigma_min: 'pressure',
   CL: 'leakoff',
+  Sp: 'spurt',
   mu: 'viscosity',
   q: 'rate',
   H: 'length',
   K_IC: 'toughness',
   time: 'time',
   p_limit: 'pressure',
-  depth: 'length'
+  depth: 'length',
+  t_shutin: 'time',
+  rho_f: 'density',
+  rho_p: 'density',
+  d_p: 'diameter',
+  phi_pack: 'dimensionless',
+  n_prime: 'dimensionless',
+  K_prime: 'consistency',
+  tau_y: 'yield',
+  pipe_id: 'diameter',
+  pipe_length: 'length',
+  friction_reduction: 'dimensionless',
+  n_perfs: 'dimensionless',
+  perf_diameter: 'diameter',
+  perf_cd: 'dimensionless'
 };
 
 // Convert a single value from System A to System B
 export const convertValue = (
   val: number, 
-  category: keyof typeof UNIT_CONFIG['SI'], 
-  fromSys: UnitSystem, 
-  toSys: UnitSystem
+  category: UnitCategory, 
+  fromSys: Units, 
+  toSys: Units
 ): number => {
   if (fromSys === toSys) return val;
-  const fromFactor = UNIT_CONFIG[fromSys][category].toSI;
-  const toFactor = UNIT_CONFIG[toSys][category].toSI;
+  const fromFactor = toSIFactor(fromSys, category);
+  const toFactor = toSIFactor(toSys, category);
+  if (category === 'temperature') {
+    return ((val - temperatureZero(fromSys)) * fromFactor) / toFactor + temperatureZero(toSys);
+  }
   // SI = val * fromFactor
   // NewVal = SI / toFactor
   return (val * fromFactor) / toFactor;
 };
 
+// Converters between model units and a display system, for components
+export const unitConverters = (system: UnitSystem) => ({
+  toDisplay: (val: number, category: UnitCategory): number => convertValue(val, category, MODEL_UNITS, system),
+  toSI: (val: number, category: UnitCategory): number => convertValue(val, category, system, MODEL_UNITS)
+});
+
+// Convert a single input parameter using its unit category
+export const convertParam = (
+  param: keyof FracInputs,
+  val: number,
+  fromSys: Units,
+  toSys: Units
+): number => convertValue(val, PARAM_UNIT_MAP[param], fromSys, toSys);
+
 // Convert entire inputs object
 export const convertInputs = (
   inputs: FracInputs, 
-  fromSys: UnitSystem, 
-  toSys: UnitSystem
+  fromSys: Units, 
+  toSys: Units
 ): FracInputs => {
   const newInputs = { ...inputs };
   (Object.keys(inputs) as Array<keyof FracInputs>).forEach(key => {
@@ -72,6 +155,121 @@ export const convertInputs = (
   return newInputs;
 };
 
+// Convert the rate, viscosity, duration and proppant concentration of every pump stage
+export const convertSchedule = (
+  schedule: PumpSchedule,
+  fromSys: Units,
+  toSys: Units
+): PumpSchedule => schedule.map(stage => ({
+  ...stage,
+  q: convertValue(stage.q, 'rate', fromSys, toSys),
+  mu: convertValue(stage.mu, 'viscosity', fromSys, toSys),
+  duration: convertValue(stage.duration, 'time', fromSys, toSys),
+  proppant: convertValue(stage.proppant, 'concentration', fromSys, toSys)
+}));
+
+export const convertLayers = (
+  layers: FormationLayer[],
+  fromSys: Units,
+  toSys: Units
+): FormationLayer[] => layers.map(layer => ({
+  ...layer,
+  top: convertValue(layer.top, 'length', fromSys, toSys),
+  stress: convertValue(layer.stress, 'pressure', fromSys, toSys),
+  E: convertValue(layer.E, 'pressure', fromSys, toSys),
+  K_IC: convertValue(layer.K_IC, 'toughness', fromSys, toSys),
+  CL: convertValue(layer.CL, 'leakoff', fromSys, toSys)
+}));
+
+export const convertFluid = <T extends FluidSystem>(fluid: T, fromSys: Units, toSys: Units): T => ({
+  ...fluid,
+  temperature: fluid.temperature.map(p => ({ ...p, x: convertValue(p.x, 'temperature', fromSys, toSys) })),
+  degradation: fluid.degradation.map(p => ({ ...p, x: convertValue(p.x, 'time', fromSys, toSys) }))
+});
+
+export const convertThermal = (
+  thermal: ThermalOptions,
+  fromSys: Units,
+  toSys: Units
+): ThermalOptions => ({
+  fluid: convertFluid(thermal.fluid, fromSys, toSys),
+  T_inj: convertValue(thermal.T_inj, 'temperature', fromSys, toSys),
+  T_bh: convertValue(thermal.T_bh, 'temperature', fromSys, toSys),
+  heatup: convertValue(thermal.heatup, 'time', fromSys, toSys)
+});
+
+export const convertPermeabilityCurve = (
+  curve: PermeabilityPoint[],
+  fromSys: Units,
+  toSys: Units
+): PermeabilityPoint[] => curve.map(p => ({
+  stress: convertValue(p.stress, 'pressure', fromSys, toSys),
+  permeability: convertValue(p.permeability, 'permeability', fromSys, toSys)
+}));
+
+// Catalog entries share their field names, and units, with FracInputs
+export const convertFluidEntry = (
+  entry: FluidCatalogEntry,
+  fromSys: Units,
+  toSys: Units
+): FluidCatalogEntry => ({
+  ...convertFluid(entry, fromSys, toSys),
+  rho_f: convertParam('rho_f', entry.rho_f, fromSys, toSys),
+  mu: convertParam('mu', entry.mu, fromSys, toSys),
+  K_prime: convertParam('K_prime', entry.K_prime, fromSys, toSys),
+  tau_y: convertParam('tau_y', entry.tau_y, fromSys, toSys)
+});
+
+export const convertProppantEntry = (
+  entry: ProppantCatalogEntry,
+  fromSys: Units,
+  toSys: Units
+): ProppantCatalogEntry => ({
+  ...entry,
+  d_p: convertParam('d_p', entry.d_p, fromSys, toSys),
+  permeability: convertPermeabilityCurve(entry.permeability, fromSys, toSys)
+});
+
+export const convertCatalog = (
+  catalog: CatalogSelection,
+  fromSys: Units,
+  toSys: Units
+): CatalogSelection => ({
+  fluid: catalog.fluid ? convertFluidEntry(catalog.fluid, fromSys, toSys) : null,
+  proppant: catalog.proppant ? convertProppantEntry(catalog.proppant, fromSys, toSys) : null
+});
+
+// Map reservoir keys to unit categories
+const RESERVOIR_UNIT_MAP: Record<Exclude<keyof ReservoirInputs, 'fluid'>, keyof typeof UNIT_CONFIG['SI']> = {
+  k: 'permeability',
+  h: 'length',
+  phi: 'dimensionless',
+  p_res: 'pressure',
+  p_wf: 'pressure',
+  area: 'area',
+  rw: 'length',
+  mu: 'viscosity',
+  B: 'dimensionless',
+  z: 'dimensionless',
+  T: 'temperature',
+  ct: 'compressibility'
+};
+
+export const convertReservoir = (
+  reservoir: ReservoirInputs,
+  fromSys: Units,
+  toSys: Units
+): ReservoirInputs => {
+  const converted = { ...reservoir };
+  (Object.keys(RESERVOIR_UNIT_MAP) as Array<keyof typeof RESERVOIR_UNIT_MAP>).forEach(key => {
+    converted[key] = convertValue(reservoir[key], RESERVOIR_UNIT_MAP[key], fromSys, toSys);
+  });
+  return converted;
+};
+
+export const getReservoirLabel = (param: keyof typeof RESERVOIR_UNIT_MAP, system: UnitSystem): string =>
+  UNIT_CONFIG[system][RESERVOIR_UNIT_MAP[param]].label;
+
 // Helper to get label for a parameter
 export const getUnitLabel = (param: keyof FracInputs, system: UnitSystem): string => {
   return UNIT_CONFIG[system][PARAM_UNIT_MAP[param]].label;